@@ -25,7 +25,21 @@ type ExtensionPreferences = {
   /** Enable Application Tracking - Track active applications during focus sessions */
   "enableApplicationTracking": boolean,
   /** Tracking Interval - How often to check active application (in seconds) */
-  "trackingInterval": string
+  "trackingInterval": string,
+  /** Custom Timer Sequence - Minutes for alternating focus and break rounds, e.g. 50/10/50/10/30. A final break is a long break; a final focus round is followed by the first break */
+  "customTimerSequence": string,
+  /** Flowtime Break Ratio - Break length as a fraction of focused time in Flowtime sessions, e.g. 0.2 */
+  "flowtimeBreakRatio": string,
+  /** Trash Retention - Days to keep deleted sessions, tags and moods before they are removed for good */
+  "trashRetentionDays": string,
+  /** Session Detail - How long to keep every session before older ones are folded into daily totals */
+  "sessionDetailDays": "30" | "90" | "365" | "0",
+  /** Streak Days - Days that need a session to keep your streak going, other days are skipped */
+  "streakWorkingDays": "every-day" | "weekdays" | "monday-saturday",
+  /** Day Starts At - Sessions before this hour count toward the previous day in stats, streaks and history */
+  "dayStartHour": "0" | "2" | "3" | "4" | "5" | "6",
+  /** Week Starts On - First day of the week for weekly stats and history groups */
+  "weekStartsOn": "1" | "0" | "6"
 }
 
 /** Preferences accessible in all the extension's commands */
@@ -38,14 +52,44 @@ declare namespace Preferences {
   export type TimerHistory = ExtensionPreferences & {}
   /** Preferences accessible in the `profile-command` command */
   export type ProfileCommand = ExtensionPreferences & {}
+  /** Preferences accessible in the `menu-bar` command */
+  export type MenuBar = ExtensionPreferences & {}
+  /** Preferences accessible in the `quick-focus` command */
+  export type QuickFocus = ExtensionPreferences & {}
+  /** Preferences accessible in the `tasks` command */
+  export type Tasks = ExtensionPreferences & {}
+  /** Preferences accessible in the `export-data` command */
+  export type ExportData = ExtensionPreferences & {}
+  /** Preferences accessible in the `import-data` command */
+  export type ImportData = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
   /** Arguments passed to the `main-command` command */
   export type MainCommand = {}
   /** Arguments passed to the `timer-history` command */
-  export type TimerHistory = {}
+  export type TimerHistory = {
+  /** Saved view */
+  "view": string
+}
   /** Arguments passed to the `profile-command` command */
   export type ProfileCommand = {}
+  /** Arguments passed to the `menu-bar` command */
+  export type MenuBar = {}
+  /** Arguments passed to the `quick-focus` command */
+  export type QuickFocus = {
+  /** 45m Task #tag @project */
+  "task": string,
+  /** Minutes */
+  "duration": string,
+  /** Tags */
+  "tags": string
+}
+  /** Arguments passed to the `tasks` command */
+  export type Tasks = {}
+  /** Arguments passed to the `export-data` command */
+  export type ExportData = {}
+  /** Arguments passed to the `import-data` command */
+  export type ImportData = {}
 }
 
@@ -0,0 +1,86 @@
+import { TimerSession } from "../../../types/timer";
+import {
+  EXPORT_FORMATS,
+  ExportFilters,
+  ExportFormat,
+} from "../../../services/export";
+
+/**
+ * Export form option utilities
+ */
+
+// Dropdown value meaning "don't filter"
+export const ANY_OPTION = "";
+
+export interface ExportFormValues {
+  formats: string[];
+  startDate: Date | null;
+  endDate: Date | null;
+  tag: string;
+  project: string;
+  folder: string[];
+}
+
+/**
+ * Unique values, ignoring case, sorted alphabetically
+ */
+const uniqueValues = (values: string[]): string[] => {
+  const seen = new Map<string, string>();
+  values.forEach((value) => {
+    const key = value.toLowerCase();
+    if (!seen.has(key)) seen.set(key, value);
+  });
+  return Array.from(seen.values()).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Tags used in history, sorted alphabetically
+ */
+export const getExportTagOptions = (history: TimerSession[]): string[] =>
+  uniqueValues(history.flatMap((session) => session.tags || []));
+
+/**
+ * Projects used in history, sorted alphabetically
+ */
+export const getExportProjectOptions = (history: TimerSession[]): string[] =>
+  uniqueValues(
+    history
+      .map((session) => session.projectName)
+      .filter((project): project is string => !!project),
+  );
+
+/**
+ * Turn form values into export filters
+ */
+export const getExportFilters = (
+  values: Pick<ExportFormValues, "startDate" | "endDate" | "tag" | "project">,
+): ExportFilters => ({
+  startDate: values.startDate || undefined,
+  endDate: values.endDate || undefined,
+  tag: values.tag || undefined,
+  project: values.project || undefined,
+});
+
+/**
+ * Check the form values, returning an error per field
+ */
+export const validateExportForm = (
+  values: ExportFormValues,
+): Partial<Record<keyof ExportFormValues, string>> => {
+  const errors: Partial<Record<keyof ExportFormValues, string>> = {};
+
+  if (values.formats.length === 0) {
+    errors.formats = "Choose at least one format";
+  }
+  if (values.folder.length === 0) {
+    errors.folder = "Choose a folder to export to";
+  }
+  if (values.startDate && values.endDate && values.startDate > values.endDate) {
+    errors.endDate = "End date is before the start date";
+  }
+
+  return errors;
+};
+
+export const isExportFormat = (value: string): value is ExportFormat =>
+  value in EXPORT_FORMATS;
@@ -0,0 +1,5 @@
+/**
+ * Export command utilities barrel export
+ */
+
+export * from "./export-options";
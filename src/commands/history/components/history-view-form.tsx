@@ -0,0 +1,81 @@
+import { Action, ActionPanel, Form, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { useTimerStore } from "../../../store/timer-store";
+import { HistoryViewSettings, SavedHistoryView } from "../../../types/timer";
+import { ACTION_ICONS } from "../../../constants/design-tokens";
+import { describeViewSettings, findViewByName } from "../utils";
+
+interface HistoryViewFormProps {
+  settings: HistoryViewSettings;
+  view?: SavedHistoryView; // View to rename, omitted when saving a new one
+  onSaved?: (view: SavedHistoryView) => void;
+}
+
+export function HistoryViewForm({
+  settings,
+  view,
+  onSaved,
+}: HistoryViewFormProps) {
+  const { savedHistoryViews, saveHistoryView, updateHistoryView } =
+    useTimerStore();
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const handleSubmit = (values: { name: string }) => {
+    const name = values.name.trim();
+    if (!name) {
+      setNameError("View name is required");
+      return;
+    }
+
+    // Views are launched by name, so names must be unique
+    const existing = findViewByName(savedHistoryViews, name);
+    if (existing && existing.id !== view?.id) {
+      setNameError("A view with this name already exists");
+      return;
+    }
+
+    if (view) {
+      updateHistoryView(view.id, { name });
+      onSaved?.({ ...view, name });
+    } else {
+      onSaved?.(saveHistoryView(name, settings));
+    }
+
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={view ? "Rename View" : "Save View"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={view ? "Rename View" : "Save View"}
+            icon={ACTION_ICONS.SAVE}
+            onSubmit={handleSubmit}
+          />
+          <Action
+            title="Cancel"
+            icon={ACTION_ICONS.BACK}
+            onAction={() => pop()}
+            shortcut={{ modifiers: ["cmd"], key: "escape" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Client Acme this month"
+        defaultValue={view?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.Description
+        title="Shows"
+        text={describeViewSettings(view || settings)}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * History command components barrel export
+ */
+
+export { HistoryViewForm } from "./history-view-form";
+export { SavedViewsList } from "./saved-views-list";
@@ -0,0 +1,128 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Icon,
+  List,
+  confirmAlert,
+  useNavigation,
+} from "@raycast/api";
+import { useMemo } from "react";
+import { useTimerStore } from "../../../store/timer-store";
+import { SavedHistoryView } from "../../../types/timer";
+import { formatDuration } from "../../../utils/helpers";
+import { STATUS_COLORS } from "../../../constants/design-tokens";
+import {
+  applyHistoryViewSettings,
+  describeViewSettings,
+  getHistoryViewDeeplink,
+  getHistoryViewTotals,
+} from "../utils";
+import { HistoryViewForm } from "./history-view-form";
+
+interface SavedViewsListProps {
+  onOpenView: (view: SavedHistoryView) => void;
+}
+
+export function SavedViewsList({ onOpenView }: SavedViewsListProps) {
+  const { savedHistoryViews, deleteHistoryView, history, moodEntries } =
+    useTimerStore();
+  const { pop } = useNavigation();
+
+  const totalsByView = useMemo(
+    () =>
+      new Map(
+        savedHistoryViews.map((view) => [
+          view.id,
+          getHistoryViewTotals(
+            applyHistoryViewSettings(history, moodEntries, view),
+          ),
+        ]),
+      ),
+    [savedHistoryViews, history, moodEntries],
+  );
+
+  const handleDelete = async (view: SavedHistoryView) => {
+    const confirmed = await confirmAlert({
+      title: `Delete "${view.name}"?`,
+      message: "Sessions in this view are not affected.",
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+
+    if (confirmed) {
+      deleteHistoryView(view.id);
+    }
+  };
+
+  return (
+    <List navigationTitle="Saved Views">
+      <List.EmptyView
+        icon={Icon.Bookmark}
+        title="No Saved Views"
+        description="Filter Timer History, then press Cmd+S to save the filters as a view"
+      />
+      {savedHistoryViews.map((view) => {
+        const totals = totalsByView.get(view.id);
+
+        return (
+          <List.Item
+            key={view.id}
+            icon={Icon.Bookmark}
+            title={view.name}
+            subtitle={describeViewSettings(view)}
+            accessories={
+              totals && [
+                { text: `${totals.sessions}`, tooltip: "Sessions" },
+                {
+                  icon: { source: Icon.Clock, tintColor: STATUS_COLORS.INFO },
+                  text: formatDuration(totals.focusSeconds),
+                  tooltip: "Focus time",
+                },
+                {
+                  icon: {
+                    source: Icon.CheckCircle,
+                    tintColor: STATUS_COLORS.SUCCESS,
+                  },
+                  text: `${totals.completionRate}%`,
+                  tooltip: "Completion rate",
+                },
+              ]
+            }
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Open View"
+                  icon={Icon.Eye}
+                  onAction={() => {
+                    onOpenView(view);
+                    pop();
+                  }}
+                />
+                <Action.Push
+                  title="Rename View"
+                  icon={Icon.Pencil}
+                  target={<HistoryViewForm settings={view} view={view} />}
+                  shortcut={{ modifiers: ["cmd"], key: "e" }}
+                />
+                <Action.CreateQuicklink
+                  title="Create Quicklink"
+                  quicklink={{
+                    name: `Timer History: ${view.name}`,
+                    link: getHistoryViewDeeplink(view),
+                  }}
+                />
+                <Action
+                  title="Delete View"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={() => handleDelete(view)}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
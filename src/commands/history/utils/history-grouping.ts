@@ -0,0 +1,189 @@
+import { format, isThisYear } from "date-fns";
+import {
+  HistoryGroupBy,
+  MoodEntry,
+  SessionType,
+  TimerSession,
+} from "../../../types/timer";
+import {
+  addDaysToKey,
+  getDayFromKey,
+  getDayKey,
+  getMonthKey,
+  getWeekStartKey,
+  isThisMonth,
+  isThisWeek,
+  isToday,
+  isYesterday,
+} from "../../../utils/date-buckets";
+import { formatDuration, getFocusedDuration } from "../../../utils/helpers";
+import { HistoryViewTotals } from "./history-views";
+
+/**
+ * Timer History grouping utilities
+ */
+
+export const HISTORY_GROUP_OPTIONS: { value: HistoryGroupBy; title: string }[] =
+  [
+    { value: "none", title: "No Grouping" },
+    { value: "day", title: "Day" },
+    { value: "week", title: "Week" },
+    { value: "month", title: "Month" },
+    { value: "project", title: "Project" },
+    { value: "tag", title: "Tag" },
+  ];
+
+export interface HistoryGroupTotals extends HistoryViewTotals {
+  averageMood?: number; // Average intensity of linked moods, 1-5
+}
+
+export interface HistoryGroup {
+  id: string;
+  title: string;
+  sessions: TimerSession[];
+  totals: HistoryGroupTotals;
+}
+
+interface GroupKey {
+  id: string;
+  title: string;
+}
+
+/**
+ * Work out the group (or groups, for tags) a session belongs to
+ */
+const getGroupKeys = (
+  session: TimerSession,
+  groupBy: HistoryGroupBy,
+): GroupKey[] => {
+  const startTime = session.startTime;
+
+  switch (groupBy) {
+    case "none":
+      return [{ id: "all", title: "Sessions" }];
+    case "week": {
+      const week = getWeekStartKey(startTime);
+      const weekStart = getDayFromKey(week);
+      const title = isThisWeek(startTime)
+        ? "This Week"
+        : week === addDaysToKey(getWeekStartKey(new Date()), -7)
+          ? "Last Week"
+          : `Week of ${format(weekStart, isThisYear(weekStart) ? "MMMM d" : "MMMM d, yyyy")}`;
+      return [{ id: `week-${week}`, title }];
+    }
+    case "month": {
+      const month = getMonthKey(startTime);
+      return [
+        {
+          id: `month-${month}`,
+          title: isThisMonth(startTime)
+            ? "This Month"
+            : format(getDayFromKey(`${month}-01`), "MMMM yyyy"),
+        },
+      ];
+    }
+    case "project":
+      return [
+        session.projectName
+          ? {
+              id: `project-${session.projectName.toLowerCase()}`,
+              title: session.projectName,
+            }
+          : { id: "project-none", title: "No Project" },
+      ];
+    case "tag":
+      return session.tags && session.tags.length > 0
+        ? session.tags.map((tag) => ({
+            id: `tag-${tag.toLowerCase()}`,
+            title: `#${tag}`,
+          }))
+        : [{ id: "tag-none", title: "No Tag" }];
+    default: {
+      const day = getDayKey(startTime);
+      const dayStart = getDayFromKey(day);
+      const title = isToday(startTime)
+        ? "Today"
+        : isYesterday(startTime)
+          ? "Yesterday"
+          : format(
+              dayStart,
+              isThisYear(dayStart) ? "EEEE, MMMM d" : "EEEE, MMMM d, yyyy",
+            );
+      return [{ id: `day-${day}`, title }];
+    }
+  }
+};
+
+/**
+ * Split sorted sessions into groups in a single pass, keeping the sort
+ * order within and across groups, and total each group as it is built.
+ * Sessions with several tags appear once per tag when grouping by tag.
+ */
+export const groupHistorySessions = (
+  sessions: TimerSession[],
+  groupBy: HistoryGroupBy,
+  moodsBySession: Map<string, MoodEntry[]>,
+): HistoryGroup[] => {
+  const groups = new Map<
+    string,
+    HistoryGroup & { completed: number; moodSum: number; moodCount: number }
+  >();
+
+  sessions.forEach((session) => {
+    const focusSeconds =
+      session.type === SessionType.WORK ? getFocusedDuration(session) : 0;
+    const moods = moodsBySession.get(session.id) || [];
+    const moodSum = moods.reduce((sum, entry) => sum + entry.intensity, 0);
+
+    getGroupKeys(session, groupBy).forEach(({ id, title }) => {
+      let group = groups.get(id);
+      if (!group) {
+        group = {
+          id,
+          title,
+          sessions: [],
+          totals: { sessions: 0, focusSeconds: 0, completionRate: 0 },
+          completed: 0,
+          moodSum: 0,
+          moodCount: 0,
+        };
+        groups.set(id, group);
+      }
+
+      group.sessions.push(session);
+      group.totals.sessions += 1;
+      group.totals.focusSeconds += focusSeconds;
+      group.completed += session.completed ? 1 : 0;
+      group.moodSum += moodSum;
+      group.moodCount += moods.length;
+    });
+  });
+
+  return Array.from(groups.values()).map(
+    ({ completed, moodSum, moodCount, ...group }) => ({
+      ...group,
+      totals: {
+        ...group.totals,
+        completionRate: Math.round((completed / group.totals.sessions) * 100),
+        averageMood:
+          moodCount > 0
+            ? Math.round((moodSum / moodCount) * 10) / 10
+            : undefined,
+      },
+    }),
+  );
+};
+
+/**
+ * Format group totals as a section subtitle,
+ * e.g. "2h 10m • 5 sessions • 80% completed • mood 3.5/5"
+ */
+export const formatGroupSubtitle = (totals: HistoryGroupTotals): string =>
+  [
+    formatDuration(totals.focusSeconds),
+    `${totals.sessions} ${totals.sessions === 1 ? "session" : "sessions"}`,
+    `${totals.completionRate}% completed`,
+    totals.averageMood !== undefined ? `mood ${totals.averageMood}/5` : "",
+  ]
+    .filter(Boolean)
+    .join(" • ");
@@ -0,0 +1,313 @@
+import { isValid, parseISO, subMonths } from "date-fns";
+import {
+  MoodEntry,
+  MoodType,
+  SessionType,
+  TimerSession,
+} from "../../../types/timer";
+import {
+  addDaysToKey,
+  getDayKey,
+  getDayRange,
+  getDayRangeForKey,
+  getMonthRange,
+  getWeekRange,
+  toDayKey,
+} from "../../../utils/date-buckets";
+import {
+  getFocusedDuration,
+  groupMoodsBySession,
+} from "../../../utils/helpers";
+import { getNameSimilarity, normalizeName } from "../../../utils/task-linking";
+import { parseDurationToken } from "../../main/utils/search-parsing";
+
+/**
+ * Timer History search query utilities
+ */
+
+/**
+ * Tests a session and the mood entries linked to it
+ */
+export type SessionPredicate = (
+  session: TimerSession,
+  moods: MoodEntry[],
+) => boolean;
+
+/**
+ * A query part that could not be understood, shown inline in the list
+ */
+export interface HistoryQueryError {
+  token: string;
+  message: string;
+}
+
+export interface HistoryQuery {
+  predicate: SessionPredicate;
+  filterCount: number; // Valid key:value filters in the query
+  freeText: string[]; // Words matched against task names and notes
+  errors: HistoryQueryError[];
+}
+
+/**
+ * Supported filter keys with the example shown in error hints
+ */
+export const HISTORY_QUERY_KEYS: Record<string, string> = {
+  tag: "tag:work",
+  project: "project:acme",
+  after: "after:2025-01-01, after:this-week or after:-7d",
+  before: "before:2025-02-01, before:today or before:last-month",
+  type: "type:work",
+  completed: "completed:false",
+  min: "min:20m",
+  max: "max:1h",
+  mood: "mood:stressed",
+  app: 'app:"Visual Studio Code"',
+  notes: 'notes:"refactor"',
+};
+
+// Free text words at least this similar to a word of the task or notes match
+const FUZZY_WORD_THRESHOLD = 0.75;
+
+const MOOD_VALUES: MoodType[] = [
+  "energized",
+  "focused",
+  "calm",
+  "motivated",
+  "neutral",
+  "tired",
+  "stressed",
+  "overwhelmed",
+  "distracted",
+];
+
+const TYPE_VALUES: Record<string, SessionType[]> = {
+  work: [SessionType.WORK],
+  focus: [SessionType.WORK],
+  break: [SessionType.SHORT_BREAK, SessionType.LONG_BREAK],
+  short_break: [SessionType.SHORT_BREAK],
+  short: [SessionType.SHORT_BREAK],
+  long_break: [SessionType.LONG_BREAK],
+  long: [SessionType.LONG_BREAK],
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  false: false,
+  no: false,
+};
+
+// key:"quoted value", key:value, "quoted text" or a bare word
+const TOKEN_PATTERN = /([a-z]+):"([^"]*)"?|([a-z]+):(\S*)|"([^"]*)"?|(\S+)/gi;
+
+const includesText = (value: string | undefined, search: string) =>
+  !!value && value.toLowerCase().includes(search.toLowerCase());
+
+/**
+ * Start of the day `days` days before the one `now` counts toward
+ */
+const getDaysAgoStart = (now: Date, days: number): Date =>
+  getDayRangeForKey(addDaysToKey(getDayKey(now), -days)).start;
+
+/**
+ * Start of the period each relative date value refers to
+ */
+const RELATIVE_DATES: Record<string, (now: Date) => Date> = {
+  today: (now) => getDayRange(now).start,
+  yesterday: (now) => getDaysAgoStart(now, 1),
+  "this-week": (now) => getWeekRange(now).start,
+  "last-week": (now) =>
+    getWeekRange(new Date(getWeekRange(now).start.getTime() - 1)).start,
+  "this-month": (now) => getMonthRange(now).start,
+  "last-month": (now) =>
+    getMonthRange(new Date(getMonthRange(now).start.getTime() - 1)).start,
+};
+
+// -7d, -2w or -3m: that many days, weeks or months ago
+const RELATIVE_OFFSET_PATTERN = /^-(\d+)([dwm])$/i;
+
+/**
+ * Parse a date filter value such as "2025-01-01", "this-week" or "-7d" into
+ * a function returning the start of that day or period. Values are resolved
+ * each time they are evaluated, so they follow the clock and the day and
+ * week start settings.
+ */
+const parseQueryDate = (value: string): (() => Date) | undefined => {
+  const relative = RELATIVE_DATES[value.toLowerCase()];
+  if (relative) return () => relative(new Date());
+
+  const offset = value.match(RELATIVE_OFFSET_PATTERN);
+  if (offset) {
+    const amount = parseInt(offset[1], 10);
+    const unit = offset[2].toLowerCase();
+    return unit === "m"
+      ? () => getDayRange(subMonths(new Date(), amount)).start
+      : () => getDaysAgoStart(new Date(), unit === "w" ? amount * 7 : amount);
+  }
+
+  const date = parseISO(value);
+  if (!isValid(date)) return undefined;
+
+  const key = toDayKey(date);
+  return () => getDayRangeForKey(key).start;
+};
+
+/**
+ * Build the predicate for one key:value filter, or an error message when
+ * the value is not valid for the key
+ */
+const createFilter = (
+  key: string,
+  value: string,
+): SessionPredicate | string => {
+  switch (key) {
+    case "tag":
+      return (session) =>
+        (session.tags || []).some(
+          (tag) => tag.toLowerCase() === value.replace(/^#/, "").toLowerCase(),
+        );
+    case "project":
+      return (session) => includesText(session.projectName, value);
+    case "after":
+    case "before": {
+      const getDate = parseQueryDate(value);
+      if (!getDate) {
+        return `"${value}" is not a date, use YYYY-MM-DD, today, yesterday, this-week, last-week, this-month, last-month or -7d`;
+      }
+
+      return key === "after"
+        ? (session) => session.startTime >= getDate()
+        : (session) => session.startTime < getDate();
+    }
+    case "type": {
+      const types = TYPE_VALUES[value.toLowerCase()];
+      if (!types) {
+        return `Unknown type "${value}", use work, break, short or long`;
+      }
+
+      return (session) => types.includes(session.type);
+    }
+    case "completed": {
+      const completed = BOOLEAN_VALUES[value.toLowerCase()];
+      if (completed === undefined) {
+        return "Use completed:true or completed:false";
+      }
+
+      return (session) => session.completed === completed;
+    }
+    case "min":
+    case "max": {
+      const minutes = parseDurationToken(value) ?? Number(value);
+      if (!Number.isFinite(minutes) || minutes <= 0) {
+        return `"${value}" is not a duration, use 20m or 1h30m`;
+      }
+
+      const seconds = minutes * 60;
+      return key === "min"
+        ? (session) => getFocusedDuration(session) >= seconds
+        : (session) => getFocusedDuration(session) <= seconds;
+    }
+    case "mood": {
+      const mood = value.toLowerCase() as MoodType;
+      if (!MOOD_VALUES.includes(mood)) {
+        return `Unknown mood "${value}", use one of ${MOOD_VALUES.join(", ")}`;
+      }
+
+      return (_session, moods) => moods.some((entry) => entry.mood === mood);
+    }
+    case "app":
+      return (session) =>
+        (session.applicationUsage || []).some(
+          (app) => includesText(app.name, value) || app.bundleId === value,
+        );
+    case "notes":
+      return (session) => includesText(session.notes, value);
+    default:
+      return `Unknown filter "${key}:", try ${Object.keys(HISTORY_QUERY_KEYS)
+        .map((name) => `${name}:`)
+        .join(" ")}`;
+  }
+};
+
+/**
+ * Check whether a free text word appears in, or closely resembles a word
+ * of, the session's task name or notes
+ */
+const matchesFreeText = (session: TimerSession, word: string): boolean => {
+  const fields = [session.taskName, session.notes].filter(
+    (field): field is string => !!field,
+  );
+  if (fields.some((field) => includesText(field, word))) return true;
+
+  // Only fuzzy-match words long enough for typos to be meaningful
+  if (normalizeName(word).length < 4) return false;
+
+  return fields.some((field) =>
+    normalizeName(field)
+      .split(" ")
+      .some(
+        (fieldWord) =>
+          getNameSimilarity(fieldWord, word) >= FUZZY_WORD_THRESHOLD,
+      ),
+  );
+};
+
+/**
+ * Parse a Timer History search such as
+ * `tag:work after:2025-01-01 completed:false min:20m app:"Visual Studio Code" refactor`
+ * into a session predicate. Filters are combined with AND; remaining words
+ * fuzzy-match the task name and notes. Invalid filters are reported in
+ * errors and left out of the predicate, and filters with no value yet are
+ * ignored while they are being typed.
+ */
+export const parseHistoryQuery = (text: string): HistoryQuery => {
+  const filters: SessionPredicate[] = [];
+  const freeText: string[] = [];
+  const errors: HistoryQueryError[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const [token, quotedKey, quotedValue, key, value, quotedText, word] = match;
+    const filterKey = (quotedKey || key)?.toLowerCase();
+    const filterValue = (quotedValue ?? value)?.trim();
+
+    if (filterKey) {
+      if (!filterValue) continue;
+
+      const filter = createFilter(filterKey, filterValue);
+      if (typeof filter === "string") {
+        errors.push({ token, message: filter });
+      } else {
+        filters.push(filter);
+      }
+    } else {
+      const textValue = (quotedText ?? word)?.trim();
+      if (textValue) freeText.push(textValue);
+    }
+  }
+
+  return {
+    predicate: (session, moods) =>
+      filters.every((filter) => filter(session, moods)) &&
+      freeText.every((word) => matchesFreeText(session, word)),
+    filterCount: filters.length,
+    freeText,
+    errors,
+  };
+};
+
+/**
+ * Apply a parsed query to history, passing each session its linked moods
+ */
+export const filterHistoryByQuery = (
+  history: TimerSession[],
+  moodEntries: MoodEntry[],
+  query: HistoryQuery,
+): TimerSession[] => {
+  if (query.filterCount === 0 && query.freeText.length === 0) return history;
+
+  const moodsBySession = groupMoodsBySession(moodEntries);
+
+  return history.filter((session) =>
+    query.predicate(session, moodsBySession.get(session.id) || []),
+  );
+};
@@ -0,0 +1,188 @@
+import { environment } from "@raycast/api";
+import {
+  HistoryViewSettings,
+  MoodEntry,
+  SavedHistoryView,
+  SessionType,
+  TimerSession,
+} from "../../../types/timer";
+import { formatDuration, getFocusedDuration } from "../../../utils/helpers";
+import { filterHistoryByQuery, parseHistoryQuery } from "./history-query";
+import { HISTORY_GROUP_OPTIONS } from "./history-grouping";
+
+/**
+ * Timer History view utilities
+ */
+
+export const DEFAULT_HISTORY_VIEW_SETTINGS: HistoryViewSettings = {
+  query: "",
+  typeFilter: "all",
+  completionFilter: "all",
+  sortBy: "newest",
+  groupBy: "day",
+};
+
+/**
+ * Aggregate totals shown for a history view
+ */
+export interface HistoryViewTotals {
+  sessions: number;
+  focusSeconds: number; // Focused time across work sessions
+  completionRate: number; // 0-100
+}
+
+/**
+ * Pick the view settings out of a saved view
+ */
+export const getViewSettings = (
+  view: SavedHistoryView,
+): HistoryViewSettings => ({
+  query: view.query,
+  typeFilter: view.typeFilter,
+  completionFilter: view.completionFilter,
+  sortBy: view.sortBy,
+  groupBy: view.groupBy,
+});
+
+/**
+ * Check whether the current settings are exactly those of a saved view
+ */
+export const isViewActive = (
+  view: SavedHistoryView,
+  settings: HistoryViewSettings,
+): boolean =>
+  (Object.keys(settings) as (keyof HistoryViewSettings)[]).every(
+    (key) => view[key] === settings[key],
+  );
+
+/**
+ * Find a saved view by name, ignoring case, for launching a view by name
+ */
+export const findViewByName = (
+  views: SavedHistoryView[],
+  name: string,
+): SavedHistoryView | undefined => {
+  const normalized = name.trim().toLowerCase();
+  return views.find((view) => view.name.toLowerCase() === normalized);
+};
+
+/**
+ * Filter and sort history by a view's query, filters and sort order
+ */
+export const applyHistoryViewSettings = (
+  history: TimerSession[],
+  moodEntries: MoodEntry[],
+  settings: HistoryViewSettings,
+): TimerSession[] => {
+  let filtered = filterHistoryByQuery(
+    history,
+    moodEntries,
+    parseHistoryQuery(settings.query),
+  );
+
+  // Apply type filter
+  if (settings.typeFilter !== "all") {
+    filtered = filtered.filter(
+      (session) => session.type === settings.typeFilter,
+    );
+  }
+
+  // Apply completion filter
+  if (settings.completionFilter !== "all") {
+    filtered = filtered.filter((session) =>
+      settings.completionFilter === "completed"
+        ? session.completed
+        : !session.completed,
+    );
+  }
+
+  return [...filtered].sort((a, b) => {
+    switch (settings.sortBy) {
+      case "newest":
+        return b.startTime.getTime() - a.startTime.getTime();
+      case "oldest":
+        return a.startTime.getTime() - b.startTime.getTime();
+      case "longest":
+        return getFocusedDuration(b) - getFocusedDuration(a);
+      case "shortest":
+        return getFocusedDuration(a) - getFocusedDuration(b);
+      default:
+        return 0;
+    }
+  });
+};
+
+/**
+ * Count sessions, focused work time and completion rate
+ */
+export const getHistoryViewTotals = (
+  sessions: TimerSession[],
+): HistoryViewTotals => {
+  const completed = sessions.filter((session) => session.completed).length;
+
+  return {
+    sessions: sessions.length,
+    focusSeconds: sessions
+      .filter((session) => session.type === SessionType.WORK)
+      .reduce((total, session) => total + getFocusedDuration(session), 0),
+    completionRate:
+      sessions.length > 0 ? Math.round((completed / sessions.length) * 100) : 0,
+  };
+};
+
+/**
+ * Format totals as "12 sessions • 5h 20m • 83% completed"
+ */
+export const formatHistoryViewTotals = (totals: HistoryViewTotals): string =>
+  `${totals.sessions} ${totals.sessions === 1 ? "session" : "sessions"} • ${formatDuration(totals.focusSeconds)} • ${totals.completionRate}% completed`;
+
+/**
+ * Deeplink that opens Timer History with a saved view, used for quicklinks
+ */
+export const getHistoryViewDeeplink = (view: SavedHistoryView): string =>
+  `raycast://extensions/${environment.ownerOrAuthorName}/${environment.extensionName}/timer-history?arguments=${encodeURIComponent(
+    JSON.stringify({ view: view.name }),
+  )}`;
+
+const TYPE_FILTER_LABELS: Record<HistoryViewSettings["typeFilter"], string> = {
+  all: "All rounds",
+  work: "Focus rounds",
+  short_break: "Short breaks",
+  long_break: "Long breaks",
+};
+
+const COMPLETION_FILTER_LABELS: Record<
+  HistoryViewSettings["completionFilter"],
+  string
+> = {
+  all: "Any status",
+  completed: "Completed only",
+  incomplete: "Incomplete only",
+};
+
+export const SORT_OPTION_LABELS: Record<HistoryViewSettings["sortBy"], string> =
+  {
+    newest: "Newest First",
+    oldest: "Oldest First",
+    longest: "Longest Rounds",
+    shortest: "Shortest Rounds",
+  };
+
+const getGroupLabel = (groupBy: HistoryViewSettings["groupBy"]) => {
+  const option = HISTORY_GROUP_OPTIONS.find((item) => item.value === groupBy);
+  return option && groupBy !== "none" ? `By ${option.title.toLowerCase()}` : "";
+};
+
+/**
+ * Summarize view settings, e.g. "tag:work • Focus rounds • Newest First • By week"
+ */
+export const describeViewSettings = (settings: HistoryViewSettings): string =>
+  [
+    settings.query.trim(),
+    TYPE_FILTER_LABELS[settings.typeFilter],
+    COMPLETION_FILTER_LABELS[settings.completionFilter],
+    SORT_OPTION_LABELS[settings.sortBy],
+    getGroupLabel(settings.groupBy),
+  ]
+    .filter(Boolean)
+    .join(" • ");
@@ -0,0 +1,7 @@
+/**
+ * History command utilities barrel export
+ */
+
+export * from "./history-query";
+export * from "./history-views";
+export * from "./history-grouping";
@@ -0,0 +1,117 @@
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { useTimerStore } from "../../../store/timer-store";
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ParsedCSV,
+  importService,
+} from "../../../services/import";
+import {
+  DATE_FORMAT_OPTIONS,
+  IMPORT_FIELDS,
+  NOT_MAPPED,
+  getMappingFromValues,
+  validateColumnMapping,
+} from "../utils";
+import { ImportPreviewList } from "./import-preview-list";
+
+interface ColumnMappingFormProps {
+  parsed: ParsedCSV;
+  source: string; // Tool name recorded on imported sessions
+  mapping: ImportColumnMapping;
+  dateFormat: ImportDateFormat;
+}
+
+export function ColumnMappingForm({
+  parsed,
+  source,
+  mapping,
+  dateFormat,
+}: ColumnMappingFormProps) {
+  const { push } = useNavigation();
+  const [mappingError, setMappingError] = useState<string | undefined>();
+
+  const handleSubmit = (
+    values: Record<string, string> & { dateFormat: ImportDateFormat },
+  ) => {
+    const columnMapping = getMappingFromValues(values);
+    const error = validateColumnMapping(columnMapping);
+    setMappingError(error);
+    if (error) return;
+
+    push(
+      <ImportPreviewList
+        plan={importService.planImport(
+          parsed,
+          columnMapping,
+          values.dateFormat,
+          source,
+          useTimerStore.getState().history,
+          useTimerStore.getState().historyArchive,
+        )}
+      />,
+    );
+  };
+
+  const sampleRow = parsed.rows[0] || [];
+
+  return (
+    <Form
+      navigationTitle={`Map Columns • ${source}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Preview Import"
+            icon={Icon.Eye}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="File"
+        text={`${parsed.rows.length} ${parsed.rows.length === 1 ? "row" : "rows"} • ${parsed.headers.length} columns`}
+      />
+      {mappingError && <Form.Description title="⚠️" text={mappingError} />}
+
+      {IMPORT_FIELDS.map(({ field, title, info }) => (
+        <Form.Dropdown
+          key={field}
+          id={field}
+          title={title}
+          info={info}
+          defaultValue={mapping[field] || NOT_MAPPED}
+          onChange={() => setMappingError(undefined)}
+        >
+          <Form.Dropdown.Item value={NOT_MAPPED} title="Not Mapped" />
+          {parsed.headers.map((header, index) => (
+            <Form.Dropdown.Item
+              key={header}
+              value={header}
+              title={
+                sampleRow[index] ? `${header} (${sampleRow[index]})` : header
+              }
+            />
+          ))}
+        </Form.Dropdown>
+      ))}
+
+      <Form.Separator />
+
+      <Form.Dropdown
+        id="dateFormat"
+        title="Date Format"
+        defaultValue={dateFormat}
+      >
+        {DATE_FORMAT_OPTIONS.map((option) => (
+          <Form.Dropdown.Item
+            key={option.value}
+            value={option.value}
+            title={option.title}
+          />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
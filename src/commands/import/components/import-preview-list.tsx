@@ -0,0 +1,194 @@
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  List,
+  Toast,
+  popToRoot,
+  showToast,
+} from "@raycast/api";
+import { format } from "date-fns";
+import {
+  ImportPlan,
+  ImportRowResult,
+  ImportRowStatus,
+  importService,
+} from "../../../services/import";
+import {
+  formatDuration,
+  getSessionEndTime,
+  getSessionTypeIcon,
+  getSessionTypeLabel,
+} from "../../../utils/helpers";
+import { STATUS_COLORS } from "../../../constants/design-tokens";
+
+interface ImportPreviewListProps {
+  plan: ImportPlan;
+}
+
+const STATUS_SECTIONS: {
+  status: ImportRowStatus;
+  title: string;
+  description: string;
+}[] = [
+  { status: "new", title: "New", description: "Will be imported" },
+  {
+    status: "overlap",
+    title: "Overlapping",
+    description:
+      "Clash with recorded sessions or earlier rows, imported only if you choose",
+  },
+  {
+    status: "archived",
+    title: "Possible Duplicates",
+    description:
+      "On days already folded into daily totals, imported only if you choose",
+  },
+  {
+    status: "duplicate",
+    title: "Duplicates",
+    description: "Already recorded, skipped",
+  },
+  { status: "invalid", title: "Invalid", description: "Couldn't be read" },
+];
+
+const formatRange = (start: Date, end: Date) =>
+  `${format(start, "MMM d, yyyy HH:mm")}–${format(end, "HH:mm")}`;
+
+const getRowAccessories = (
+  row: ImportRowResult,
+): List.Item.Accessory[] | undefined => {
+  if (!row.input) return undefined;
+
+  const { startTime, endTime, projectName, tags } = row.input;
+  const accessories: List.Item.Accessory[] = [
+    ...(projectName ? [{ tag: `@${projectName}` }] : []),
+    ...(tags || []).map((tag) => ({ tag: `#${tag}` })),
+    {
+      text: formatDuration(
+        Math.floor((endTime.getTime() - startTime.getTime()) / 1000),
+      ),
+    },
+  ];
+
+  const conflictLabel = row.conflict
+    ? `${row.conflict.taskName || getSessionTypeLabel(row.conflict.type)} (${formatRange(
+        row.conflict.startTime,
+        getSessionEndTime(row.conflict),
+      )})`
+    : row.conflictRow && `row ${row.conflictRow}`;
+  if (conflictLabel) {
+    accessories.unshift({
+      icon: {
+        source: Icon.ExclamationMark,
+        tintColor: STATUS_COLORS.WARNING,
+      },
+      tooltip: `${row.status === "duplicate" ? "Same as" : "Overlaps"} ${conflictLabel}`,
+    });
+  } else if (row.status === "archived") {
+    accessories.unshift({
+      icon: {
+        source: Icon.ExclamationMark,
+        tintColor: STATUS_COLORS.WARNING,
+      },
+      tooltip: row.message,
+    });
+  }
+
+  return accessories;
+};
+
+export function ImportPreviewList({ plan }: ImportPreviewListProps) {
+  const { counts } = plan;
+
+  const conflicts = counts.overlap + counts.archived;
+
+  const handleImport = async (includeConflicts: boolean) => {
+    const imported = importService.commitImport(plan, includeConflicts);
+
+    await showToast({
+      style: imported > 0 ? Toast.Style.Success : Toast.Style.Failure,
+      title:
+        imported > 0
+          ? `Imported ${imported} ${imported === 1 ? "Session" : "Sessions"}`
+          : "Nothing Imported",
+      message: `From ${plan.source}`,
+    });
+
+    if (imported > 0) {
+      await popToRoot();
+    }
+  };
+
+  const importActions = (
+    <ActionPanel.Section title="Import">
+      {counts.new > 0 && (
+        <Action
+          title={`Import ${counts.new} New ${counts.new === 1 ? "Session" : "Sessions"}`}
+          icon={Icon.Download}
+          onAction={() => handleImport(false)}
+        />
+      )}
+      {conflicts > 0 && (
+        <Action
+          title={`Import ${counts.new + conflicts} Including ${counts.archived > 0 ? "Possible Duplicates" : "Overlaps"}`}
+          icon={Icon.Download}
+          onAction={() => handleImport(true)}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "return" }}
+        />
+      )}
+    </ActionPanel.Section>
+  );
+
+  return (
+    <List
+      navigationTitle={`Import Preview • ${plan.source}`}
+      searchBarPlaceholder="Filter rows..."
+    >
+      <List.EmptyView
+        icon={Icon.Document}
+        title="No Rows Found"
+        description="The file has a header row but no sessions"
+      />
+      {STATUS_SECTIONS.map(({ status, title, description }) => {
+        const rows = plan.rows.filter((row) => row.status === status);
+        if (rows.length === 0) return null;
+
+        return (
+          <List.Section
+            key={status}
+            title={`${title} (${rows.length})`}
+            subtitle={description}
+          >
+            {rows.map((row) => (
+              <List.Item
+                key={row.row}
+                icon={
+                  row.input
+                    ? getSessionTypeIcon(row.input.type)
+                    : {
+                        source: Icon.XMarkCircle,
+                        tintColor: STATUS_COLORS.ERROR,
+                      }
+                }
+                title={
+                  row.input
+                    ? row.input.taskName || getSessionTypeLabel(row.input.type)
+                    : `Row ${row.row}`
+                }
+                subtitle={
+                  row.input
+                    ? formatRange(row.input.startTime, row.input.endTime)
+                    : row.message
+                }
+                keywords={[`${row.row}`]}
+                accessories={getRowAccessories(row)}
+                actions={<ActionPanel>{importActions}</ActionPanel>}
+              />
+            ))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
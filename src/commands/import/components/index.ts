@@ -0,0 +1,6 @@
+/**
+ * Import command components barrel export
+ */
+
+export { ColumnMappingForm } from "./column-mapping-form";
+export { ImportPreviewList } from "./import-preview-list";
@@ -0,0 +1,83 @@
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportField,
+} from "../../../services/import";
+
+/**
+ * Import form field utilities
+ */
+
+// Dropdown value for a field that isn't read from any column
+export const NOT_MAPPED = "";
+
+export const IMPORT_FIELDS: {
+  field: ImportField;
+  title: string;
+  info?: string;
+}[] = [
+  {
+    field: "start",
+    title: "Start",
+    info: "Column with the start date and time together",
+  },
+  {
+    field: "startDate",
+    title: "Start Date",
+    info: "Used when there's no combined start column",
+  },
+  { field: "startTime", title: "Start Time" },
+  {
+    field: "end",
+    title: "End",
+    info: "Column with the end date and time together",
+  },
+  { field: "endDate", title: "End Date" },
+  { field: "endTime", title: "End Time" },
+  {
+    field: "duration",
+    title: "Duration",
+    info: "Used when there's no end, e.g. 01:30:00, 1h 30m or minutes",
+  },
+  { field: "type", title: "Session Type" },
+  { field: "task", title: "Task" },
+  { field: "project", title: "Project" },
+  { field: "tags", title: "Tags" },
+  { field: "notes", title: "Notes" },
+];
+
+export const DATE_FORMAT_OPTIONS: { value: ImportDateFormat; title: string }[] =
+  [
+    { value: "auto", title: "Detect Automatically" },
+    { value: "yyyy-MM-dd", title: "2025-01-31" },
+    { value: "MM/dd/yyyy", title: "01/31/2025 (Month First)" },
+    { value: "dd/MM/yyyy", title: "31/01/2025 (Day First)" },
+    { value: "dd.MM.yyyy", title: "31.01.2025" },
+  ];
+
+/**
+ * Check a mapping can produce a time range, returning an error message
+ */
+export const validateColumnMapping = (
+  mapping: ImportColumnMapping,
+): string | undefined => {
+  if (!mapping.start && !mapping.startDate) {
+    return "Map a Start or Start Date column";
+  }
+  if (!mapping.end && !mapping.endTime && !mapping.duration) {
+    return "Map an End, End Time or Duration column";
+  }
+  return undefined;
+};
+
+/**
+ * Drop fields left as "Not Mapped"
+ */
+export const getMappingFromValues = (
+  values: Record<string, string>,
+): ImportColumnMapping =>
+  Object.fromEntries(
+    IMPORT_FIELDS.map(({ field }) => [field, values[field]]).filter(
+      ([, header]) => header && header !== NOT_MAPPED,
+    ),
+  );
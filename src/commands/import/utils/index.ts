@@ -0,0 +1,5 @@
+/**
+ * Import command utilities barrel export
+ */
+
+export * from "./import-fields";
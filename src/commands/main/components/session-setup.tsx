@@ -1,42 +1,78 @@
 import { Action, ActionPanel, Icon, List, Color } from "@raycast/api";
-import { TimerConfig, MoodType } from "../../../types/timer";
+import {
+  TimerConfig,
+  MoodType,
+  SessionType,
+  TimerMethodId,
+} from "../../../types/timer";
 import {
   ACTION_ICONS,
   SHORTCUTS,
   getMoodIcon,
   getMoodColor,
 } from "../../../constants/design-tokens";
-import { getTagColor, getTagIcon } from "../utils/search-parsing";
+import {
+  ParsedSessionInput,
+  getTagColor,
+  getTagIcon,
+} from "../utils/search-parsing";
 import { MOOD_OPTIONS } from "../utils/timer-display-helpers";
 import { createTaskIconSelectionActions } from "../../../components/inline-icon-selection";
+import {
+  getAvailableTimerMethods,
+  getTimerMethod,
+} from "../../../utils/timer-methods";
 
 interface SessionSetupProps {
-  currentTaskName: string;
-  currentTags: string[];
+  parsedInput: ParsedSessionInput; // Live parse of the search bar text
   selectedTaskIcon?: Icon;
   setSelectedTaskIcon: (icon: Icon | undefined) => void;
   targetRounds: string;
   preSessionMood: MoodType | null;
+  timerMethod: TimerMethodId;
   config: TimerConfig;
   getTagConfig: (tag: string) => { icon?: Icon; color: any } | undefined;
   updateTagConfig: (tag: string, config: { icon?: Icon; color?: any }) => void;
   onStartWork: () => void;
   onSetPreSessionMood: (mood: MoodType | null) => void;
+  onSetTimerMethod: (method: TimerMethodId) => void;
 }
 
 export function SessionSetup({
-  currentTaskName,
-  currentTags,
+  parsedInput,
   selectedTaskIcon,
   setSelectedTaskIcon,
   targetRounds,
   preSessionMood,
+  timerMethod,
   config,
   getTagConfig,
   updateTagConfig,
   onStartWork,
   onSetPreSessionMood,
+  onSetTimerMethod,
 }: SessionSetupProps) {
+  const {
+    taskName: currentTaskName,
+    tags: currentTags,
+    projectName,
+    durationMinutes,
+    rounds,
+    energyLevel,
+    taskIcon,
+  } = parsedInput;
+  const method = getTimerMethod(timerMethod, config);
+  const workMinutes =
+    durationMinutes ??
+    Math.round(
+      method.getSessionDuration(SessionType.WORK, {
+        config,
+        completedWorkSessions: 0,
+      }) / 60
+    );
+  const roundCount = rounds ? String(rounds) : targetRounds;
+  const sessionIcon = taskIcon || selectedTaskIcon;
+
   const createTagColorActions = (tag: string) => {
     const colors = [
       { name: "Blue", value: Color.Blue },
@@ -62,15 +98,37 @@ export function SessionSetup({
 
   return (
     <List.Item
-      icon={selectedTaskIcon || Icon.Play}
+      icon={sessionIcon || Icon.Play}
       title={currentTaskName || "Focus Session"}
-      subtitle={`${config.workDuration} min`}
+      subtitle={
+        !durationMinutes && method.isCountUp?.(SessionType.WORK)
+          ? "Open-ended"
+          : `${workMinutes} min`
+      }
       accessories={[
+        ...(projectName
+          ? [
+              {
+                text: `@${projectName}`,
+                icon: Icon.Folder,
+                tooltip: "Project",
+              },
+            ]
+          : []),
         ...(currentTags.length > 0
           ? currentTags.map((tag) => ({
               tag: { value: tag, color: getTagColor(tag, getTagConfig) },
             }))
           : []),
+        ...(energyLevel
+          ? [
+              {
+                text: `${energyLevel}/5`,
+                icon: Icon.Bolt,
+                tooltip: "Energy level",
+              },
+            ]
+          : []),
         ...(preSessionMood
           ? [
               {
@@ -83,8 +141,16 @@ export function SessionSetup({
             ]
           : []),
         {
-          text: `${targetRounds} round${targetRounds !== "1" ? "s" : ""}`,
+          text: method.name,
+          icon: Icon.Clock,
+          tooltip: durationMinutes
+            ? `${method.description} (focus length set to ${durationMinutes} min)`
+            : method.description,
+        },
+        {
+          text: `${roundCount} round${roundCount !== "1" ? "s" : ""}`,
           icon: Icon.BullsEye,
+          tooltip: rounds ? "Rounds set in search text" : undefined,
         },
       ]}
       actions={
@@ -92,7 +158,7 @@ export function SessionSetup({
           <ActionPanel.Section>
             <Action
               title="Start Focus Round"
-              icon={selectedTaskIcon || ACTION_ICONS.PLAY}
+              icon={sessionIcon || ACTION_ICONS.PLAY}
               onAction={onStartWork}
               shortcut={SHORTCUTS.PRIMARY_ACTION}
             />
@@ -120,6 +186,19 @@ export function SessionSetup({
               </>
             )}
 
+            <ActionPanel.Submenu title="Set Timer Method" icon={Icon.Clock}>
+              {getAvailableTimerMethods(config).map((option) => (
+                <Action
+                  key={option.id}
+                  title={option.name}
+                  icon={
+                    option.id === timerMethod ? Icon.CheckCircle : Icon.Circle
+                  }
+                  onAction={() => onSetTimerMethod(option.id)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+
             <ActionPanel.Submenu title="Set Pre-session Mood" icon={Icon.Heart}>
               {MOOD_OPTIONS.map((mood) => (
                 <Action
@@ -14,6 +14,7 @@ import {
 } from "../utils/search-parsing";
 import { shouldShowTagSuggestions } from "../utils/timer-display-helpers";
 import { createTagIconSelectionActions } from "../../../components/inline-icon-selection";
+import { TrashList, showUndoToast } from "../../../components/trash-list";
 
 interface TagManagementProps {
   searchText: string;
@@ -21,8 +22,8 @@ interface TagManagementProps {
   customTags: string[];
   getTagConfig: (tag: string) => { icon?: Icon; color: any } | undefined;
   updateTagConfig: (tag: string, config: { icon?: Icon; color?: any }) => void;
-  deleteCustomTag: (tag: string) => void;
-  clearAllTags: () => void;
+  deleteCustomTag: (tag: string) => string | null;
+  clearAllTags: () => string | null;
   setSearchText: (text: string | ((prev: string) => string)) => void;
 }
 
@@ -119,14 +120,17 @@ export function TagManagement({
                       onAction={async () => {
                         const confirmed = await confirmAlert({
                           title: `Delete #${tag} Tag`,
-                          message: `Are you sure you want to delete the #${tag} tag? This action cannot be undone.`,
+                          message: `Are you sure you want to delete the #${tag} tag? It will be moved to the Trash.`,
                           primaryAction: {
                             title: "Delete Tag",
                             style: Alert.ActionStyle.Destructive,
                           },
                         });
                         if (confirmed) {
-                          deleteCustomTag(tag);
+                          showUndoToast(
+                            `#${tag} Deleted`,
+                            deleteCustomTag(tag)
+                          );
                         }
                       }}
                     />
@@ -141,18 +145,27 @@ export function TagManagement({
                           const confirmed = await confirmAlert({
                             title: "Clear All Custom Tags",
                             message:
-                              "Are you sure you want to delete all custom tags? This action cannot be undone.",
+                              "Are you sure you want to delete all custom tags? They will be moved to the Trash.",
                             primaryAction: {
                               title: "Delete All Tags",
                               style: Alert.ActionStyle.Destructive,
                             },
                           });
                           if (confirmed) {
-                            clearAllTags();
+                            showUndoToast(
+                              "Custom Tags Cleared",
+                              clearAllTags()
+                            );
                           }
                         }}
                       />
                     )}
+
+                    <Action.Push
+                      title="Show Trash"
+                      icon={Icon.Trash}
+                      target={<TrashList />}
+                    />
                   </ActionPanel.Section>
                 </ActionPanel>
               }
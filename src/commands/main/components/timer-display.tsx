@@ -12,7 +12,10 @@ import {
   getMoodIcon,
   getMoodColor,
 } from "../../../constants/design-tokens";
-import { getMostRecentMoodEntry } from "../utils/timer-display-helpers";
+import {
+  getMostRecentMoodEntry,
+  PAUSE_REASONS,
+} from "../utils/timer-display-helpers";
 import { getTagColor } from "../utils/search-parsing";
 
 interface TimerDisplayProps {
@@ -25,8 +28,9 @@ interface TimerDisplayProps {
   searchText: string;
   moodEntries: MoodEntry[];
   getTagConfig: (tag: string) => { icon?: Icon; color: any } | undefined;
-  onPause: () => void;
+  onPause: (reason?: string) => void;
   onResume: () => void;
+  onAdjustTime: (minutes: number) => void;
   onComplete: () => void;
   onStop: () => void;
   onStartNewSession: () => Promise<void>;
@@ -44,27 +48,30 @@ export function TimerDisplay({
   getTagConfig,
   onPause,
   onResume,
+  onAdjustTime,
   onComplete,
   onStop,
   onStartNewSession,
 }: TimerDisplayProps) {
   const getTimerDisplay = () => {
-    const progress = getProgressPercentage(
-      timeRemaining,
-      currentSession.duration
-    );
+    // Count-up sessions have no planned length, so there is no progress to show
+    const progress = currentSession.countUp
+      ? null
+      : getProgressPercentage(timeRemaining, currentSession.duration);
     const sessionLabel = getSessionTypeLabel(currentSession.type);
     const timeDisplay = formatTime(timeRemaining);
 
     // Calculate next break time (actual clock time)
     const nextBreakTime =
-      currentSession.type === SessionType.WORK
+      currentSession.type === SessionType.WORK && !currentSession.countUp
         ? new Date(Date.now() + timeRemaining * 1000)
         : null;
 
     return {
       title: sessionLabel,
-      subtitle: `${timeDisplay} remaining`,
+      subtitle: currentSession.countUp
+        ? `${timeDisplay} elapsed`
+        : `${timeDisplay} remaining`,
       progress,
       timeDisplay,
       nextBreakTime,
@@ -95,10 +102,12 @@ export function TimerDisplay({
                 tag: { value: tag, color: getTagColor(tag, getTagConfig) },
               }))
             : []),
-          {
-            text: `${Math.round(timerDisplay.progress)}%`,
-            icon: Icon.BarChart,
-          },
+          timerDisplay.progress === null
+            ? { text: "Open-ended", icon: Icon.Stopwatch }
+            : {
+                text: `${Math.round(timerDisplay.progress)}%`,
+                icon: Icon.BarChart,
+              },
         ]}
         actions={
           <ActionPanel>
@@ -108,9 +117,21 @@ export function TimerDisplay({
                   <Action
                     title="Pause Timer"
                     icon={ACTION_ICONS.PAUSE}
-                    onAction={onPause}
+                    onAction={() => onPause()}
                     shortcut={SHORTCUTS.PAUSE_RESUME}
                   />
+                  <ActionPanel.Submenu
+                    title="Pause with Reason"
+                    icon={ACTION_ICONS.PAUSE}
+                  >
+                    {PAUSE_REASONS.map((reason) => (
+                      <Action
+                        key={reason}
+                        title={reason}
+                        onAction={() => onPause(reason)}
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
                   <Action
                     title="Complete Round"
                     icon={ACTION_ICONS.COMPLETE}
@@ -130,6 +151,30 @@ export function TimerDisplay({
               )}
             </ActionPanel.Section>
 
+            {/* Time adjustments move the countdown end, so they don't apply to count-up sessions */}
+            {!currentSession.countUp && (
+              <ActionPanel.Section title="Adjust Time">
+                <Action
+                  title="+5 Min"
+                  icon={Icon.Plus}
+                  onAction={() => onAdjustTime(5)}
+                  shortcut={SHORTCUTS.EXTEND_5}
+                />
+                <Action
+                  title="+10 Min"
+                  icon={Icon.Plus}
+                  onAction={() => onAdjustTime(10)}
+                  shortcut={SHORTCUTS.EXTEND_10}
+                />
+                <Action
+                  title="-5 Min"
+                  icon={Icon.Minus}
+                  onAction={() => onAdjustTime(-5)}
+                  shortcut={SHORTCUTS.SHORTEN_5}
+                />
+              </ActionPanel.Section>
+            )}
+
             {/* Start New Session - Only show when user has typed something */}
             {searchText.trim().length > 0 && (
               <ActionPanel.Section title="Quick Actions">
@@ -155,7 +200,7 @@ export function TimerDisplay({
               tintColor: getMoodColor(recentMood.mood),
             }}
             title="Recent Mood"
-            subtitle={`${recentMood.mood.charAt(0).toUpperCase() + recentMood.mood.slice(1)} • ${formatDistanceToNow(new Date(recentMood.timestamp), { addSuffix: true })}`}
+            subtitle={`${recentMood.mood.charAt(0).toUpperCase() + recentMood.mood.slice(1)} • ${formatDistanceToNow(recentMood.timestamp, { addSuffix: true })}`}
             accessories={[
               {
                 text: `${recentMood.intensity}/5`,
@@ -205,12 +250,16 @@ export function TimerDisplay({
           icon={Icon.BullsEye}
           title="Progress"
           subtitle={`Round ${currentFocusPeriodSessionCount + 1} of ${targetRounds}`}
-          accessories={[
-            {
-              text: `${Math.round(timerDisplay.progress)}%`,
-              icon: Icon.BarChart,
-            },
-          ]}
+          accessories={
+            timerDisplay.progress === null
+              ? [{ text: `${timerDisplay.timeDisplay} focused` }]
+              : [
+                  {
+                    text: `${Math.round(timerDisplay.progress)}%`,
+                    icon: Icon.BarChart,
+                  },
+                ]
+          }
         />
       </List.Section>
     </>
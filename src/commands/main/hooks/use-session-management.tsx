@@ -3,7 +3,12 @@ import { Icon } from "@raycast/api";
 import { useTimer } from "../../../hooks/useTimer";
 import { useTimerStore } from "../../../store/timer-store";
 import { backgroundTimerService } from "../../../services/background-timer-service";
-import { MoodType, TimerState, SessionType } from "../../../types/timer";
+import {
+  MoodType,
+  TimerState,
+  SessionType,
+  TimerMethodId,
+} from "../../../types/timer";
 import {
   parseSearchTextAndStore,
   validateTaskName,
@@ -20,6 +25,9 @@ export function useSessionManagement() {
   );
   const [targetRounds, setTargetRounds] = useState("1");
   const [preSessionMood, setPreSessionMood] = useState<MoodType | null>(null);
+  const [timerMethod, setTimerMethod] = useState<TimerMethodId>(
+    () => useTimerStore.getState().timerMethod
+  );
   const [isInitialized, setIsInitialized] = useState(false);
 
   const {
@@ -28,6 +36,7 @@ export function useSessionManagement() {
     startWorkSession,
     pause,
     resume,
+    adjustTime,
     stop,
     complete,
     isRunning,
@@ -128,25 +137,38 @@ export function useSessionManagement() {
       "[useSessionManagement] Refreshed config before starting session"
     );
 
-    // Start new focus period if not already started or if starting fresh
-    const targetRoundsNum = parseInt(targetRounds);
-    if (currentFocusPeriodSessionCount === 0 || !currentSession) {
-      startNewFocusPeriod(targetRoundsNum);
-    }
-
-    // Parse task name and tags from search text AND store new tags
-    const { taskName, tags } = parseSearchTextAndStore(
+    // Parse session details from search text AND store new tags
+    const {
+      taskName,
+      tags,
+      projectName,
+      durationMinutes,
+      rounds,
+      energyLevel,
+      taskIcon,
+    } = parseSearchTextAndStore(
       searchText,
       customTags,
       PREDEFINED_TAGS,
       addCustomTag
     );
 
+    // Start new focus period if not already started or if starting fresh
+    // Rounds and duration typed in the search bar win over the dropdown and method
+    const targetRoundsNum = rounds || parseInt(targetRounds);
+    if (currentFocusPeriodSessionCount === 0 || !currentSession) {
+      startNewFocusPeriod(
+        targetRoundsNum,
+        timerMethod,
+        durationMinutes ? durationMinutes * 60 : undefined
+      );
+    }
+
     // Validate and limit task name
     const limitedTaskName = validateTaskName(taskName);
 
     // Determine icon to use
-    let iconToUse = selectedTaskIcon;
+    let iconToUse = taskIcon || selectedTaskIcon;
     if (!iconToUse && tags.length > 0) {
       // Use the first tag's icon if available
       const firstTagConfig = getTagConfig(tags[0]);
@@ -156,7 +178,13 @@ export function useSessionManagement() {
     }
 
     // Start the work session
-    startWorkSession(limitedTaskName, undefined, tags, iconToUse);
+    startWorkSession(
+      limitedTaskName,
+      projectName,
+      tags,
+      iconToUse,
+      energyLevel
+    );
 
     // Log pre-session mood if selected
     if (preSessionMood) {
@@ -173,6 +201,7 @@ export function useSessionManagement() {
     // Note: We don't reset form state to maintain user's setup for next round
   }, [
     targetRounds,
+    timerMethod,
     currentFocusPeriodSessionCount,
     currentSession,
     startNewFocusPeriod,
@@ -208,6 +237,8 @@ export function useSessionManagement() {
     setTargetRounds,
     preSessionMood,
     setPreSessionMood,
+    timerMethod,
+    setTimerMethod,
     isInitialized,
 
     // Timer state
@@ -221,6 +252,7 @@ export function useSessionManagement() {
     // Timer actions
     pause,
     resume,
+    adjustTime,
     stop,
     complete,
     updateCurrentSessionIcon,
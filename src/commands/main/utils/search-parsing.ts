@@ -17,27 +17,120 @@ export const extractTags = (text: string): string[] => {
 };
 
 /**
- * Parse task name and tags from search text (without storing tags)
+ * Session details parsed from search text such as "1h Write spec #work @acme x2 !e4 icon:pencil"
  */
-export const parseSearchTextOnly = (text: string) => {
-  const taskParts = text.split("#");
-  const taskName = taskParts[0].trim();
-  const tags = extractTags(text);
-  return { taskName, tags };
+export interface ParsedSessionInput {
+  taskName: string;
+  tags: string[];
+  projectName?: string;
+  durationMinutes?: number;
+  rounds?: number;
+  energyLevel?: 1 | 2 | 3 | 4 | 5;
+  taskIcon?: Icon;
+}
+
+const MAX_SESSION_MINUTES = 180;
+const MAX_TARGET_ROUNDS = 10;
+
+/**
+ * Parse a duration token such as "50m", "50min", "1h" or "1h30m" into minutes
+ */
+export const parseDurationToken = (token: string): number | undefined => {
+  const match = token.match(/^(?:(\d+)h)?(?:(\d+)m(?:in)?)?$/i);
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  const minutes =
+    parseInt(match[1] || "0", 10) * 60 + parseInt(match[2] || "0", 10);
+  return minutes > 0 && minutes <= MAX_SESSION_MINUTES ? minutes : undefined;
+};
+
+/**
+ * Resolve an icon keyword such as "book" or "light-bulb" to a Raycast icon
+ */
+export const findIconByKeyword = (keyword: string): Icon | undefined => {
+  const normalized = keyword.replace(/[-_]/g, "").toLowerCase();
+  const key = Object.keys(Icon).find(
+    (name) => name.toLowerCase() === normalized
+  );
+  return key ? Icon[key as keyof typeof Icon] : undefined;
 };
 
 /**
- * Parse task name and tags from search text AND store new tags
+ * Parse task name, tags, project (@name), duration (50m, 1h), rounds (x4),
+ * energy (!e1-!e5) and icon (icon:name) from search text.
+ * Tokens that don't form a valid marker stay part of the task name.
+ */
+export const parseSessionInput = (text: string): ParsedSessionInput => {
+  const taskWords: string[] = [];
+  const parsed: ParsedSessionInput = { taskName: "", tags: [] };
+
+  text
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .forEach((word) => {
+      // Markers still being typed shouldn't leak into the task name
+      if (/^(#|@|!|!e|icon:)$/i.test(word)) return;
+
+      const tagMatch = word.match(/^#(\w+)$/);
+      const projectMatch = word.match(/^@([\w-]+)$/);
+      const roundsMatch = word.match(/^x(\d+)$/i);
+      const energyMatch = word.match(/^!e([1-5])$/i);
+      const iconMatch = word.match(/^icon:([\w-]+)$/i);
+      const durationMinutes = parseDurationToken(word);
+      const rounds = roundsMatch ? parseInt(roundsMatch[1], 10) : 0;
+      const taskIcon = iconMatch ? findIconByKeyword(iconMatch[1]) : undefined;
+
+      if (tagMatch) {
+        parsed.tags.push(tagMatch[1]);
+      } else if (projectMatch) {
+        parsed.projectName = projectMatch[1];
+      } else if (durationMinutes) {
+        parsed.durationMinutes = durationMinutes;
+      } else if (rounds > 0 && rounds <= MAX_TARGET_ROUNDS) {
+        parsed.rounds = rounds;
+      } else if (energyMatch) {
+        parsed.energyLevel = parseInt(energyMatch[1], 10) as 1 | 2 | 3 | 4 | 5;
+      } else if (taskIcon) {
+        parsed.taskIcon = taskIcon;
+      } else {
+        taskWords.push(word);
+      }
+    });
+
+  return { ...parsed, taskName: taskWords.join(" ") };
+};
+
+/**
+ * Parse session details from search text (without storing tags)
+ */
+export const parseSearchTextOnly = (text: string): ParsedSessionInput =>
+  parseSessionInput(text);
+
+/**
+ * Parse session details from search text AND store new tags
  */
 export const parseSearchTextAndStore = (
   text: string,
   customTags: string[],
   predefinedTags: string[],
   addCustomTag: (tag: string) => void
-) => {
-  const { taskName, tags } = parseSearchTextOnly(text);
+): ParsedSessionInput => {
+  const parsed = parseSearchTextOnly(text);
+
+  storeNewTags(parsed.tags, customTags, predefinedTags, addCustomTag);
+
+  return parsed;
+};
 
-  // Automatically add new tags to custom tags store
+/**
+ * Add tags that aren't known yet to the custom tags store
+ */
+export const storeNewTags = (
+  tags: string[],
+  customTags: string[],
+  predefinedTags: string[],
+  addCustomTag: (tag: string) => void
+) => {
   tags.forEach((tag) => {
     const normalizedTag = tag.toLowerCase().trim();
     if (
@@ -47,8 +140,6 @@ export const parseSearchTextAndStore = (
       addCustomTag(normalizedTag);
     }
   });
-
-  return { taskName, tags };
 };
 
 /**
@@ -17,6 +17,17 @@ export const MOOD_OPTIONS: { value: MoodType; title: string }[] = [
   { value: "stressed", title: "Stressed" },
 ];
 
+/**
+ * Common reasons offered when pausing a session
+ */
+export const PAUSE_REASONS: string[] = [
+  "Interruption",
+  "Meeting",
+  "Phone Call",
+  "Bathroom",
+  "Snack",
+];
+
 /**
  * Get the most recent mood entry
  */
@@ -25,7 +36,7 @@ export const getMostRecentMoodEntry = (moodEntries: MoodEntry[]): MoodEntry | nu
 
   const sortedEntries = [...moodEntries].sort(
     (a, b) =>
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      b.timestamp.getTime() - a.timestamp.getTime()
   );
 
   return sortedEntries[0];
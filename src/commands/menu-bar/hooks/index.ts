@@ -0,0 +1,5 @@
+/**
+ * Menu bar command hooks barrel export
+ */
+
+export { useMenuBarTimer } from "./use-menu-bar-timer";
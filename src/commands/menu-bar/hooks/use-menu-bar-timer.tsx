@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from "react";
+import { useTimerStore, timerStoreUtils } from "../../../store/timer-store";
+import { backgroundTimerService } from "../../../services/background-timer-service";
+import { notificationService } from "../../../services/notification-service";
+import { SessionType, TimerState } from "../../../types/timer";
+
+/**
+ * Custom hook that syncs the menu bar with the persisted background timer
+ */
+export function useMenuBarTimer() {
+  const [isLoading, setIsLoading] = useState(true);
+
+  const { currentSession, state, timeRemaining } = useTimerStore();
+
+  // Load the persisted timer and settle sessions that finished in the background
+  const syncTimerState = useCallback(async () => {
+    try {
+      await timerStoreUtils.waitForHydration();
+
+      const snapshot = await backgroundTimerService.getBackgroundState();
+      const finishedSessionType =
+        snapshot &&
+        snapshot.backgroundState.state === TimerState.RUNNING &&
+        !snapshot.backgroundState.session.countUp &&
+        snapshot.timeRemaining <= 0
+          ? snapshot.backgroundState.session.type
+          : null;
+
+      await backgroundTimerService.updateTimerState();
+
+      // The menu bar is often the only command running when a round ends
+      if (finishedSessionType) {
+        await notificationService.notifySessionComplete(
+          finishedSessionType,
+          useTimerStore.getState().config.enableNotifications,
+        );
+      }
+    } catch (error) {
+      console.error("[useMenuBarTimer] Failed to sync timer state:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    syncTimerState();
+  }, [syncTimerState]);
+
+  // Run a timer action and refresh the menu bar afterwards
+  const runAction = useCallback(
+    (action: () => Promise<unknown>) => async () => {
+      setIsLoading(true);
+      try {
+        await timerStoreUtils.waitForHydration();
+        await action();
+      } catch (error) {
+        console.error("[useMenuBarTimer] Timer action failed:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [],
+  );
+
+  const startWork = runAction(async () => {
+    const { currentFocusPeriodSessionCount, startNewFocusPeriod } =
+      useTimerStore.getState();
+    if (currentFocusPeriodSessionCount === 0) {
+      startNewFocusPeriod(1);
+    }
+
+    await backgroundTimerService.startTimer(SessionType.WORK);
+    await notificationService.notifySessionStart(SessionType.WORK);
+  });
+
+  const startBreak = runAction(async () => {
+    const nextBreakType = useTimerStore.getState().getNextSessionType();
+    await backgroundTimerService.startTimer(nextBreakType);
+    await notificationService.notifySessionStart(nextBreakType);
+  });
+
+  return {
+    isLoading,
+    currentSession,
+    timeRemaining,
+    isRunning: state === TimerState.RUNNING,
+    isPaused: state === TimerState.PAUSED,
+    pause: runAction(() => backgroundTimerService.pauseTimer()),
+    resume: runAction(() => backgroundTimerService.resumeTimer()),
+    skip: runAction(() => backgroundTimerService.skipTimer()),
+    complete: runAction(() => backgroundTimerService.completeTimer()),
+    adjustTime: (minutes: number) =>
+      runAction(() => backgroundTimerService.adjustTimer(minutes)),
+    stop: runAction(() => backgroundTimerService.stopTimer()),
+    startWork,
+    startBreak,
+  };
+}
@@ -0,0 +1,5 @@
+/**
+ * Menu bar command utilities barrel export
+ */
+
+export * from "./menu-bar-helpers";
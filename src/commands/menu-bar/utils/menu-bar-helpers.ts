@@ -0,0 +1,71 @@
+import { Icon } from "@raycast/api";
+import { SessionType, TimerSession } from "../../../types/timer";
+import { formatTime, getSessionTypeIcon } from "../../../utils/helpers";
+
+/**
+ * Menu bar display helper utilities
+ */
+
+/**
+ * Maximum task name length shown next to the countdown
+ */
+export const MENU_BAR_TASK_NAME_LIMIT = 20;
+
+/**
+ * Get the compact menu bar title (countdown plus optional task name)
+ */
+export const getMenuBarTitle = (
+  currentSession: TimerSession | null,
+  timeRemaining: number,
+): string | undefined => {
+  if (!currentSession) return undefined;
+
+  const timeDisplay = formatTime(timeRemaining);
+  if (currentSession.type !== SessionType.WORK || !currentSession.taskName) {
+    return timeDisplay;
+  }
+
+  const taskName =
+    currentSession.taskName.length > MENU_BAR_TASK_NAME_LIMIT
+      ? `${currentSession.taskName.substring(0, MENU_BAR_TASK_NAME_LIMIT)}…`
+      : currentSession.taskName;
+
+  return `${timeDisplay} ${taskName}`;
+};
+
+/**
+ * Describe the timer value, which counts down or up depending on the session
+ */
+export const getTimeStatusLabel = (
+  currentSession: TimerSession,
+  timeRemaining: number,
+): string => {
+  return currentSession.countUp
+    ? `${formatTime(timeRemaining)} elapsed`
+    : `${formatTime(timeRemaining)} left`;
+};
+
+/**
+ * Get the menu bar icon for the current timer state
+ */
+export const getMenuBarIcon = (
+  currentSession: TimerSession | null,
+  isPaused: boolean,
+): Icon => {
+  if (!currentSession) return Icon.Clock;
+  if (isPaused) return Icon.Pause;
+
+  return currentSession.type === SessionType.WORK && currentSession.taskIcon
+    ? currentSession.taskIcon
+    : getSessionTypeIcon(currentSession.type);
+};
+
+/**
+ * Get the clock time at which the current session ends
+ */
+export const getSessionEndTimeLabel = (timeRemaining: number): string => {
+  return new Date(Date.now() + timeRemaining * 1000).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
@@ -9,6 +9,7 @@ import {
   MoodLoggingForm,
   MoodHistoryList,
 } from "../../../components/mood-tracking";
+import { showUndoToast } from "../../../components/trash-list";
 import { MoodEntry, MoodAnalytics, MoodType } from "../../../types/timer";
 import { moodTrackingService } from "../../../services/mood-tracking-service";
 
@@ -22,7 +23,7 @@ interface ProfileMoodProps {
     sessionId?: string,
     notes?: string
   ) => void;
-  deleteMoodEntry: (id: string) => void;
+  deleteMoodEntry: (id: string) => string | null;
   viewMode: string;
 }
 
@@ -241,7 +242,9 @@ export function ProfileMood({
       <List.Section title="Recent Mood Entries">
         <MoodHistoryList
           moodEntries={recentMoodEntries}
-          onDeleteEntry={deleteMoodEntry}
+          onDeleteEntry={(entryId) =>
+            showUndoToast("Mood Entry Deleted", deleteMoodEntry(entryId))
+          }
           showSessionLink={true}
         />
       </List.Section>
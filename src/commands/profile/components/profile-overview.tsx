@@ -1,6 +1,6 @@
 import { Action, ActionPanel, Icon, List } from "@raycast/api";
 import { useNavigation } from "@raycast/api";
-import { formatDistanceToNow } from "date-fns";
+import { format, formatDistanceToNow } from "date-fns";
 import {
   STATUS_COLORS,
   ACTION_ICONS,
@@ -10,9 +10,18 @@ import {
 } from "../../../constants/design-tokens";
 import { MoodEntryDetail } from "../../../components/mood-entry-detail";
 import { MoodLoggingForm } from "../../../components/mood-tracking";
-import { RewardSystem, MoodEntry, TimerSession } from "../../../types/timer";
+import {
+  RewardSystem,
+  MoodEntry,
+  TimerSession,
+  StreakDayOff,
+  StreakStatus,
+} from "../../../types/timer";
 import { getAchievementStyling, getSessionStatus } from "../utils";
-import { formatDuration } from "../../../utils/helpers";
+import { formatDuration, getFocusedDuration } from "../../../utils/helpers";
+import { getDayFromKey, getDayKey } from "../../../utils/date-buckets";
+import { STREAK_FREEZE_POINTS } from "../../../utils/streaks";
+import { StreakDaysOffForm } from "./streak-days-off-form";
 
 interface ProfileOverviewProps {
   rewardSystem: RewardSystem;
@@ -22,6 +31,14 @@ interface ProfileOverviewProps {
     pointsForNextLevel: number;
     progressToNextLevel: number;
   };
+  streakStatus: StreakStatus;
+  streakDaysOff: StreakDayOff[];
+  addStreakDaysOff: (
+    start: Date,
+    end: Date,
+    reason: StreakDayOff["reason"],
+  ) => void;
+  removeStreakDayOff: (date: string) => void;
   viewMode: string;
 }
 
@@ -30,6 +47,10 @@ export function ProfileOverview({
   moodEntries,
   history,
   profileMetrics,
+  streakStatus,
+  streakDaysOff,
+  addStreakDaysOff,
+  removeStreakDayOff,
   viewMode,
 }: ProfileOverviewProps) {
   // Only render when in overview mode
@@ -40,8 +61,8 @@ export function ProfileOverview({
   const recentAchievements = rewardSystem.achievements
     .filter((a) => a.unlockedAt)
     .sort((a, b) => {
-      const dateA = a.unlockedAt ? new Date(a.unlockedAt).getTime() : 0;
-      const dateB = b.unlockedAt ? new Date(b.unlockedAt).getTime() : 0;
+      const dateA = a.unlockedAt ? a.unlockedAt.getTime() : 0;
+      const dateB = b.unlockedAt ? b.unlockedAt.getTime() : 0;
       return dateB - dateA;
     })
     .slice(0, 3);
@@ -53,6 +74,13 @@ export function ProfileOverview({
   // Get most recent session
   const lastSession = history.length > 0 ? history[history.length - 1] : null;
 
+  // Days off from today on
+  const today = getDayKey(new Date());
+  const upcomingDaysOff = streakDaysOff
+    .filter((day) => day.date >= today)
+    .slice(0, 5);
+  const isTodayOff = upcomingDaysOff.some((day) => day.date === today);
+
   return (
     <>
       {/* Level Information Section */}
@@ -74,6 +102,110 @@ export function ProfileOverview({
         />
       </List.Section>
 
+      {/* Streak Section */}
+      <List.Section title="Streak">
+        <List.Item
+          title={`${streakStatus.current} Day Streak`}
+          subtitle={
+            streakStatus.atRisk
+              ? "At risk • complete a session today to keep it"
+              : `Longest: ${streakStatus.longest} days`
+          }
+          icon={{
+            source: Icon.Calendar,
+            tintColor: streakStatus.atRisk
+              ? STATUS_COLORS.WARNING
+              : STATUS_COLORS.SUCCESS,
+          }}
+          accessories={[
+            ...(streakStatus.atRisk
+              ? [
+                  {
+                    icon: {
+                      source: Icon.Warning,
+                      tintColor: STATUS_COLORS.WARNING,
+                    },
+                    tooltip: "No session yet today",
+                  },
+                ]
+              : []),
+            {
+              text: `${streakStatus.freezesAvailable}`,
+              icon: { source: Icon.Snowflake, tintColor: STATUS_COLORS.INFO },
+              tooltip: `Streak freezes cover a missed day. Earn one every ${STREAK_FREEZE_POINTS} points.`,
+            },
+            {
+              text: `Best ${streakStatus.longest}`,
+              tooltip: "Longest streak",
+            },
+          ]}
+          actions={
+            <ActionPanel>
+              {isTodayOff ? (
+                <Action
+                  title="Remove Today's Day Off"
+                  icon={Icon.XMarkCircle}
+                  onAction={() => removeStreakDayOff(today)}
+                />
+              ) : (
+                <>
+                  <Action
+                    title="Take Today Off"
+                    icon={Icon.AirplaneTakeoff}
+                    onAction={() =>
+                      addStreakDaysOff(
+                        getDayFromKey(today),
+                        getDayFromKey(today),
+                        "vacation",
+                      )
+                    }
+                  />
+                  <Action
+                    title="Log Sick Day"
+                    icon={Icon.Pill}
+                    onAction={() =>
+                      addStreakDaysOff(
+                        getDayFromKey(today),
+                        getDayFromKey(today),
+                        "sick",
+                      )
+                    }
+                  />
+                </>
+              )}
+              <Action
+                title="Plan Days Off"
+                icon={Icon.Calendar}
+                onAction={() =>
+                  push(<StreakDaysOffForm onSubmit={addStreakDaysOff} />)
+                }
+              />
+            </ActionPanel>
+          }
+        />
+        {upcomingDaysOff.map((day) => (
+          <List.Item
+            key={day.date}
+            title={format(getDayFromKey(day.date), "EEEE, MMM d")}
+            subtitle={day.reason === "sick" ? "Sick day" : "Vacation"}
+            icon={{
+              source: day.reason === "sick" ? Icon.Pill : Icon.Airplane,
+              tintColor: STATUS_COLORS.NEUTRAL,
+            }}
+            actions={
+              <ActionPanel>
+                <Action
+                  title="Remove Day Off"
+                  icon={Icon.XMarkCircle}
+                  style={Action.Style.Destructive}
+                  onAction={() => removeStreakDayOff(day.date)}
+                />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+
       {/* Recent Achievements Section */}
       {recentAchievements.length > 0 && (
         <List.Section title="Recent Achievements">
@@ -155,7 +287,7 @@ export function ProfileOverview({
         <List.Section title="Last Session Info">
           <List.Item
             title={lastSession.taskName || "Focus Session"}
-            subtitle={`${formatDuration(lastSession.endTime ? new Date(lastSession.endTime).getTime() - new Date(lastSession.startTime).getTime() : lastSession.duration * 1000)} • ${formatDistanceToNow(new Date(lastSession.startTime), { addSuffix: true })}`}
+            subtitle={`${formatDuration(getFocusedDuration(lastSession))} • ${formatDistanceToNow(lastSession.startTime, { addSuffix: true })}`}
             icon={{
               source: getSessionStatus(lastSession).icon as any,
               tintColor: getSessionStatus(lastSession).color as any,
@@ -0,0 +1,83 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { StreakDayOff } from "../../../types/timer";
+import { ACTION_ICONS } from "../../../constants/design-tokens";
+
+interface StreakDaysOffFormProps {
+  onSubmit: (start: Date, end: Date, reason: StreakDayOff["reason"]) => void;
+}
+
+/**
+ * Form for declaring a range of vacation or sick days
+ */
+export function StreakDaysOffForm({ onSubmit }: StreakDaysOffFormProps) {
+  const { pop } = useNavigation();
+  const [start, setStart] = useState<Date | null>(new Date());
+  const [end, setEnd] = useState<Date | null>(new Date());
+  const [reason, setReason] = useState<string>("vacation");
+
+  const handleSubmit = () => {
+    if (!start) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Choose a First Day",
+      });
+      return;
+    }
+
+    onSubmit(start, end ?? start, reason as StreakDayOff["reason"]);
+    showToast({
+      style: Toast.Style.Success,
+      title: reason === "sick" ? "Sick Days Added" : "Vacation Added",
+      message: "Your streak is safe on these days",
+    });
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle="Plan Days Off"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Days Off"
+            icon={ACTION_ICONS.SAVE}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Days off neither break nor extend your streak." />
+      <Form.DatePicker
+        id="start"
+        title="First Day"
+        type={Form.DatePicker.Type.Date}
+        value={start}
+        onChange={setStart}
+      />
+      <Form.DatePicker
+        id="end"
+        title="Last Day"
+        type={Form.DatePicker.Type.Date}
+        value={end}
+        onChange={setEnd}
+      />
+      <Form.Dropdown
+        id="reason"
+        title="Reason"
+        value={reason}
+        onChange={setReason}
+      >
+        <Form.Dropdown.Item value="vacation" title="Vacation" />
+        <Form.Dropdown.Item value="sick" title="Sick" />
+      </Form.Dropdown>
+    </Form>
+  );
+}
@@ -69,7 +69,7 @@ export const getAchievementStyling = (achievement: any) => {
       ? `${achievement.rarity} achievement - unlocked recently!`
       : `${achievement.rarity} achievement - unlocked ${
           achievement.unlockedAt
-            ? formatDistanceToNow(new Date(achievement.unlockedAt), {
+            ? formatDistanceToNow(achievement.unlockedAt, {
                 addSuffix: true,
               })
             : ""
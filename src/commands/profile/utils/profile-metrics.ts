@@ -1,5 +1,6 @@
 import { adhdSupportService } from "../../../services/adhd-support-service";
 import { RewardSystem, TimerSession } from "../../../types/timer";
+import { isToday } from "../../../utils/date-buckets";
 
 /**
  * Profile metrics calculation utilities
@@ -31,8 +32,8 @@ export const calculateProfileMetrics = (rewardSystem: RewardSystem): ProfileMetr
   const recentAchievements = rewardSystem.achievements
     .filter((a) => a.unlockedAt)
     .sort((a, b) => {
-      const dateA = a.unlockedAt ? new Date(a.unlockedAt).getTime() : 0;
-      const dateB = b.unlockedAt ? new Date(b.unlockedAt).getTime() : 0;
+      const dateA = a.unlockedAt ? a.unlockedAt.getTime() : 0;
+      const dateB = b.unlockedAt ? b.unlockedAt.getTime() : 0;
       return dateB - dateA;
     })
     .slice(0, 5);
@@ -75,11 +76,7 @@ export const getSessionStatus = (session: TimerSession) => {
  * Calculate today's sessions from history
  */
 export const getTodaysSessions = (history: TimerSession[]): number => {
-  return history.filter((s) => {
-    const sessionDate = new Date(s.startTime);
-    const today = new Date();
-    return sessionDate.toDateString() === today.toDateString();
-  }).length;
+  return history.filter((s) => isToday(s.startTime)).length;
 };
 
 /**
@@ -89,8 +86,8 @@ export const getRecentAchievements = (rewardSystem: RewardSystem, limit: number
   return rewardSystem.achievements
     .filter((a) => a.unlockedAt)
     .sort((a, b) => {
-      const dateA = a.unlockedAt ? new Date(a.unlockedAt).getTime() : 0;
-      const dateB = b.unlockedAt ? new Date(b.unlockedAt).getTime() : 0;
+      const dateA = a.unlockedAt ? a.unlockedAt.getTime() : 0;
+      const dateB = b.unlockedAt ? b.unlockedAt.getTime() : 0;
       return dateB - dateA;
     })
     .slice(0, limit);
@@ -0,0 +1,5 @@
+/**
+ * Quick focus command utilities barrel export
+ */
+
+export * from "./quick-focus-helpers";
@@ -0,0 +1,63 @@
+import { TimerSession } from "../../../types/timer";
+import { formatDuration } from "../../../utils/helpers";
+import {
+  parseSessionInput,
+  ParsedSessionInput,
+} from "../../main/utils/search-parsing";
+
+/**
+ * Quick focus command helper utilities
+ */
+
+export interface QuickFocusArguments {
+  task?: string;
+  duration?: string;
+  tags?: string;
+}
+
+/**
+ * Combine the command arguments into one parsed session.
+ * The duration and tags arguments take precedence over markers in the task text.
+ */
+export const parseQuickFocusArguments = (
+  args: QuickFocusArguments,
+): ParsedSessionInput => {
+  const parsed = parseSessionInput(args.task || "");
+
+  const durationText = args.duration?.trim();
+  if (durationText) {
+    // Accept a bare number of minutes as well as "45m"
+    const { durationMinutes } = parseSessionInput(
+      /^\d+$/.test(durationText) ? `${durationText}m` : durationText,
+    );
+    if (durationMinutes) {
+      parsed.durationMinutes = durationMinutes;
+    }
+  }
+
+  const extraTags = (args.tags || "")
+    .split(/[\s,]+/)
+    .map((tag) => tag.replace(/^#/, "").trim())
+    .filter((tag) => /^\w+$/.test(tag));
+
+  return {
+    ...parsed,
+    tags: Array.from(new Set([...parsed.tags, ...extraTags])),
+  };
+};
+
+/**
+ * Build the HUD message shown once the session has started
+ */
+export const getQuickFocusHudMessage = (
+  session: TimerSession | null,
+): string => {
+  if (!session) return "Could not start focus session";
+
+  const length = session.countUp
+    ? "open-ended"
+    : formatDuration(session.duration);
+  const project = session.projectName ? ` @${session.projectName}` : "";
+
+  return `Focus started: ${session.taskName || "Focus Session"}${project} • ${length}`;
+};
@@ -0,0 +1,7 @@
+/**
+ * Tasks command components barrel export
+ */
+
+export { TaskForm } from "./task-form";
+export { TaskListItem } from "./task-list-item";
+export { TaskSessions } from "./task-sessions";
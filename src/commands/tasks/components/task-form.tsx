@@ -0,0 +1,119 @@
+import { Action, ActionPanel, Form, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { Project, Task } from "../../../services/task-service";
+import { ACTION_ICONS } from "../../../constants/design-tokens";
+import {
+  ESTIMATE_OPTIONS,
+  NO_PROJECT,
+  PRIORITY_OPTIONS,
+  TaskFormValues,
+} from "../utils";
+
+interface TaskFormProps {
+  task?: Task; // Task to edit, omitted when creating
+  projects: Project[];
+  onSubmit: (values: TaskFormValues, task?: Task) => void;
+}
+
+export function TaskForm({ task, projects, onSubmit }: TaskFormProps) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const handleSubmit = (values: TaskFormValues) => {
+    if (!values.name.trim()) {
+      setNameError("Task name is required");
+      return;
+    }
+
+    onSubmit(values, task);
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={task ? "Edit Task" : "New Task"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={task ? "Save Task" : "Create Task"}
+            icon={ACTION_ICONS.SAVE}
+            onSubmit={handleSubmit}
+          />
+          <Action
+            title="Cancel"
+            icon={ACTION_ICONS.BACK}
+            onAction={() => pop()}
+            shortcut={{ modifiers: ["cmd"], key: "escape" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Task"
+        placeholder="What are you working on?"
+        defaultValue={task?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.Dropdown
+        id="projectId"
+        title="Project"
+        defaultValue={task?.project || NO_PROJECT}
+      >
+        <Form.Dropdown.Item value={NO_PROJECT} title="No Project" />
+        {projects.map((project) => (
+          <Form.Dropdown.Item
+            key={project.id}
+            value={project.id}
+            title={project.name}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="newProjectName"
+        title="New Project"
+        placeholder="Create a project instead"
+        info="Leave empty to use the project selected above"
+      />
+      <Form.Dropdown
+        id="estimatedPomodoros"
+        title="Estimate"
+        defaultValue={String(task?.estimatedPomodoros || 1)}
+      >
+        {ESTIMATE_OPTIONS.map((estimate) => (
+          <Form.Dropdown.Item
+            key={estimate}
+            value={String(estimate)}
+            title={`${estimate} round${estimate === 1 ? "" : "s"}`}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="priority"
+        title="Priority"
+        defaultValue={task?.priority || "medium"}
+      >
+        {PRIORITY_OPTIONS.map((option) => (
+          <Form.Dropdown.Item
+            key={option.value}
+            value={option.value}
+            title={option.title}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="work, writing"
+        defaultValue={task?.tags.join(", ")}
+      />
+      <Form.TextArea
+        id="description"
+        title="Description"
+        placeholder="Optional notes about the task"
+        defaultValue={task?.description}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,201 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Icon,
+  List,
+  confirmAlert,
+} from "@raycast/api";
+import { Project, Task, TaskPriority } from "../../../services/task-service";
+import { TimerSession } from "../../../types/timer";
+import { formatDuration } from "../../../utils/helpers";
+import {
+  ACTION_ICONS,
+  SHORTCUTS,
+  STATUS_COLORS,
+} from "../../../constants/design-tokens";
+import {
+  ESTIMATE_OPTIONS,
+  PRIORITY_OPTIONS,
+  TaskFormValues,
+  formatTaskProgress,
+  getPriorityColor,
+  getTaskIcon,
+  getTaskTimeSummary,
+} from "../utils";
+import { TaskForm } from "./task-form";
+import { TaskSessions } from "./task-sessions";
+
+interface TaskListItemProps {
+  task: Task;
+  project?: Project;
+  projects: Project[];
+  progress: number; // Percentage of the estimate completed
+  sessions: TimerSession[]; // Completed work sessions linked to the task
+  workDurationMinutes: number; // Used to turn the estimate into time
+  onStartFocus: (task: Task) => void;
+  onSave: (values: TaskFormValues, task?: Task) => void;
+  onSetPriority: (task: Task, priority: TaskPriority) => void;
+  onSetEstimate: (task: Task, estimate: number) => void;
+  onToggleCompleted: (task: Task) => void;
+  onDelete: (task: Task) => void;
+}
+
+export function TaskListItem({
+  task,
+  project,
+  projects,
+  progress,
+  sessions,
+  workDurationMinutes,
+  onStartFocus,
+  onSave,
+  onSetPriority,
+  onSetEstimate,
+  onToggleCompleted,
+  onDelete,
+}: TaskListItemProps) {
+  const { focusedSeconds, estimatedSeconds } = getTaskTimeSummary(
+    task,
+    sessions,
+    workDurationMinutes,
+  );
+
+  const handleDelete = async () => {
+    const confirmed = await confirmAlert({
+      title: "Delete Task?",
+      message: `"${task.name}" will be removed permanently.`,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) {
+      onDelete(task);
+    }
+  };
+
+  return (
+    <List.Item
+      icon={getTaskIcon(task)}
+      title={task.name}
+      subtitle={project?.name}
+      keywords={[project?.name || "", ...task.tags]}
+      accessories={[
+        ...task.tags.map((tag) => ({ tag: `#${tag}` })),
+        {
+          tag: { value: task.priority, color: getPriorityColor(task.priority) },
+          tooltip: "Priority",
+        },
+        {
+          text: formatTaskProgress(task),
+          icon: Icon.BullsEye,
+          tooltip: `${Math.round(progress)}% of estimate`,
+        },
+        {
+          text: formatDuration(focusedSeconds),
+          icon: Icon.Clock,
+          tooltip: `Focused ${formatDuration(focusedSeconds)} of ~${formatDuration(estimatedSeconds)} estimated`,
+        },
+      ]}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            {!task.completedAt && (
+              <Action
+                title="Start Focus on Task"
+                icon={ACTION_ICONS.PLAY}
+                onAction={() => onStartFocus(task)}
+              />
+            )}
+            <Action
+              title={task.completedAt ? "Reopen Task" : "Mark as Complete"}
+              icon={
+                task.completedAt
+                  ? Icon.ArrowCounterClockwise
+                  : ACTION_ICONS.COMPLETE
+              }
+              onAction={() => onToggleCompleted(task)}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+            />
+            <Action.Push
+              title="Show Sessions"
+              icon={Icon.List}
+              target={
+                <TaskSessions
+                  task={task}
+                  sessions={sessions}
+                  focusedSeconds={focusedSeconds}
+                  estimatedSeconds={estimatedSeconds}
+                />
+              }
+              shortcut={{ modifiers: ["cmd"], key: "y" }}
+            />
+            <Action.Push
+              title="Edit Task"
+              icon={Icon.Pencil}
+              target={
+                <TaskForm task={task} projects={projects} onSubmit={onSave} />
+              }
+              shortcut={{ modifiers: ["cmd"], key: "e" }}
+            />
+            <Action.Push
+              title="New Task"
+              icon={Icon.Plus}
+              target={<TaskForm projects={projects} onSubmit={onSave} />}
+              shortcut={{ modifiers: ["cmd"], key: "n" }}
+            />
+          </ActionPanel.Section>
+
+          <ActionPanel.Section title="Plan">
+            <ActionPanel.Submenu
+              title="Set Priority"
+              icon={Icon.Exclamationmark}
+            >
+              {PRIORITY_OPTIONS.map((option) => (
+                <Action
+                  key={option.value}
+                  title={option.title}
+                  icon={{
+                    source:
+                      option.value === task.priority
+                        ? Icon.CheckCircle
+                        : Icon.Circle,
+                    tintColor: getPriorityColor(option.value),
+                  }}
+                  onAction={() => onSetPriority(task, option.value)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+            <ActionPanel.Submenu title="Set Estimate" icon={Icon.BullsEye}>
+              {ESTIMATE_OPTIONS.map((estimate) => (
+                <Action
+                  key={estimate}
+                  title={`${estimate} Round${estimate === 1 ? "" : "s"}`}
+                  icon={
+                    estimate === task.estimatedPomodoros
+                      ? Icon.CheckCircle
+                      : Icon.Circle
+                  }
+                  onAction={() => onSetEstimate(task, estimate)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          </ActionPanel.Section>
+
+          <ActionPanel.Section>
+            <Action.CopyToClipboard
+              title="Copy Task Name"
+              content={task.name}
+              shortcut={SHORTCUTS.COPY}
+            />
+            <Action
+              title="Delete Task"
+              icon={{ source: Icon.Trash, tintColor: STATUS_COLORS.ERROR }}
+              style={Action.Style.Destructive}
+              onAction={handleDelete}
+              shortcut={{ modifiers: ["ctrl"], key: "x" }}
+            />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,50 @@
+import { Icon, List } from "@raycast/api";
+import { Task } from "../../../services/task-service";
+import { useTimerStore } from "../../../store/timer-store";
+import { TimerSession } from "../../../types/timer";
+import { SessionListItem } from "../../../components/history";
+import { formatDuration } from "../../../utils/helpers";
+import { getTagColor } from "../../main/utils";
+
+interface TaskSessionsProps {
+  task: Task;
+  sessions: TimerSession[]; // Completed work sessions linked to the task
+  focusedSeconds: number;
+  estimatedSeconds: number;
+}
+
+export function TaskSessions({
+  task,
+  sessions,
+  focusedSeconds,
+  estimatedSeconds,
+}: TaskSessionsProps) {
+  const { moodEntries, getTagConfig } = useTimerStore();
+
+  const newestFirst = [...sessions].sort(
+    (a, b) => b.startTime.getTime() - a.startTime.getTime(),
+  );
+
+  return (
+    <List navigationTitle={task.name}>
+      <List.EmptyView
+        icon={Icon.Clock}
+        title="No Sessions Yet"
+        description="Finished focus rounds started for this task appear here"
+      />
+      <List.Section
+        title="Sessions"
+        subtitle={`${formatDuration(focusedSeconds)} focused of ~${formatDuration(estimatedSeconds)} estimated`}
+      >
+        {newestFirst.map((session) => (
+          <SessionListItem
+            key={session.id}
+            session={session}
+            moodEntries={moodEntries}
+            getTagColor={(tag) => getTagColor(tag, getTagConfig)}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,5 @@
+/**
+ * Tasks command hooks barrel export
+ */
+
+export { useTasks } from "./use-tasks";
@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from "react";
+import { LaunchType, Toast, launchCommand, showToast } from "@raycast/api";
+import {
+  Project,
+  Task,
+  TaskPriority,
+  taskService,
+} from "../../../services/task-service";
+import { backgroundTimerService } from "../../../services/background-timer-service";
+import { notificationService } from "../../../services/notification-service";
+import { timerStoreUtils, useTimerStore } from "../../../store/timer-store";
+import { SessionType, TimerState } from "../../../types/timer";
+import {
+  NO_PROJECT,
+  TaskFormValues,
+  getRemainingRounds,
+  parseTagInput,
+} from "../utils";
+
+/**
+ * Custom hook that exposes the persisted tasks and projects with their actions
+ */
+export function useTasks() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const { history, config } = useTimerStore();
+
+  // Re-read the service after every change
+  const refresh = useCallback(() => {
+    setTasks(taskService.getAllTasks());
+    setProjects(taskService.getAllProjects());
+  }, []);
+
+  // Link sessions recorded before their task existed, then load
+  const linkHistory = useCallback(async () => {
+    try {
+      await taskService.linkHistoryToTasks();
+    } catch (error) {
+      console.error("[useTasks] Failed to link history to tasks:", error);
+    } finally {
+      refresh();
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    linkHistory().finally(() => setIsLoading(false));
+  }, [linkHistory]);
+
+  const saveTask = useCallback(
+    (values: TaskFormValues, existingTask?: Task) => {
+      const projectId = resolveProjectId(values);
+      const estimatedPomodoros = parseInt(values.estimatedPomodoros, 10) || 1;
+      const details = {
+        tags: parseTagInput(values.tags),
+        description: values.description.trim() || undefined,
+      };
+
+      if (existingTask) {
+        // Keep the project's task list in sync when the task moves
+        if (existingTask.project !== projectId) {
+          moveTaskToProject(existingTask, projectId);
+        }
+        taskService.updateTask(existingTask.id, {
+          ...details,
+          name: values.name.trim(),
+          project: projectId,
+          estimatedPomodoros,
+          priority: values.priority,
+        });
+      } else {
+        const task = taskService.createTask(
+          values.name.trim(),
+          projectId,
+          estimatedPomodoros,
+          values.priority,
+        );
+        taskService.updateTask(task.id, details);
+        linkHistory();
+      }
+
+      refresh();
+    },
+    [refresh, linkHistory],
+  );
+
+  const setPriority = useCallback(
+    (task: Task, priority: TaskPriority) => {
+      taskService.updateTask(task.id, { priority });
+      refresh();
+    },
+    [refresh],
+  );
+
+  const setEstimate = useCallback(
+    (task: Task, estimatedPomodoros: number) => {
+      taskService.updateTask(task.id, { estimatedPomodoros });
+      refresh();
+    },
+    [refresh],
+  );
+
+  const toggleCompleted = useCallback(
+    (task: Task) => {
+      taskService.updateTask(task.id, {
+        completedAt: task.completedAt ? undefined : new Date(),
+      });
+      refresh();
+    },
+    [refresh],
+  );
+
+  const deleteTask = useCallback(
+    (task: Task) => {
+      taskService.deleteTask(task.id);
+      refresh();
+    },
+    [refresh],
+  );
+
+  // Start a focus period for the task and open the timer
+  const startFocusOnTask = useCallback(async (task: Task) => {
+    await timerStoreUtils.waitForHydration();
+    await backgroundTimerService.updateTimerState();
+
+    const store = useTimerStore.getState();
+    if (
+      store.state === TimerState.RUNNING ||
+      store.state === TimerState.PAUSED
+    ) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "A focus session is already running",
+        message: "Stop it before starting a new one",
+      });
+      return;
+    }
+
+    store.refreshConfigFromPreferences();
+    store.startNewFocusPeriod(getRemainingRounds(task));
+
+    const projectName = task.project
+      ? taskService.getProject(task.project)?.name
+      : undefined;
+    const firstTag = task.tags[0];
+
+    await backgroundTimerService.startTimer(
+      SessionType.WORK,
+      task.name,
+      projectName,
+      task.tags,
+      firstTag ? store.getTagConfig(firstTag)?.icon : undefined,
+      undefined,
+      taskService.getTaskLink(task.id),
+    );
+    await notificationService.notifySessionStart(SessionType.WORK);
+    await launchCommand({
+      name: "main-command",
+      type: LaunchType.UserInitiated,
+    });
+  }, []);
+
+  return {
+    isLoading,
+    tasks,
+    projects,
+    history,
+    config,
+    saveTask,
+    setPriority,
+    setEstimate,
+    toggleCompleted,
+    deleteTask,
+    startFocusOnTask,
+  };
+}
+
+/**
+ * Resolve the project chosen in the form, creating a new one when named
+ */
+function resolveProjectId(values: TaskFormValues): string | undefined {
+  const newProjectName = values.newProjectName.trim();
+  if (newProjectName) {
+    return (
+      taskService.findProjectByName(newProjectName) ||
+      taskService.createProject(newProjectName)
+    ).id;
+  }
+  return values.projectId === NO_PROJECT ? undefined : values.projectId;
+}
+
+/**
+ * Move a task between projects, updating both projects' task lists
+ */
+function moveTaskToProject(task: Task, projectId?: string) {
+  if (task.project) {
+    const previous = taskService.getProject(task.project);
+    if (previous) {
+      taskService.updateProject(previous.id, {
+        tasks: previous.tasks.filter((id) => id !== task.id),
+      });
+    }
+  }
+
+  if (projectId) {
+    const next = taskService.getProject(projectId);
+    if (next && !next.tasks.includes(task.id)) {
+      taskService.updateProject(next.id, { tasks: [...next.tasks, task.id] });
+    }
+  }
+}
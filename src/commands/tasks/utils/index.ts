@@ -0,0 +1,5 @@
+/**
+ * Tasks command utilities barrel export
+ */
+
+export * from "./task-helpers";
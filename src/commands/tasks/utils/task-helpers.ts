@@ -0,0 +1,116 @@
+import { Color, Icon } from "@raycast/api";
+import { Task, TaskPriority } from "../../../services/task-service";
+import { STATUS_COLORS } from "../../../constants/design-tokens";
+import { TimerSession } from "../../../types/timer";
+import { getFocusedDuration } from "../../../utils/helpers";
+
+/**
+ * Tasks command helper utilities
+ */
+
+/**
+ * Values submitted by the create/edit task form
+ */
+export interface TaskFormValues {
+  name: string;
+  projectId: string; // NO_PROJECT when the task has no project
+  newProjectName: string;
+  estimatedPomodoros: string;
+  priority: TaskPriority;
+  tags: string;
+  description: string;
+}
+
+export const NO_PROJECT = "none";
+
+export const PRIORITY_OPTIONS: { value: TaskPriority; title: string }[] = [
+  { value: "high", title: "High" },
+  { value: "medium", title: "Medium" },
+  { value: "low", title: "Low" },
+];
+
+export const ESTIMATE_OPTIONS = [1, 2, 3, 4, 5, 6, 8, 10];
+
+// Focus periods started from a task never plan more rounds than this
+const MAX_TASK_ROUNDS = 10;
+
+const PRIORITY_ORDER: Record<TaskPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Get the color used for a task priority
+ */
+export const getPriorityColor = (priority: TaskPriority): Color => {
+  switch (priority) {
+    case "high":
+      return STATUS_COLORS.ERROR;
+    case "medium":
+      return STATUS_COLORS.WARNING;
+    default:
+      return STATUS_COLORS.INFO;
+  }
+};
+
+/**
+ * Get the list icon for a task based on completion and priority
+ */
+export const getTaskIcon = (task: Task) =>
+  task.completedAt
+    ? { source: Icon.CheckCircle, tintColor: STATUS_COLORS.SUCCESS }
+    : { source: Icon.Circle, tintColor: getPriorityColor(task.priority) };
+
+/**
+ * Sort tasks by priority, then oldest first
+ */
+export const sortTasks = (tasks: Task[]): Task[] =>
+  [...tasks].sort(
+    (a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+
+/**
+ * Number of rounds left before the task reaches its estimate
+ */
+export const getRemainingRounds = (task: Task): number =>
+  Math.min(
+    MAX_TASK_ROUNDS,
+    Math.max(1, task.estimatedPomodoros - task.completedPomodoros),
+  );
+
+/**
+ * Format pomodoro progress such as "2/4 rounds"
+ */
+export const formatTaskProgress = (task: Task): string =>
+  `${task.completedPomodoros}/${task.estimatedPomodoros} round${task.estimatedPomodoros === 1 ? "" : "s"}`;
+
+/**
+ * Split tag input on spaces and commas, dropping a leading #
+ */
+export const parseTagInput = (text: string): string[] =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\s,]+/)
+        .map((tag) => tag.replace(/^#/, "").trim().toLowerCase())
+        .filter((tag) => /^\w+$/.test(tag)),
+    ),
+  );
+
+/**
+ * Focused time on a task's sessions compared with its estimate, in seconds
+ */
+export const getTaskTimeSummary = (
+  task: Task,
+  sessions: TimerSession[],
+  workDurationMinutes: number,
+) => ({
+  focusedSeconds: sessions.reduce(
+    (total, session) => total + getFocusedDuration(session),
+    0,
+  ),
+  estimatedSeconds: task.estimatedPomodoros * workDurationMinutes * 60,
+});
@@ -3,6 +3,7 @@ import { format } from "date-fns";
 import { TimerSession, SessionType, MoodEntry } from "../../types/timer";
 import {
   formatTime,
+  getFocusedDuration,
   getSessionTypeLabel,
   getSessionTypeIcon,
 } from "../../utils/helpers";
@@ -16,6 +17,8 @@ import { SessionMoodIndicators } from "./SessionMoodIndicators";
 export interface SessionListItemProps {
   /** The timer session to display */
   session: TimerSession;
+  /** List item id, defaults to the session id */
+  itemId?: string;
   /** Array of mood entries associated with this session */
   moodEntries: MoodEntry[];
   /** Whether to show the detail view */
@@ -34,6 +37,7 @@ export interface SessionListItemProps {
  */
 export function SessionListItem({
   session,
+  itemId,
   moodEntries,
   showDetail = false,
   detailComponent,
@@ -59,7 +63,7 @@ export function SessionListItem({
 
   return (
     <List.Item
-      id={session.id}
+      id={itemId ?? session.id}
       title={getSessionDisplayTitle(session)}
       subtitle={getSessionSubtitle(session)}
       icon={{
@@ -80,9 +84,21 @@ export function SessionListItem({
         ...SessionMoodIndicators({ moodEntries: sessionMoodEntries }),
         // Show session duration
         {
-          text: formatTime(session.duration),
-          tooltip: `Session duration: ${formatTime(session.duration)}`,
+          text: formatTime(getFocusedDuration(session)),
+          tooltip: `Focused time: ${formatTime(getFocusedDuration(session))}`,
         },
+        // Mark sessions that were entered by hand
+        ...(session.manuallyAdded
+          ? [
+              {
+                icon: {
+                  source: Icon.Pencil,
+                  tintColor: STATUS_COLORS.NEUTRAL,
+                },
+                tooltip: "Added manually",
+              },
+            ]
+          : []),
         // Show application usage indicator
         ...(hasAppData
           ? [
@@ -134,10 +150,8 @@ function getSessionDisplayTitle(session: TimerSession): string {
  * @returns The formatted subtitle string
  */
 function getSessionSubtitle(session: TimerSession): string {
-  const startTime = format(new Date(session.startTime), "HH:mm");
-  const endTime = session.endTime
-    ? format(new Date(session.endTime), "HH:mm")
-    : null;
+  const startTime = format(session.startTime, "HH:mm");
+  const endTime = session.endTime ? format(session.endTime, "HH:mm") : null;
 
   let subtitle = endTime
     ? `${startTime} - ${endTime}`
@@ -0,0 +1,67 @@
+import { Icon, List } from "@raycast/api";
+import { format } from "date-fns";
+import { TimerSession } from "../../types/timer";
+import { formatTime, getPausedDuration } from "../../utils/helpers";
+import { STATUS_COLORS } from "../../constants/design-tokens";
+
+export interface SessionPauseBreakdownProps {
+  /** Session whose pause intervals should be listed */
+  session: TimerSession;
+  /** Maximum number of individual pauses to display before showing count */
+  maxVisible?: number;
+}
+
+/**
+ * Displays the pause breakdown of a timer session in the history detail view.
+ * Shows total paused time followed by each pause interval and its reason.
+ */
+export function SessionPauseBreakdown({
+  session,
+  maxVisible = 5,
+}: SessionPauseBreakdownProps) {
+  const pauses = session.pauses || [];
+  if (pauses.length === 0) {
+    return null;
+  }
+
+  const endTime = session.endTime || new Date();
+
+  return (
+    <>
+      <List.Item.Detail.Metadata.Separator />
+      <List.Item.Detail.Metadata.Label
+        title="Paused"
+        text={`${formatTime(getPausedDuration(session, endTime))} across ${pauses.length} ${pauses.length === 1 ? "pause" : "pauses"}`}
+        icon={{ source: Icon.Pause, tintColor: STATUS_COLORS.WARNING }}
+      />
+      {pauses.slice(0, maxVisible).map((pause, index) => {
+        const pauseStart = pause.startTime;
+        const pauseEnd = pause.endTime || endTime;
+        const seconds = Math.max(
+          0,
+          Math.floor((pauseEnd.getTime() - pauseStart.getTime()) / 1000),
+        );
+
+        return (
+          <List.Item.Detail.Metadata.Label
+            key={`${pauseStart.getTime()}-${index}`}
+            title={`${format(pauseStart, "h:mm a")} – ${format(pauseEnd, "h:mm a")}`}
+            text={
+              pause.reason
+                ? `${formatTime(seconds)} • ${pause.reason}`
+                : formatTime(seconds)
+            }
+            icon={{ source: Icon.Circle, tintColor: STATUS_COLORS.NEUTRAL }}
+          />
+        );
+      })}
+      {pauses.length > maxVisible && (
+        <List.Item.Detail.Metadata.Label
+          title="More Pauses"
+          text={`+${pauses.length - maxVisible} additional pauses`}
+          icon={{ source: Icon.Ellipsis, tintColor: STATUS_COLORS.NEUTRAL }}
+        />
+      )}
+    </>
+  );
+}
@@ -1,7 +1,9 @@
 // History-specific components
 export { SessionListItem } from "./SessionListItem";
 export { SessionMoodIndicators } from "./SessionMoodIndicators";
+export { SessionPauseBreakdown } from "./SessionPauseBreakdown";
 
 // Type exports
 export type { SessionListItemProps } from "./SessionListItem";
 export type { SessionMoodIndicatorsProps } from "./SessionMoodIndicators";
+export type { SessionPauseBreakdownProps } from "./SessionPauseBreakdown";
@@ -117,14 +117,14 @@ export function MoodEntryDetail({ entry, onDelete }: MoodEntryDetailProps) {
           <Detail.Metadata.Separator />
           <Detail.Metadata.Label
             title="Logged"
-            text={formatDistanceToNow(new Date(entry.timestamp), {
+            text={formatDistanceToNow(entry.timestamp, {
               addSuffix: true,
             })}
             icon={Icon.Clock}
           />
           <Detail.Metadata.Label
             title="Date"
-            text={format(new Date(entry.timestamp), "MMM do, yyyy")}
+            text={format(entry.timestamp, "MMM do, yyyy")}
             icon={Icon.Calendar}
           />
           {associatedSession && (
@@ -273,7 +273,7 @@ export function MoodHistoryList({
 }: MoodHistoryListProps) {
   const { push } = useNavigation();
   const sortedEntries = [...moodEntries].sort(
-    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
   );
 
   if (moodEntries.length === 0) {
@@ -292,7 +292,7 @@ export function MoodHistoryList({
         <List.Item
           key={entry.id}
           title={`${entry.mood.charAt(0).toUpperCase() + entry.mood.slice(1)}`}
-          subtitle={`${formatDistanceToNow(new Date(entry.timestamp), { addSuffix: true })} • ${entry.context.replace("-", " ")}`}
+          subtitle={`${formatDistanceToNow(entry.timestamp, { addSuffix: true })} • ${entry.context.replace("-", " ")}`}
           icon={{
             source: getMoodIcon(entry.mood),
             tintColor: getMoodColor(entry.mood),
@@ -1,15 +1,32 @@
 import {
   Action,
   ActionPanel,
+  Alert,
   Form,
   Icon,
+  confirmAlert,
   useNavigation,
   showToast,
   Toast,
 } from "@raycast/api";
 import { useState } from "react";
 import { useTimerStore } from "../store/timer-store";
-import { TimerSession, MoodType, MoodEntry } from "../types/timer";
+import {
+  TimerSession,
+  MoodType,
+  MoodEntry,
+  SessionType,
+  SessionEndReason,
+} from "../types/timer";
+import {
+  formatDuration,
+  getFocusedDuration,
+  getSessionEndTime,
+  getSessionTypeLabel,
+  validateSessionTimes,
+  validateSplitTime,
+} from "../utils/helpers";
+import { getArchivedDay } from "../utils/history-archive";
 import {
   ACTION_ICONS,
   SESSION_ICONS,
@@ -83,7 +100,7 @@ export function SessionNotesForm({
         title="Session Details"
         text={`${session.taskName || "Untitled Session"} • ${
           session.completed ? "Completed" : "Incomplete"
-        } • ${new Date(session.startTime).toLocaleDateString()}`}
+        } • ${session.startTime.toLocaleDateString()}`}
       />
     </Form>
   );
@@ -166,7 +183,7 @@ export function SessionIconForm({
         title="Session Details"
         text={`${session.taskName || "Untitled Session"} • ${
           session.completed ? "Completed" : "Incomplete"
-        } • ${new Date(session.startTime).toLocaleDateString()}`}
+        } • ${session.startTime.toLocaleDateString()}`}
       />
 
       <Form.Description
@@ -230,7 +247,7 @@ export function SessionNameForm({
 
       <Form.Description
         title="Session Details"
-        text={`${session.completed ? "Completed" : "Incomplete"} • ${new Date(session.startTime).toLocaleDateString()}`}
+        text={`${session.completed ? "Completed" : "Incomplete"} • ${session.startTime.toLocaleDateString()}`}
       />
     </Form>
   );
@@ -423,6 +440,27 @@ export function SessionManagementForm({
             selectedIcon
           )}
 
+          <ActionPanel.Section title="Edit">
+            <Action.Push
+              title="Edit Times"
+              icon={Icon.Clock}
+              target={<SessionTimesForm session={session} />}
+              shortcut={{ modifiers: ["cmd"], key: "t" }}
+            />
+            <Action.Push
+              title="Edit Details"
+              icon={Icon.Pencil}
+              target={<SessionDetailsForm session={session} />}
+              shortcut={{ modifiers: ["cmd"], key: "e" }}
+            />
+            <Action.Push
+              title="Split Session"
+              icon={Icon.ArrowsExpand}
+              target={<SplitSessionForm session={session} />}
+              shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+            />
+          </ActionPanel.Section>
+
           <ActionPanel.Section title="Actions">
             <Action
               title="Clear Icon"
@@ -560,7 +598,7 @@ export function SessionManagementForm({
 
       <Form.Description
         title="Session Details"
-        text={`${session.completed ? "Completed" : "Incomplete"} • ${new Date(session.startTime).toLocaleDateString()}`}
+        text={`${session.completed ? "Completed" : "Incomplete"} • ${session.startTime.toLocaleDateString()}`}
       />
 
       <Form.Description
@@ -570,3 +608,538 @@ export function SessionManagementForm({
     </Form>
   );
 }
+
+interface AddPastSessionFormProps {
+  onSessionAdded?: (session: TimerSession) => void;
+}
+
+const SESSION_TYPE_OPTIONS = [
+  { value: SessionType.WORK, icon: SESSION_ICONS.WORK },
+  { value: SessionType.SHORT_BREAK, icon: SESSION_ICONS.SHORT_BREAK },
+  { value: SessionType.LONG_BREAK, icon: SESSION_ICONS.LONG_BREAK },
+];
+
+export function AddPastSessionForm({
+  onSessionAdded,
+}: AddPastSessionFormProps) {
+  const {
+    history,
+    historyArchive,
+    addManualSession,
+    addCustomTag,
+    customTags,
+  } = useTimerStore();
+  const { pop } = useNavigation();
+
+  const [type, setType] = useState<string>(SessionType.WORK);
+  const [startTime, setStartTime] = useState<Date | null>(
+    () => new Date(Date.now() - 25 * 60 * 1000)
+  );
+  const [endTime, setEndTime] = useState<Date | null>(() => new Date());
+  const [taskName, setTaskName] = useState("");
+  const [projectName, setProjectName] = useState("");
+  const [tags, setTags] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Validate as the user edits so overlaps show up before submitting
+  const timeError =
+    startTime && endTime
+      ? validateSessionTimes(history, startTime, endTime)
+      : "Start and end time are required";
+  // Sessions on compacted days only survive as totals, so overlaps with
+  // them can't be checked
+  const archivedDay = startTime
+    ? getArchivedDay(historyArchive, startTime)
+    : undefined;
+  const archivedDayWarning =
+    archivedDay &&
+    `${archivedDay.totalSessions} ${archivedDay.totalSessions === 1 ? "session" : "sessions"} on this day were already folded into daily totals, so this one may be recorded already`;
+
+  const handleSubmit = async () => {
+    if (timeError || !startTime || !endTime) {
+      return;
+    }
+
+    if (
+      archivedDayWarning &&
+      !(await confirmAlert({
+        title: "Add Possible Duplicate?",
+        message: archivedDayWarning,
+        primaryAction: { title: "Add", style: Alert.ActionStyle.Default },
+      }))
+    ) {
+      return;
+    }
+
+    const tagList = parseTagList(tags);
+    tagList
+      .filter((tag) => !customTags.includes(tag))
+      .forEach((tag) => addCustomTag(tag));
+
+    const session = addManualSession(
+      {
+        type: type as SessionType,
+        startTime,
+        endTime,
+        taskName: taskName.trim() || undefined,
+        projectName: projectName.trim() || undefined,
+        tags: tagList,
+        notes: notes.trim() || undefined,
+      },
+      !!archivedDay
+    );
+
+    if (!session) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Session Not Added",
+        message: "The time range is no longer valid",
+      });
+      return;
+    }
+
+    showToast({
+      style: Toast.Style.Success,
+      title: "Session Added",
+      message: `${getSessionTypeLabel(session.type)} of ${formatDuration(session.duration)} recorded`,
+    });
+
+    if (onSessionAdded) {
+      onSessionAdded(session);
+    }
+
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle="Add Past Session"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Add Session"
+            icon={ACTION_ICONS.SAVE}
+            onSubmit={handleSubmit}
+          />
+          <Action
+            title="Cancel"
+            icon={ACTION_ICONS.BACK}
+            onAction={() => pop()}
+            shortcut={{ modifiers: ["cmd"], key: "escape" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="type" title="Type" value={type} onChange={setType}>
+        {SESSION_TYPE_OPTIONS.map((option) => (
+          <Form.Dropdown.Item
+            key={option.value}
+            value={option.value}
+            title={getSessionTypeLabel(option.value)}
+            icon={option.icon}
+          />
+        ))}
+      </Form.Dropdown>
+
+      <Form.DatePicker
+        id="startTime"
+        title="Start"
+        value={startTime}
+        onChange={setStartTime}
+        info={archivedDayWarning}
+      />
+      <Form.DatePicker
+        id="endTime"
+        title="End"
+        value={endTime}
+        onChange={setEndTime}
+        error={timeError}
+      />
+
+      <Form.Separator />
+
+      <Form.TextField
+        id="taskName"
+        title="Task"
+        placeholder="What did you work on?"
+        value={taskName}
+        onChange={setTaskName}
+      />
+      <Form.TextField
+        id="projectName"
+        title="Project"
+        placeholder="Optional project name"
+        value={projectName}
+        onChange={setProjectName}
+      />
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="work, writing"
+        value={tags}
+        onChange={setTags}
+      />
+      <Form.TextArea
+        id="notes"
+        title="Notes"
+        placeholder="Anything worth remembering about this session..."
+        value={notes}
+        onChange={setNotes}
+      />
+
+      <Form.Description
+        title="Manual Entry"
+        text="Sessions added by hand are marked as manual in your history"
+      />
+    </Form>
+  );
+}
+
+interface SessionTimesFormProps {
+  session: TimerSession;
+  onTimesUpdated?: () => void;
+}
+
+export function SessionTimesForm({
+  session,
+  onTimesUpdated,
+}: SessionTimesFormProps) {
+  const { history, updateSessionTimes } = useTimerStore();
+  const { pop } = useNavigation();
+  const [startTime, setStartTime] = useState<Date | null>(session.startTime);
+  const [endTime, setEndTime] = useState<Date | null>(
+    getSessionEndTime(session)
+  );
+
+  // Validate against every other session while editing
+  const timeError =
+    startTime && endTime
+      ? validateSessionTimes(history, startTime, endTime, session.id)
+      : "Start and end time are required";
+
+  const handleSubmit = () => {
+    if (timeError || !startTime || !endTime) {
+      return;
+    }
+
+    if (!updateSessionTimes(session.id, startTime, endTime)) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Times Not Updated",
+        message: "The time range is no longer valid",
+      });
+      return;
+    }
+
+    if (onTimesUpdated) {
+      onTimesUpdated();
+    }
+
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle="Edit Session Times"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Times"
+            icon={ACTION_ICONS.SAVE}
+            onSubmit={handleSubmit}
+          />
+          <Action
+            title="Cancel"
+            icon={ACTION_ICONS.BACK}
+            onAction={() => pop()}
+            shortcut={{ modifiers: ["cmd"], key: "escape" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.DatePicker
+        id="startTime"
+        title="Start"
+        value={startTime}
+        onChange={setStartTime}
+      />
+      <Form.DatePicker
+        id="endTime"
+        title="End"
+        value={endTime}
+        onChange={setEndTime}
+        error={timeError}
+      />
+
+      <Form.Description
+        title="Session Details"
+        text={`${session.taskName || getSessionTypeLabel(session.type)} • ${formatDuration(getFocusedDuration(session))} focused`}
+      />
+
+      {session.pauses && session.pauses.length > 0 && (
+        <Form.Description
+          title="Pauses"
+          text="Pauses outside the new time range are removed"
+        />
+      )}
+    </Form>
+  );
+}
+
+interface SessionDetailsFormProps {
+  session: TimerSession;
+  onDetailsUpdated?: () => void;
+}
+
+const END_REASON_OPTIONS = [
+  { value: SessionEndReason.COMPLETED, title: "Completed" },
+  { value: SessionEndReason.STOPPED, title: "Stopped" },
+  { value: SessionEndReason.SKIPPED, title: "Skipped" },
+];
+
+export function SessionDetailsForm({
+  session,
+  onDetailsUpdated,
+}: SessionDetailsFormProps) {
+  const { updateSessionDetails, addCustomTag, customTags } = useTimerStore();
+  const { pop } = useNavigation();
+
+  const [type, setType] = useState<string>(session.type);
+  const [projectName, setProjectName] = useState(session.projectName || "");
+  const [tags, setTags] = useState((session.tags || []).join(", "));
+  const [endReason, setEndReason] = useState<string>(
+    session.endReason ||
+      (session.completed
+        ? SessionEndReason.COMPLETED
+        : SessionEndReason.STOPPED)
+  );
+
+  const handleSubmit = () => {
+    const tagList = parseTagList(tags);
+    tagList
+      .filter((tag) => !customTags.includes(tag))
+      .forEach((tag) => addCustomTag(tag));
+
+    // The end reason decides whether the session counts as completed
+    updateSessionDetails(session.id, {
+      type: type as SessionType,
+      projectName: projectName.trim() || undefined,
+      tags: tagList,
+      completed: endReason === SessionEndReason.COMPLETED,
+      endReason: endReason as SessionEndReason,
+    });
+
+    if (onDetailsUpdated) {
+      onDetailsUpdated();
+    }
+
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle="Edit Session Details"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Details"
+            icon={ACTION_ICONS.SAVE}
+            onSubmit={handleSubmit}
+          />
+          <Action
+            title="Cancel"
+            icon={ACTION_ICONS.BACK}
+            onAction={() => pop()}
+            shortcut={{ modifiers: ["cmd"], key: "escape" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="type" title="Type" value={type} onChange={setType}>
+        {SESSION_TYPE_OPTIONS.map((option) => (
+          <Form.Dropdown.Item
+            key={option.value}
+            value={option.value}
+            title={getSessionTypeLabel(option.value)}
+            icon={option.icon}
+          />
+        ))}
+      </Form.Dropdown>
+
+      <Form.Dropdown
+        id="endReason"
+        title="Outcome"
+        value={endReason}
+        onChange={setEndReason}
+        info="Only completed sessions count towards stats, points and achievements"
+      >
+        {END_REASON_OPTIONS.map((option) => (
+          <Form.Dropdown.Item
+            key={option.value}
+            value={option.value}
+            title={option.title}
+          />
+        ))}
+      </Form.Dropdown>
+
+      <Form.TextField
+        id="projectName"
+        title="Project"
+        placeholder="Optional project name"
+        value={projectName}
+        onChange={setProjectName}
+      />
+      <Form.TextField
+        id="tags"
+        title="Tags"
+        placeholder="work, writing"
+        value={tags}
+        onChange={setTags}
+      />
+    </Form>
+  );
+}
+
+interface SplitSessionFormProps {
+  session: TimerSession;
+  onSessionSplit?: () => void;
+}
+
+export function SplitSessionForm({
+  session,
+  onSessionSplit,
+}: SplitSessionFormProps) {
+  const { splitSession, addCustomTag, customTags } = useTimerStore();
+  const { pop } = useNavigation();
+
+  const startTime = session.startTime;
+  const endTime = getSessionEndTime(session);
+  const initialTags = (session.tags || []).join(", ");
+
+  const [splitAt, setSplitAt] = useState<Date | null>(
+    new Date((startTime.getTime() + endTime.getTime()) / 2)
+  );
+  const [firstTaskName, setFirstTaskName] = useState(session.taskName || "");
+  const [firstTags, setFirstTags] = useState(initialTags);
+  const [secondTaskName, setSecondTaskName] = useState(session.taskName || "");
+  const [secondTags, setSecondTags] = useState(initialTags);
+
+  const splitError = splitAt
+    ? validateSplitTime(session, splitAt)
+    : "Split time is required";
+
+  const handleSubmit = () => {
+    if (splitError || !splitAt) {
+      return;
+    }
+
+    const firstTagList = parseTagList(firstTags);
+    const secondTagList = parseTagList(secondTags);
+    Array.from(new Set([...firstTagList, ...secondTagList]))
+      .filter((tag) => !customTags.includes(tag))
+      .forEach((tag) => addCustomTag(tag));
+
+    const split = splitSession(
+      session.id,
+      splitAt,
+      { taskName: firstTaskName.trim() || undefined, tags: firstTagList },
+      { taskName: secondTaskName.trim() || undefined, tags: secondTagList }
+    );
+
+    if (!split) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Session Not Split",
+        message: "The session could not be found",
+      });
+      return;
+    }
+
+    if (onSessionSplit) {
+      onSessionSplit();
+    }
+
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle="Split Session"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Split Session"
+            icon={Icon.ArrowsExpand}
+            onSubmit={handleSubmit}
+          />
+          <Action
+            title="Cancel"
+            icon={ACTION_ICONS.BACK}
+            onAction={() => pop()}
+            shortcut={{ modifiers: ["cmd"], key: "escape" }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Session"
+        text={`${session.taskName || getSessionTypeLabel(session.type)} • ${startTime.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })} – ${endTime.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`}
+      />
+      <Form.DatePicker
+        id="splitAt"
+        title="Split At"
+        value={splitAt}
+        onChange={setSplitAt}
+        error={splitError}
+      />
+
+      <Form.Separator />
+      <Form.Description text="Before the split" />
+      <Form.TextField
+        id="firstTaskName"
+        title="Task"
+        placeholder="What you worked on first"
+        value={firstTaskName}
+        onChange={setFirstTaskName}
+      />
+      <Form.TextField
+        id="firstTags"
+        title="Tags"
+        placeholder="work, writing"
+        value={firstTags}
+        onChange={setFirstTags}
+      />
+
+      <Form.Separator />
+      <Form.Description text="After the split" />
+      <Form.TextField
+        id="secondTaskName"
+        title="Task"
+        placeholder="What you worked on next"
+        value={secondTaskName}
+        onChange={setSecondTaskName}
+      />
+      <Form.TextField
+        id="secondTags"
+        title="Tags"
+        placeholder="work, writing"
+        value={secondTags}
+        onChange={setSecondTags}
+      />
+    </Form>
+  );
+}
+
+/**
+ * Splits tag input on spaces and commas, dropping a leading #
+ */
+function parseTagList(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split(/[\s,]+/)
+        .map((tag) => tag.replace(/^#/, "").trim().toLowerCase())
+        .filter((tag) => /^\w+$/.test(tag))
+    )
+  );
+}
@@ -0,0 +1,232 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useTimerStore } from "../store/timer-store";
+import { TrashItem } from "../types/timer";
+import { formatDuration, getSessionTypeLabel } from "../utils/helpers";
+import { getMoodIcon, getMoodColor } from "../constants/design-tokens";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Show a success toast for a deletion with an Undo action that restores
+ * everything deleted together with it
+ */
+export function showUndoToast(title: string, batchId: string | null) {
+  if (!batchId) return;
+
+  showToast({
+    style: Toast.Style.Success,
+    title,
+    message: "Moved to Trash",
+    primaryAction: {
+      title: "Undo",
+      onAction: (toast) => {
+        useTimerStore.getState().restoreTrashBatch(batchId);
+        toast.hide();
+      },
+    },
+  });
+}
+
+/**
+ * Title, subtitle and icon describing a trashed item
+ */
+function describeTrashItem(item: TrashItem): {
+  title: string;
+  subtitle?: string;
+  icon: List.Item.Props["icon"];
+} {
+  switch (item.kind) {
+    case "session":
+      return {
+        title: item.session.taskName || getSessionTypeLabel(item.session.type),
+        subtitle: `${item.session.startTime.toLocaleString()} • ${formatDuration(item.session.duration)}`,
+        icon: Icon.Clock,
+      };
+    case "tag":
+      return {
+        title: `#${item.tag}`,
+        icon: {
+          source: Icon.Tag,
+          tintColor: item.config?.color || Color.SecondaryText,
+        },
+      };
+    case "mood":
+      return {
+        title: `${item.entry.mood} (${item.entry.intensity}/5)`,
+        subtitle: item.entry.timestamp.toLocaleString(),
+        icon: {
+          source: getMoodIcon(item.entry.mood),
+          tintColor: getMoodColor(item.entry.mood),
+        },
+      };
+  }
+}
+
+export function TrashList() {
+  const {
+    trash,
+    config,
+    restoreFromTrash,
+    restoreTrashBatch,
+    purgeFromTrash,
+    emptyTrash,
+    purgeExpiredTrash,
+  } = useTimerStore();
+
+  useEffect(() => {
+    purgeExpiredTrash();
+  }, []);
+
+  const batchSizes = useMemo(() => {
+    const sizes = new Map<string, number>();
+    trash.forEach((item) =>
+      sizes.set(item.batchId, (sizes.get(item.batchId) || 0) + 1)
+    );
+    return sizes;
+  }, [trash]);
+
+  const handleRestore = (item: TrashItem) => {
+    restoreFromTrash([item.id]);
+    showToast({
+      style: Toast.Style.Success,
+      title: "Restored",
+      message: describeTrashItem(item).title,
+    });
+  };
+
+  const handleRestoreBatch = (item: TrashItem) => {
+    const count = batchSizes.get(item.batchId) || 0;
+    restoreTrashBatch(item.batchId);
+    showToast({
+      style: Toast.Style.Success,
+      title: `Restored ${count} ${count === 1 ? "Item" : "Items"}`,
+    });
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    const confirmed = await confirmAlert({
+      title: "Delete Permanently?",
+      message: `"${describeTrashItem(item).title}" cannot be restored afterwards.`,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+
+    if (confirmed) {
+      purgeFromTrash([item.id]);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    const confirmed = await confirmAlert({
+      title: "Empty Trash?",
+      message: `${trash.length} ${trash.length === 1 ? "item" : "items"} will be deleted permanently.`,
+      primaryAction: { title: "Empty", style: Alert.ActionStyle.Destructive },
+    });
+
+    if (confirmed) {
+      emptyTrash();
+      showToast({ style: Toast.Style.Success, title: "Trash Emptied" });
+    }
+  };
+
+  const sections: { title: string; kind: TrashItem["kind"] }[] = [
+    { title: "Sessions", kind: "session" },
+    { title: "Tags", kind: "tag" },
+    { title: "Mood Entries", kind: "mood" },
+  ];
+
+  return (
+    <List navigationTitle="Trash">
+      <List.EmptyView
+        icon={Icon.Trash}
+        title="Trash is Empty"
+        description={`Deleted sessions, tags and mood entries are kept here for ${config.trashRetentionDays} days`}
+      />
+      {sections.map(({ title, kind }) => {
+        const items = trash.filter((item) => item.kind === kind);
+        if (items.length === 0) return null;
+
+        return (
+          <List.Section key={kind} title={title} subtitle={`${items.length}`}>
+            {items.map((item) => {
+              const { title, subtitle, icon } = describeTrashItem(item);
+              const deletedAt = item.deletedAt;
+              const expiresAt = new Date(
+                deletedAt.getTime() + config.trashRetentionDays * DAY_IN_MS
+              );
+              const batchSize = batchSizes.get(item.batchId) || 0;
+
+              return (
+                <List.Item
+                  key={item.id}
+                  icon={icon}
+                  title={title}
+                  subtitle={subtitle}
+                  accessories={[
+                    {
+                      text: `Deleted ${formatDistanceToNow(deletedAt, {
+                        addSuffix: true,
+                      })}`,
+                      tooltip: deletedAt.toLocaleString(),
+                    },
+                    {
+                      icon: Icon.Hourglass,
+                      tooltip: `Deleted permanently ${formatDistanceToNow(
+                        expiresAt,
+                        { addSuffix: true }
+                      )}`,
+                    },
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      <Action
+                        title="Restore"
+                        icon={Icon.ArrowCounterClockwise}
+                        onAction={() => handleRestore(item)}
+                      />
+                      {batchSize > 1 && (
+                        <Action
+                          title={`Restore All ${batchSize} Deleted Together`}
+                          icon={Icon.ArrowCounterClockwise}
+                          onAction={() => handleRestoreBatch(item)}
+                          shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                        />
+                      )}
+                      <ActionPanel.Section>
+                        <Action
+                          title="Delete Permanently"
+                          icon={Icon.Trash}
+                          style={Action.Style.Destructive}
+                          onAction={() => handlePurge(item)}
+                          shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                        />
+                        <Action
+                          title="Empty Trash"
+                          icon={Icon.Trash}
+                          style={Action.Style.Destructive}
+                          onAction={handleEmptyTrash}
+                          shortcut={{ modifiers: ["ctrl", "shift"], key: "x" }}
+                        />
+                      </ActionPanel.Section>
+                    </ActionPanel>
+                  }
+                />
+              );
+            })}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
@@ -204,6 +204,12 @@ export const SHORTCUTS = {
   PAUSE_RESUME: { modifiers: ["cmd" as const], key: "space" as const },
   STOP: { modifiers: ["cmd" as const], key: "." as const },
   RESET: { modifiers: ["cmd" as const], key: "r" as const },
+  EXTEND_5: { modifiers: ["cmd" as const], key: "=" as const },
+  EXTEND_10: {
+    modifiers: ["cmd" as const, "shift" as const],
+    key: "=" as const,
+  },
+  SHORTEN_5: { modifiers: ["cmd" as const], key: "-" as const },
 
   // Navigation - using arrow keys for intuitive navigation
   BACK: { modifiers: ["cmd" as const], key: "arrowLeft" as const },
@@ -0,0 +1,197 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  Icon,
+  Toast,
+  showInFinder,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { basename } from "path";
+import { timerStoreUtils, useTimerStore } from "./store/timer-store";
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  describeExportFilters,
+  exportService,
+} from "./services/export";
+import {
+  ANY_OPTION,
+  ExportFormValues,
+  getExportFilters,
+  getExportProjectOptions,
+  getExportTagOptions,
+  isExportFormat,
+  validateExportForm,
+} from "./commands/export/utils";
+
+export default function ExportDataCommand() {
+  const { history } = useTimerStore();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [tag, setTag] = useState(ANY_OPTION);
+  const [project, setProject] = useState(ANY_OPTION);
+  const [errors, setErrors] = useState<
+    Partial<Record<keyof ExportFormValues, string>>
+  >({});
+
+  useEffect(() => {
+    timerStoreUtils.waitForHydration().then(() => setIsLoading(false));
+  }, []);
+
+  const tagOptions = useMemo(() => getExportTagOptions(history), [history]);
+  const projectOptions = useMemo(
+    () => getExportProjectOptions(history),
+    [history],
+  );
+
+  const filters = getExportFilters({ startDate, endDate, tag, project });
+  const matchingCount = useMemo(
+    () => exportService.filterSessions(history, filters).length,
+    [history, startDate, endDate, tag, project],
+  );
+
+  const handleSubmit = async (values: ExportFormValues) => {
+    const validationErrors = validateExportForm(values);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    if (matchingCount === 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Nothing to Export",
+        message: "No sessions match these filters",
+      });
+      return;
+    }
+
+    setIsExporting(true);
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Exporting…",
+    });
+
+    try {
+      const formats = values.formats.filter(isExportFormat);
+      const result = await exportService.writeExports(
+        values.folder[0],
+        formats,
+        getExportFilters(values),
+      );
+
+      toast.style = Toast.Style.Success;
+      toast.title = `Exported ${result.sessionCount} ${
+        result.sessionCount === 1 ? "Session" : "Sessions"
+      }`;
+      toast.message = result.files.map((file) => basename(file)).join(", ");
+      toast.primaryAction = {
+        title: "Show in Finder",
+        onAction: () => showInFinder(result.files[0]),
+      };
+    } catch (error) {
+      console.error("Failed to export data:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Export Failed";
+      toast.message = error instanceof Error ? error.message : String(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const clearError = (field: keyof ExportFormValues) => {
+    if (errors[field]) {
+      setErrors((current) => ({ ...current, [field]: undefined }));
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading || isExporting}
+      navigationTitle="Export Data"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Export"
+            icon={Icon.Download}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TagPicker
+        id="formats"
+        title="Formats"
+        defaultValue={["csv"]}
+        error={errors.formats}
+        onChange={() => clearError("formats")}
+      >
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <Form.TagPicker.Item
+            key={format}
+            value={format}
+            title={EXPORT_FORMATS[format].title}
+          />
+        ))}
+      </Form.TagPicker>
+      <Form.FilePicker
+        id="folder"
+        title="Folder"
+        canChooseDirectories
+        canChooseFiles={false}
+        allowMultipleSelection={false}
+        storeValue
+        error={errors.folder}
+        onChange={() => clearError("folder")}
+      />
+
+      <Form.Separator />
+
+      <Form.DatePicker
+        id="startDate"
+        title="From"
+        type={Form.DatePicker.Type.Date}
+        value={startDate}
+        onChange={setStartDate}
+      />
+      <Form.DatePicker
+        id="endDate"
+        title="To"
+        type={Form.DatePicker.Type.Date}
+        value={endDate}
+        error={errors.endDate}
+        onChange={(date) => {
+          setEndDate(date);
+          clearError("endDate");
+        }}
+      />
+      <Form.Dropdown id="tag" title="Tag" value={tag} onChange={setTag}>
+        <Form.Dropdown.Item value={ANY_OPTION} title="Any Tag" />
+        {tagOptions.map((option) => (
+          <Form.Dropdown.Item
+            key={option}
+            value={option}
+            title={`#${option}`}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="project"
+        title="Project"
+        value={project}
+        onChange={setProject}
+      >
+        <Form.Dropdown.Item value={ANY_OPTION} title="Any Project" />
+        {projectOptions.map((option) => (
+          <Form.Dropdown.Item key={option} value={option} title={option} />
+        ))}
+      </Form.Dropdown>
+      <Form.Description
+        title="Includes"
+        text={`${matchingCount} ${matchingCount === 1 ? "session" : "sessions"} • ${describeExportFilters(filters)}`}
+      />
+    </Form>
+  );
+}
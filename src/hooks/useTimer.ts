@@ -1,10 +1,15 @@
 import { useEffect, useRef } from "react";
 import { useTimerStore } from "../store/timer-store";
 import { TimerState, SessionType } from "../types/timer";
-import { getMotivationalMessage, getSessionTypeLabel } from "../utils/helpers";
+import {
+  getFocusedDuration,
+  getMotivationalMessage,
+  getSessionTypeLabel,
+} from "../utils/helpers";
 import { notificationService } from "../services/notification-service";
 import { backgroundTimerService } from "../services/background-timer-service";
 import { adhdSupportService } from "../services/adhd-support-service";
+import { taskService } from "../services/task-service";
 
 export function useTimer() {
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -41,6 +46,17 @@ export function useTimer() {
       // Start new interval
       intervalRef.current = setInterval(() => {
         useTimerStore.setState((prevState: any) => {
+          // Count-up sessions tick forward until the user ends them
+          if (
+            prevState.state === TimerState.RUNNING &&
+            prevState.currentSession?.countUp
+          ) {
+            return {
+              ...prevState,
+              timeRemaining: prevState.timeRemaining + 1,
+            };
+          }
+
           // Only decrement if still running and has time remaining
           if (
             prevState.state !== TimerState.RUNNING ||
@@ -101,7 +117,7 @@ export function useTimer() {
     if (completedSession && store.config.enableRewardSystem) {
       // Calculate and award points
       const points = adhdSupportService.calculateSessionPoints(
-        completedSession.duration,
+        getFocusedDuration(completedSession),
         true,
         completedSession.energyLevel,
         completedSession.moodState,
@@ -118,6 +134,12 @@ export function useTimer() {
       store.checkHyperfocus();
     }
 
+    // Count the finished round towards the task it was started for, if the
+    // session was kept in history
+    if (completedSession?.id === currentSession.id) {
+      await taskService.recordSessionForTask(completedSession);
+    }
+
     // Show completion notification using notification service
     await notificationService.notifySessionComplete(
       currentSessionType,
@@ -156,6 +178,7 @@ export function useTimer() {
     projectName?: string,
     tags?: string[],
     taskIcon?: import("@raycast/api").Icon,
+    energyLevel?: 1 | 2 | 3 | 4 | 5,
   ) => {
     await backgroundTimerService.startTimer(
       SessionType.WORK,
@@ -163,6 +186,7 @@ export function useTimer() {
       projectName,
       tags,
       taskIcon,
+      energyLevel,
     );
     await notificationService.notifySessionStart(SessionType.WORK);
   };
@@ -173,8 +197,8 @@ export function useTimer() {
     await notificationService.notifySessionStart(breakType);
   };
 
-  const handlePause = async () => {
-    await backgroundTimerService.pauseTimer();
+  const handlePause = async (reason?: string) => {
+    await backgroundTimerService.pauseTimer(reason);
     // Remove toast to prevent focus loss
   };
 
@@ -183,6 +207,10 @@ export function useTimer() {
     // Remove toast to prevent focus loss
   };
 
+  const handleAdjustTime = async (minutes: number) => {
+    await backgroundTimerService.adjustTimer(minutes);
+  };
+
   const handleStop = async () => {
     await backgroundTimerService.stopTimer();
     // Remove toast to prevent focus loss
@@ -216,6 +244,7 @@ export function useTimer() {
     startBreakSession,
     pause: handlePause,
     resume: handleResume,
+    adjustTime: handleAdjustTime,
     stop: handleStop,
     complete: handleComplete,
     reset: handleReset,
@@ -0,0 +1,124 @@
+import {
+  Action,
+  ActionPanel,
+  Form,
+  Icon,
+  Toast,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { timerStoreUtils } from "./store/timer-store";
+import {
+  CUSTOM_IMPORT_SOURCE,
+  IMPORT_PRESETS,
+  detectImportPreset,
+  guessColumnMapping,
+  importService,
+  resolvePresetMapping,
+} from "./services/import";
+import { ColumnMappingForm } from "./commands/import/components";
+
+const AUTO_DETECT = "auto";
+const CUSTOM_MAPPING = "custom";
+
+interface ImportFormValues {
+  file: string[];
+  source: string;
+}
+
+export default function ImportDataCommand() {
+  const { push } = useNavigation();
+  const [isLoading, setIsLoading] = useState(true);
+  const [fileError, setFileError] = useState<string | undefined>();
+
+  useEffect(() => {
+    timerStoreUtils.waitForHydration().then(() => setIsLoading(false));
+  }, []);
+
+  const handleSubmit = async (values: ImportFormValues) => {
+    if (values.file.length === 0) {
+      setFileError("Choose a CSV file to import");
+      return;
+    }
+
+    try {
+      const parsed = await importService.readCSVFile(values.file[0]);
+      if (parsed.headers.length === 0) {
+        setFileError("The file is empty");
+        return;
+      }
+
+      const preset =
+        values.source === AUTO_DETECT
+          ? detectImportPreset(parsed.headers)
+          : IMPORT_PRESETS.find((item) => item.id === values.source);
+
+      push(
+        <ColumnMappingForm
+          parsed={parsed}
+          source={preset?.name || CUSTOM_IMPORT_SOURCE}
+          mapping={
+            preset
+              ? resolvePresetMapping(preset, parsed.headers)
+              : guessColumnMapping(parsed.headers)
+          }
+          dateFormat={preset?.dateFormat || "auto"}
+        />,
+      );
+    } catch (error) {
+      console.error("Failed to read import file:", error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't Read File",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Import Sessions"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Map Columns"
+            icon={Icon.ArrowRight}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="file"
+        title="CSV File"
+        allowMultipleSelection={false}
+        error={fileError}
+        onChange={() => setFileError(undefined)}
+      />
+      <Form.Dropdown
+        id="source"
+        title="Exported From"
+        defaultValue={AUTO_DETECT}
+      >
+        <Form.Dropdown.Item value={AUTO_DETECT} title="Detect Automatically" />
+        {IMPORT_PRESETS.map((preset) => (
+          <Form.Dropdown.Item
+            key={preset.id}
+            value={preset.id}
+            title={preset.name}
+          />
+        ))}
+        <Form.Dropdown.Item
+          value={CUSTOM_MAPPING}
+          title="Other (Map Columns)"
+        />
+      </Form.Dropdown>
+      <Form.Description
+        title="How It Works"
+        text="Choose a CSV export, check how its columns map to sessions, then review a preview. Nothing is saved until you confirm, and sessions that duplicate or overlap your history are flagged first."
+      />
+    </Form>
+  );
+}
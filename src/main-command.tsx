@@ -20,6 +20,8 @@ export default function FocusTimer() {
     setTargetRounds,
     preSessionMood,
     setPreSessionMood,
+    timerMethod,
+    setTimerMethod,
     isInitialized,
 
     // Timer state
@@ -33,6 +35,7 @@ export default function FocusTimer() {
     // Timer actions
     pause,
     resume,
+    adjustTime,
     stop,
     complete,
 
@@ -54,9 +57,9 @@ export default function FocusTimer() {
   const { currentAppName, currentAppBundleId, isAppTrackingActive } =
     useAppTracking(isRunning, currentSession?.type);
 
-  // Get current task info from search text (without storing tags)
-  const { taskName: currentTaskName, tags: currentTags } =
-    parseSearchTextOnly(searchText);
+  // Get current session details from search text (without storing tags)
+  const parsedInput = parseSearchTextOnly(searchText);
+  const currentTags = parsedInput.tags;
 
   // Show loading state only if we're not initialized AND there's no current session
   if (!isInitialized && !currentSession) {
@@ -74,7 +77,7 @@ export default function FocusTimer() {
   return (
     <List
       navigationTitle="Focus Timer"
-      searchBarPlaceholder="Task name or # for assign/create a tag"
+      searchBarPlaceholder="Task name, #tag, @project, 50m, x4, !e3 or icon:book"
       searchText={searchText}
       onSearchTextChange={setSearchText}
       searchBarAccessory={
@@ -107,6 +110,7 @@ export default function FocusTimer() {
           getTagConfig={getTagConfig}
           onPause={pause}
           onResume={resume}
+          onAdjustTime={adjustTime}
           onComplete={complete}
           onStop={stop}
           onStartNewSession={handleStartNewSession}
@@ -115,17 +119,18 @@ export default function FocusTimer() {
         // Setup Interface - Show when timer is idle or completed
         <>
           <SessionSetup
-            currentTaskName={currentTaskName}
-            currentTags={currentTags}
+            parsedInput={parsedInput}
             selectedTaskIcon={selectedTaskIcon}
             setSelectedTaskIcon={setSelectedTaskIcon}
             targetRounds={targetRounds}
             preSessionMood={preSessionMood}
+            timerMethod={timerMethod}
             config={config}
             getTagConfig={getTagConfig}
             updateTagConfig={updateTagConfig}
             onStartWork={handleStartWork}
             onSetPreSessionMood={setPreSessionMood}
+            onSetTimerMethod={setTimerMethod}
           />
 
           {/* Tag Suggestions */}
@@ -0,0 +1,169 @@
+import {
+  Icon,
+  LaunchType,
+  MenuBarExtra,
+  launchCommand,
+  openExtensionPreferences,
+} from "@raycast/api";
+import { useMenuBarTimer } from "./commands/menu-bar/hooks";
+import {
+  getMenuBarIcon,
+  getMenuBarTitle,
+  getSessionEndTimeLabel,
+  getTimeStatusLabel,
+} from "./commands/menu-bar/utils";
+import { getSessionTypeLabel } from "./utils/helpers";
+import { ACTION_ICONS } from "./constants/design-tokens";
+import { SessionType } from "./types/timer";
+
+export default function MenuBarTimer() {
+  const {
+    isLoading,
+    currentSession,
+    timeRemaining,
+    isRunning,
+    isPaused,
+    pause,
+    resume,
+    skip,
+    complete,
+    adjustTime,
+    stop,
+    startWork,
+    startBreak,
+  } = useMenuBarTimer();
+
+  const openCommand = (name: string) => async () => {
+    await launchCommand({ name, type: LaunchType.UserInitiated });
+  };
+
+  return (
+    <MenuBarExtra
+      isLoading={isLoading}
+      icon={getMenuBarIcon(currentSession, isPaused)}
+      title={getMenuBarTitle(currentSession, timeRemaining)}
+      tooltip={
+        currentSession
+          ? `${getSessionTypeLabel(currentSession.type)} • ${getTimeStatusLabel(currentSession, timeRemaining)}`
+          : "Focus Timer"
+      }
+    >
+      {currentSession ? (
+        <>
+          <MenuBarExtra.Section title="Current Session">
+            <MenuBarExtra.Item
+              icon={getMenuBarIcon(currentSession, isPaused)}
+              title={getSessionTypeLabel(currentSession.type)}
+              subtitle={
+                isPaused
+                  ? `Paused • ${getTimeStatusLabel(currentSession, timeRemaining)}`
+                  : getTimeStatusLabel(currentSession, timeRemaining)
+              }
+            />
+            {currentSession.taskName && (
+              <MenuBarExtra.Item
+                icon={Icon.Document}
+                title={currentSession.taskName}
+                subtitle={currentSession.projectName}
+              />
+            )}
+            {isRunning && !currentSession.countUp && (
+              <MenuBarExtra.Item
+                icon={Icon.Clock}
+                title={`Ends at ${getSessionEndTimeLabel(timeRemaining)}`}
+              />
+            )}
+          </MenuBarExtra.Section>
+
+          <MenuBarExtra.Section title="Timer Controls">
+            {isRunning && (
+              <MenuBarExtra.Item
+                title="Pause"
+                icon={ACTION_ICONS.PAUSE}
+                onAction={pause}
+              />
+            )}
+            {isPaused && (
+              <MenuBarExtra.Item
+                title="Resume"
+                icon={ACTION_ICONS.PLAY}
+                onAction={resume}
+              />
+            )}
+            {currentSession.countUp && isRunning && (
+              <MenuBarExtra.Item
+                title="Finish Focus Round"
+                icon={ACTION_ICONS.COMPLETE}
+                onAction={complete}
+              />
+            )}
+            <MenuBarExtra.Item
+              title={
+                currentSession.type === SessionType.WORK
+                  ? "Skip to Break"
+                  : "Skip to Focus Round"
+              }
+              icon={ACTION_ICONS.SKIP}
+              onAction={skip}
+            />
+            {!currentSession.countUp && (
+              <MenuBarExtra.Submenu title="Adjust Time" icon={Icon.Clock}>
+                <MenuBarExtra.Item
+                  title="+5 Min"
+                  icon={Icon.Plus}
+                  onAction={adjustTime(5)}
+                />
+                <MenuBarExtra.Item
+                  title="+10 Min"
+                  icon={Icon.Plus}
+                  onAction={adjustTime(10)}
+                />
+                <MenuBarExtra.Item
+                  title="-5 Min"
+                  icon={Icon.Minus}
+                  onAction={adjustTime(-5)}
+                />
+              </MenuBarExtra.Submenu>
+            )}
+            <MenuBarExtra.Item
+              title="Stop"
+              icon={ACTION_ICONS.STOP}
+              onAction={stop}
+            />
+          </MenuBarExtra.Section>
+        </>
+      ) : (
+        <MenuBarExtra.Section title="Start">
+          <MenuBarExtra.Item
+            title="Start Work"
+            icon={ACTION_ICONS.PLAY}
+            onAction={startWork}
+          />
+          <MenuBarExtra.Item
+            title="Start Break"
+            icon={Icon.Mug}
+            onAction={startBreak}
+          />
+        </MenuBarExtra.Section>
+      )}
+
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open Focus Session"
+          icon={Icon.AppWindow}
+          onAction={openCommand("main-command")}
+        />
+        <MenuBarExtra.Item
+          title="Open Timer History"
+          icon={Icon.List}
+          onAction={openCommand("timer-history")}
+        />
+        <MenuBarExtra.Item
+          title="Preferences"
+          icon={ACTION_ICONS.SETTINGS}
+          onAction={openExtensionPreferences}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
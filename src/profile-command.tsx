@@ -10,6 +10,7 @@ import {
 } from "./commands/profile/components";
 import { calculateProfileMetrics } from "./commands/profile/utils";
 import { STATUS_COLORS } from "./constants/design-tokens";
+import { getStreakRules } from "./utils/streaks";
 
 type ViewMode = "overview" | "statistics" | "achievements" | "mood";
 
@@ -18,7 +19,13 @@ export default function ProfileCommand() {
   const {
     stats,
     history,
+    historyArchive,
     rewardSystem,
+    config,
+    streakDaysOff,
+    addStreakDaysOff,
+    removeStreakDayOff,
+    getStreakStatus,
     moodEntries,
     addMoodEntry,
     deleteMoodEntry,
@@ -34,8 +41,17 @@ export default function ProfileCommand() {
 
   // Calculate detailed statistics
   const detailedStats = useMemo(() => {
-    return dataService.calculateDetailedStats(history);
-  }, [history]);
+    return dataService.calculateDetailedStats(
+      history,
+      historyArchive,
+      getStreakRules({ config, streakDaysOff, rewardSystem }),
+    );
+  }, [history, historyArchive, config, streakDaysOff, rewardSystem]);
+
+  const streakStatus = useMemo(
+    () => getStreakStatus(),
+    [history, historyArchive, config, streakDaysOff, rewardSystem],
+  );
 
   // Calculate profile metrics
   const profileMetrics = useMemo(() => {
@@ -138,6 +154,10 @@ export default function ProfileCommand() {
         moodEntries={moodEntries}
         history={history}
         profileMetrics={profileMetrics}
+        streakStatus={streakStatus}
+        streakDaysOff={streakDaysOff}
+        addStreakDaysOff={addStreakDaysOff}
+        removeStreakDayOff={removeStreakDayOff}
         viewMode={viewMode}
       />
 
@@ -0,0 +1,59 @@
+import { LaunchProps, showHUD } from "@raycast/api";
+import { backgroundTimerService } from "./services/background-timer-service";
+import { timerStoreUtils, useTimerStore } from "./store/timer-store";
+import { SessionType, TimerState } from "./types/timer";
+import {
+  PREDEFINED_TAGS,
+  storeNewTags,
+  validateTaskName,
+} from "./commands/main/utils";
+import {
+  getQuickFocusHudMessage,
+  parseQuickFocusArguments,
+} from "./commands/quick-focus/utils";
+
+export default async function QuickFocus(
+  props: LaunchProps<{ arguments: Arguments.QuickFocus }>,
+) {
+  await timerStoreUtils.waitForHydration();
+  await backgroundTimerService.updateTimerState();
+
+  const store = useTimerStore.getState();
+  if (store.state === TimerState.RUNNING || store.state === TimerState.PAUSED) {
+    await showHUD("A focus session is already running");
+    return;
+  }
+
+  store.refreshConfigFromPreferences();
+
+  const {
+    taskName,
+    tags,
+    projectName,
+    durationMinutes,
+    rounds,
+    energyLevel,
+    taskIcon,
+  } = parseQuickFocusArguments(props.arguments);
+  storeNewTags(tags, store.customTags, PREDEFINED_TAGS, store.addCustomTag);
+
+  store.startNewFocusPeriod(
+    rounds || 1,
+    undefined,
+    durationMinutes ? durationMinutes * 60 : undefined,
+  );
+
+  await backgroundTimerService.startTimer(
+    SessionType.WORK,
+    validateTaskName(taskName),
+    projectName,
+    tags,
+    taskIcon ||
+      (tags.length > 0 ? store.getTagConfig(tags[0])?.icon : undefined),
+    energyLevel,
+  );
+
+  await showHUD(
+    getQuickFocusHudMessage(useTimerStore.getState().currentSession),
+  );
+}
@@ -7,6 +7,15 @@
 
 import { applicationTrackingService } from "../services/application-tracking";
 import { showToast, Toast } from "@raycast/api";
+import { StorageValue } from "zustand/middleware";
+import { subDays } from "date-fns";
+import { SessionType, TimerSession } from "../types/timer";
+import {
+  createChunkedZustandStorage,
+  createZustandStorage,
+  SESSION_DATE_FIELDS,
+  StorageBackend,
+} from "../utils/zustand-storage";
 
 interface PerformanceMetrics {
   memoryUsage: {
@@ -320,4 +329,196 @@ export async function quickPerformanceCheck(): Promise<boolean> {
   }
 }
 
+interface StorageWriteCost {
+  averageTime: number;
+  averageBytes: number;
+}
+
+interface StorageWriteResult {
+  historySize: number;
+  singleKey: { tick: StorageWriteCost; session: StorageWriteCost };
+  chunked: { tick: StorageWriteCost; session: StorageWriteCost };
+}
+
+type BenchmarkState = {
+  history: TimerSession[];
+  trash: TimerSession[];
+  timeRemaining: number;
+};
+
+/**
+ * In-memory storage that counts the bytes written to it
+ */
+function createCountingBackend() {
+  const items = new Map<string, string>();
+  let bytesWritten = 0;
+
+  const backend: StorageBackend = {
+    getItem: async (key) => items.get(key),
+    setItem: async (key, value) => {
+      bytesWritten += value.length;
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+
+  return { backend, getBytesWritten: () => bytesWritten };
+}
+
+/**
+ * Completed work sessions, five a day going back from today
+ */
+function createBenchmarkHistory(size: number): TimerSession[] {
+  return Array.from({ length: size }, (_, index) => {
+    const startTime = subDays(new Date(), Math.floor((size - index) / 5));
+    startTime.setHours(9 + (index % 5), 0, 0, 0);
+    return {
+      id: `benchmark-${index}`,
+      type: SessionType.WORK,
+      duration: 1500,
+      startTime,
+      endTime: new Date(startTime.getTime() + 1500 * 1000),
+      completed: true,
+      tags: ["benchmark"],
+    };
+  });
+}
+
+/**
+ * Time a series of writes made by `nextState` and average their cost
+ */
+async function measureWrites(
+  storage: {
+    setItem: (name: string, value: StorageValue<BenchmarkState>) => unknown;
+  },
+  getBytesWritten: () => number,
+  writes: number,
+  nextState: (index: number) => BenchmarkState
+): Promise<StorageWriteCost> {
+  const bytesBefore = getBytesWritten();
+  const start = performance.now();
+
+  for (let i = 0; i < writes; i++) {
+    await storage.setItem("benchmark", { state: nextState(i), version: 0 });
+  }
+
+  return {
+    averageTime: (performance.now() - start) / writes,
+    averageBytes: (getBytesWritten() - bytesBefore) / writes,
+  };
+}
+
+/**
+ * Measure what a timer tick and a finished session cost to persist, with
+ * history in one key and with history split by month. Half as many sessions
+ * again sit in the trash, as after clearing history.
+ */
+async function measureStorageWrites(
+  historySize: number,
+  writes: number
+): Promise<StorageWriteResult> {
+  const history = createBenchmarkHistory(historySize);
+  const trash = createBenchmarkHistory(Math.floor(historySize / 2));
+  const dateFields = {
+    history: SESSION_DATE_FIELDS,
+    trash: SESSION_DATE_FIELDS,
+  };
+
+  const measure = async (chunked: boolean) => {
+    const { backend, getBytesWritten } = createCountingBackend();
+    const storage = chunked
+      ? createChunkedZustandStorage<BenchmarkState>(dateFields, backend, [
+          "trash",
+        ])
+      : createZustandStorage<BenchmarkState>(dateFields, backend);
+
+    // Initial write of the whole history isn't part of the measurement
+    await storage.setItem("benchmark", {
+      state: { history, trash, timeRemaining: 1500 },
+      version: 0,
+    });
+
+    const tick = await measureWrites(storage, getBytesWritten, writes, (i) => ({
+      history,
+      trash,
+      timeRemaining: 1500 - i,
+    }));
+
+    let current = history;
+    const session = await measureWrites(
+      storage,
+      getBytesWritten,
+      writes,
+      (i) => {
+        current = [
+          ...current,
+          { ...history[history.length - 1], id: `benchmark-new-${i}` },
+        ];
+        return { history: current, trash, timeRemaining: 0 };
+      }
+    );
+
+    return { tick, session };
+  };
+
+  return {
+    historySize,
+    singleKey: await measure(false),
+    chunked: await measure(true),
+  };
+}
+
+/**
+ * Benchmark persisting the timer store as history grows. With history split
+ * into month keys, the cost of a write should stay flat.
+ */
+export async function runStorageWriteBenchmark(
+  historySizes: number[] = [100, 1000, 10000],
+  writes = 50
+): Promise<StorageWriteResult[]> {
+  console.log("💾 Storage Write Benchmark");
+
+  const results: StorageWriteResult[] = [];
+  for (const historySize of historySizes) {
+    const result = await measureStorageWrites(historySize, writes);
+    results.push(result);
+
+    console.log(`\nHistory of ${historySize} sessions:`);
+    (["singleKey", "chunked"] as const).forEach((layout) => {
+      const { tick, session } = result[layout];
+      console.log(
+        `  ${layout === "chunked" ? "Chunked   " : "Single key"}: tick ${tick.averageTime.toFixed(2)} ms / ${Math.round(tick.averageBytes)} B, session ${session.averageTime.toFixed(2)} ms / ${Math.round(session.averageBytes)} B`
+      );
+    });
+  }
+
+  // Bytes written are deterministic and time is not, so time is allowed
+  // more headroom before it counts as growing. Ticks only add the list of
+  // stored months, so compare finished sessions.
+  const smallest = results[0];
+  const largest = results[results.length - 1];
+  const growth = (
+    layout: "singleKey" | "chunked",
+    measure: keyof StorageWriteCost
+  ) => largest[layout].session[measure] / smallest[layout].session[measure];
+
+  (["averageBytes", "averageTime"] as const).forEach((measure) => {
+    console.log(
+      `\n📈 ${measure === "averageBytes" ? "Bytes" : "Time"} growth from ${smallest.historySize} to ${largest.historySize} sessions: single key ${growth("singleKey", measure).toFixed(1)}x, chunked ${growth("chunked", measure).toFixed(1)}x`
+    );
+  });
+  const isFlat =
+    growth("chunked", "averageBytes") < 2 &&
+    growth("chunked", "averageTime") < 4;
+  console.log(
+    isFlat
+      ? "✅ Write size and time no longer grow with history size"
+      : "⚠️ Write size or time still grows with history size"
+  );
+
+  return results;
+}
+
 export default runPerformanceTests;
@@ -5,8 +5,12 @@ import {
   BreakActivity,
   RewardSystem,
   HyperfocusDetection,
+  DailyAggregate,
 } from "../types/timer";
-import { isToday, isThisWeek, startOfDay, differenceInHours } from "date-fns";
+import { differenceInHours } from "date-fns";
+import { getFocusedDuration } from "../utils/helpers";
+import { addDaysToKey, getDayKey } from "../utils/date-buckets";
+import { sumArchive } from "../utils/history-archive";
 
 /**
  * ADHD Support Service
@@ -100,7 +104,7 @@ export class ADHDSupportService {
 
   // Reward System
   public calculateSessionPoints(
-    duration: number,
+    duration: number, // Focused seconds of the ended session, only known at the end for count-up sessions
     completed: boolean,
     energyLevel?: number,
     moodState?: string,
@@ -191,6 +195,7 @@ export class ADHDSupportService {
   public checkAchievements(
     history: any[],
     rewardSystem: RewardSystem,
+    archive: DailyAggregate[] = [],
   ): Achievement[] {
     const newAchievements: Achievement[] = [];
     const unlockedIds = rewardSystem.achievements.map((a) => a.id);
@@ -204,20 +209,29 @@ export class ADHDSupportService {
 
       switch (achievement.id) {
         case "first-timer":
-          shouldUnlock = history.some((s) => s.completed);
+          shouldUnlock =
+            history.some((s) => s.completed) ||
+            sumArchive(archive).completedSessions > 0;
           break;
 
         case "energy-warrior":
-          shouldUnlock = history.some(
-            (s) => s.completed && s.energyLevel && s.energyLevel <= 2,
-          );
+          shouldUnlock =
+            history.some(
+              (s) => s.completed && s.energyLevel && s.energyLevel <= 2,
+            ) || archive.some((aggregate) => aggregate.lowEnergySessions > 0);
           break;
 
         case "struggle-champion":
           const strugglingCompletions = history.filter(
             (s) => s.completed && s.moodState === "struggling",
           ).length;
-          shouldUnlock = strugglingCompletions >= 5;
+          shouldUnlock =
+            strugglingCompletions +
+              archive.reduce(
+                (sum, aggregate) => sum + aggregate.strugglingSessions,
+                0,
+              ) >=
+            5;
           break;
 
         case "hyperfocus-master":
@@ -239,32 +253,33 @@ export class ADHDSupportService {
           shouldUnlock = maxConsecutive >= 3;
           break;
 
-        case "consistency-king":
+        case "consistency-king": {
           // Check for 7 consecutive days with completed sessions
-          const last7Days = Array.from({ length: 7 }, (_, i) => {
-            const date = new Date();
-            date.setDate(date.getDate() - i);
-            return startOfDay(date);
-          });
+          const todayKey = getDayKey(new Date());
+          const last7Days = Array.from({ length: 7 }, (_, i) =>
+            addDaysToKey(todayKey, -i),
+          );
 
-          shouldUnlock = last7Days.every((day) =>
-            history.some(
-              (s) =>
-                s.completed &&
-                startOfDay(new Date(s.startTime)).getTime() === day.getTime(),
-            ),
+          shouldUnlock = last7Days.every(
+            (day) =>
+              history.some(
+                (s) => s.completed && getDayKey(s.startTime) === day,
+              ) ||
+              archive.some(
+                (aggregate) =>
+                  aggregate.completedSessions > 0 && aggregate.date === day,
+              ),
           );
           break;
+        }
 
         case "marathon-runner":
-          const today = startOfDay(new Date());
+          const today = getDayKey(new Date());
           const todaysSessions = history.filter(
-            (s) =>
-              s.completed &&
-              startOfDay(new Date(s.startTime)).getTime() === today.getTime(),
+            (s) => s.completed && getDayKey(s.startTime) === today,
           );
           const totalTodayTime = todaysSessions.reduce(
-            (sum, s) => sum + s.duration,
+            (sum, s) => sum + getFocusedDuration(s),
             0,
           );
           shouldUnlock = totalTodayTime >= 4 * 60 * 60; // 4 hours in seconds
@@ -7,10 +7,47 @@ import {
 } from "../types/timer";
 import { useTimerStore } from "../store/timer-store";
 import { storageAdapter } from "../utils/storage-adapter";
-import { getSessionTypeLabel } from "../utils/helpers";
+import {
+  DateFieldSchema,
+  reviveDateFields,
+  SESSION_DATE_FIELDS,
+} from "../utils/zustand-storage";
+import { calculateStats } from "../store/slices/stats-slice";
+import { getStreakRules } from "../utils/streaks";
+import {
+  applyDurationAdjustment,
+  closeOpenPause,
+  getActualSessionDuration,
+  getFocusedDuration,
+  getSessionTypeLabel,
+  settleCountUpDuration,
+} from "../utils/helpers";
+import {
+  getLastWorkSession,
+  getTimerMethod,
+  TimerMethodContext,
+} from "../utils/timer-methods";
 import { adhdSupportService } from "./adhd-support-service";
 import { applicationTrackingService } from "./application-tracking-service";
 import { notificationService } from "./notification-service";
+import { TaskLink, taskService } from "./task-service";
+
+/**
+ * Timer state persisted to storage so the countdown survives the
+ * extension being closed and can be read by other commands
+ */
+export interface BackgroundTimerState {
+  session: TimerSession;
+  startTimestamp: number;
+  endTimestamp: number; // Equals startTimestamp for count-up sessions
+  state: TimerState;
+  pausedAt?: number;
+  timeRemainingWhenPaused?: number;
+}
+
+const BACKGROUND_TIMER_DATE_FIELDS: DateFieldSchema<BackgroundTimerState> = {
+  session: SESSION_DATE_FIELDS,
+};
 
 /**
  * Background timer service that manages timer state persistence
@@ -19,6 +56,7 @@ import { notificationService } from "./notification-service";
 export class BackgroundTimerService {
   private static instance: BackgroundTimerService;
   private readonly STORAGE_KEY = "background-timer-state";
+  private readonly MIN_TIME_AFTER_SHORTENING = 60; // in seconds
   private isInitializing = false;
 
   private constructor() {}
@@ -39,14 +77,18 @@ export class BackgroundTimerService {
   }
 
   /**
-   * Starts a timer session with timestamp-based tracking
+   * Starts a timer session with timestamp-based tracking.
+   * Work rounds use the focus period's work length when one was set, and are
+   * linked to the given task or to a known task with the same name.
    */
   public async startTimer(
     type: SessionType,
     taskName?: string,
     projectName?: string,
     tags?: string[],
-    taskIcon?: import("@raycast/api").Icon
+    taskIcon?: import("@raycast/api").Icon,
+    energyLevel?: 1 | 2 | 3 | 4 | 5,
+    taskLink?: TaskLink
   ): Promise<void> {
     // Prevent starting sessions during initialization to avoid unexpected auto-starts
     if (this.isInitializing) {
@@ -56,42 +98,60 @@ export class BackgroundTimerService {
       return;
     }
 
-    const { config } = useTimerStore.getState();
-
-    let duration: number;
-    switch (type) {
-      case SessionType.WORK:
-        duration = config.workDuration * 60;
+    const {
+      config,
+      timerMethod,
+      focusWorkDuration,
+      currentFocusPeriodSessionCount,
+      history,
+    } = useTimerStore.getState();
+    const method = getTimerMethod(timerMethod, config);
+    const durationOverride =
+      type === SessionType.WORK && focusWorkDuration !== null
+        ? focusWorkDuration
+        : undefined;
+
+    let duration = method.getSessionDuration(type, {
+      config,
+      completedWorkSessions: currentFocusPeriodSessionCount,
+      lastWorkSession: getLastWorkSession(history),
+    });
 
-        // Apply adaptive timer logic for work sessions if enabled
-        if (config.enableAdaptiveTimers) {
-          const currentSession = useTimerStore.getState().currentSession;
-          const energyLevel = currentSession?.energyLevel || 3;
-          const moodState = currentSession?.moodState || "neutral";
+    // Apply adaptive timer logic to Pomodoro work sessions if enabled
+    if (
+      durationOverride === undefined &&
+      type === SessionType.WORK &&
+      config.enableAdaptiveTimers &&
+      method.id === "pomodoro"
+    ) {
+      const currentSession = useTimerStore.getState().currentSession;
+      const moodState = currentSession?.moodState || "neutral";
+
+      const adaptiveResult = adhdSupportService.calculateAdaptiveDuration(
+        config.workDuration,
+        energyLevel || currentSession?.energyLevel || 3,
+        moodState,
+        config.adaptiveMode,
+        config.minWorkDuration,
+        config.maxWorkDuration
+      );
 
-          const adaptiveResult = adhdSupportService.calculateAdaptiveDuration(
-            config.workDuration,
-            energyLevel,
-            moodState,
-            config.adaptiveMode,
-            config.minWorkDuration,
-            config.maxWorkDuration
-          );
+      duration = adaptiveResult.duration * 60; // Convert to seconds
+    }
 
-          duration = adaptiveResult.duration * 60; // Convert to seconds
-        }
-        break;
-      case SessionType.SHORT_BREAK:
-        duration = config.shortBreakDuration * 60;
-        break;
-      case SessionType.LONG_BREAK:
-        duration = config.longBreakDuration * 60;
-        break;
-      default:
-        duration = config.workDuration * 60;
-        break;
+    if (durationOverride !== undefined) {
+      duration = durationOverride;
     }
 
+    const countUp =
+      durationOverride === undefined && (method.isCountUp?.(type) || false);
+
+    let link = taskLink;
+    if (!link && type === SessionType.WORK && taskName) {
+      await taskService.ready();
+      const knownTask = taskService.findTask(taskName, projectName);
+      link = knownTask ? taskService.getTaskLink(knownTask.id) : undefined;
+    }
     const now = new Date();
     const endTime = new Date(now.getTime() + duration * 1000);
 
@@ -103,12 +163,17 @@ export class BackgroundTimerService {
       completed: false,
       taskName,
       projectName,
+      taskId: link?.taskId,
+      projectId: link?.projectId,
       tags: tags || [],
       taskIcon,
+      energyLevel,
+      timerMethod,
+      countUp: countUp || undefined,
     };
 
     // Store background timer state
-    const backgroundState = {
+    const backgroundState: BackgroundTimerState = {
       session,
       startTimestamp: now.getTime(),
       endTimestamp: endTime.getTime(),
@@ -131,23 +196,29 @@ export class BackgroundTimerService {
   }
 
   /**
-   * Pauses the current timer
+   * Pauses the current timer and records the pause on the session
    */
-  public async pauseTimer(): Promise<void> {
+  public async pauseTimer(reason?: string): Promise<void> {
     const backgroundState = await this.loadBackgroundState();
     if (!backgroundState || backgroundState.state !== TimerState.RUNNING) {
       return;
     }
 
     const now = Date.now();
-    const timeRemaining = Math.max(
-      0,
-      Math.floor((backgroundState.endTimestamp - now) / 1000)
-    );
+    const timeRemaining = this.getTimeRemaining(backgroundState, now);
+
+    const session: TimerSession = {
+      ...backgroundState.session,
+      pauses: [
+        ...(backgroundState.session.pauses || []),
+        { startTime: new Date(now), reason },
+      ],
+    };
 
     // Update background state
-    const updatedState = {
+    const updatedState: BackgroundTimerState = {
       ...backgroundState,
+      session,
       state: TimerState.PAUSED,
       pausedAt: now,
       timeRemainingWhenPaused: timeRemaining,
@@ -157,6 +228,7 @@ export class BackgroundTimerService {
 
     // Update Zustand store
     useTimerStore.setState({
+      currentSession: session,
       state: TimerState.PAUSED,
       timeRemaining,
     });
@@ -172,12 +244,18 @@ export class BackgroundTimerService {
     }
 
     const now = Date.now();
-    const timeRemaining = backgroundState.timeRemainingWhenPaused || 0;
-    const newEndTimestamp = now + timeRemaining * 1000;
+    const session = closeOpenPause(backgroundState.session, new Date(now));
+    const timeRemaining = session.countUp
+      ? getActualSessionDuration(session)
+      : backgroundState.timeRemainingWhenPaused || 0;
+    const newEndTimestamp = session.countUp
+      ? backgroundState.endTimestamp
+      : now + timeRemaining * 1000;
 
     // Update background state
-    const updatedState = {
+    const updatedState: BackgroundTimerState = {
       ...backgroundState,
+      session,
       state: TimerState.RUNNING,
       endTimestamp: newEndTimestamp,
       pausedAt: undefined,
@@ -188,11 +266,72 @@ export class BackgroundTimerService {
 
     // Update Zustand store
     useTimerStore.setState({
+      currentSession: session,
       state: TimerState.RUNNING,
       timeRemaining,
     });
   }
 
+  /**
+   * Extends or shortens the current countdown by the given minutes, moving
+   * the persisted end timestamp and logging the adjustment on the session.
+   * Returns the seconds actually applied, which is less than requested when
+   * shortening would leave under a minute.
+   */
+  public async adjustTimer(
+    deltaMinutes: number,
+    reason?: string
+  ): Promise<number> {
+    const backgroundState = await this.loadBackgroundState();
+    if (!backgroundState || backgroundState.session.countUp) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const timeRemaining = this.getTimeRemaining(backgroundState, now);
+    const deltaSeconds =
+      deltaMinutes >= 0
+        ? deltaMinutes * 60
+        : -Math.min(
+            -deltaMinutes * 60,
+            Math.max(0, timeRemaining - this.MIN_TIME_AFTER_SHORTENING)
+          );
+
+    if (deltaSeconds === 0) {
+      return 0;
+    }
+
+    const minutesLabel = Math.round(Math.abs(deltaSeconds) / 60);
+    const session = applyDurationAdjustment(
+      backgroundState.session,
+      deltaSeconds,
+      reason ||
+        `${deltaSeconds > 0 ? "Extended" : "Shortened"} by ${minutesLabel} min`,
+      new Date(now)
+    );
+    const newTimeRemaining = timeRemaining + deltaSeconds;
+
+    const updatedState: BackgroundTimerState = {
+      ...backgroundState,
+      session,
+      endTimestamp: backgroundState.endTimestamp + deltaSeconds * 1000,
+      timeRemainingWhenPaused:
+        backgroundState.state === TimerState.PAUSED
+          ? newTimeRemaining
+          : backgroundState.timeRemainingWhenPaused,
+    };
+
+    await this.saveBackgroundState(updatedState);
+
+    // Update Zustand store
+    useTimerStore.setState({
+      currentSession: session,
+      timeRemaining: newTimeRemaining,
+    });
+
+    return deltaSeconds;
+  }
+
   /**
    * Stops the current timer
    */
@@ -204,6 +343,56 @@ export class BackgroundTimerService {
     await this.clearBackgroundState();
   }
 
+  /**
+   * Skips the current session and starts the next one in the cycle
+   */
+  public async skipTimer(): Promise<void> {
+    const backgroundState = await this.loadBackgroundState();
+    if (!backgroundState) {
+      return;
+    }
+
+    const { currentFocusPeriodSessionCount, config, history } =
+      useTimerStore.getState();
+    const skippedType = backgroundState.session.type;
+
+    // Discard any usage captured for the skipped session
+    if (applicationTrackingService.isCurrentlyTracking()) {
+      applicationTrackingService.stopTracking();
+    }
+
+    useTimerStore.getState().skipSession();
+    await this.clearBackgroundState();
+
+    const nextSessionType = this.getNextSessionType(skippedType, {
+      config,
+      completedWorkSessions: currentFocusPeriodSessionCount,
+      lastWorkSession: getLastWorkSession(history),
+    });
+
+    await this.startTimer(nextSessionType);
+    await notificationService.notifySessionStart(nextSessionType);
+  }
+
+  /**
+   * Returns the persisted timer state together with the seconds left,
+   * without touching the Zustand store
+   */
+  public async getBackgroundState(): Promise<{
+    backgroundState: BackgroundTimerState;
+    timeRemaining: number;
+  } | null> {
+    const backgroundState = await this.loadBackgroundState();
+    if (!backgroundState) {
+      return null;
+    }
+
+    return {
+      backgroundState,
+      timeRemaining: this.getTimeRemaining(backgroundState, Date.now()),
+    };
+  }
+
   /**
    * Manually completes the current timer session
    */
@@ -245,7 +434,7 @@ export class BackgroundTimerService {
 
       if (backgroundState.state === TimerState.PAUSED) {
         // Timer is paused, use stored remaining time
-        const timeRemaining = backgroundState.timeRemainingWhenPaused || 0;
+        const timeRemaining = this.getTimeRemaining(backgroundState, now);
         useTimerStore.setState({
           currentSession: backgroundState.session,
           state: TimerState.PAUSED,
@@ -255,15 +444,14 @@ export class BackgroundTimerService {
       }
 
       if (backgroundState.state === TimerState.RUNNING) {
-        const timeRemaining = Math.max(
-          0,
-          Math.floor((backgroundState.endTimestamp - now) / 1000)
-        );
+        const timeRemaining = this.getTimeRemaining(backgroundState, now);
 
-        if (timeRemaining <= 0) {
+        // Count-up sessions have no end, so they only finish when ended by the user
+        if (!backgroundState.session.countUp && timeRemaining <= 0) {
           // Timer completed during background - handle completion WITHOUT auto-start
           await this.handleTimerCompletionDuringRestore(
-            backgroundState.session
+            backgroundState.session,
+            new Date(backgroundState.endTimestamp)
           );
         } else {
           // Timer still running
@@ -285,10 +473,15 @@ export class BackgroundTimerService {
    * This prevents unexpected session starts when opening the extension
    */
   private async handleTimerCompletionDuringRestore(
-    session: TimerSession
+    session: TimerSession,
+    endTime: Date
   ): Promise<void> {
-    const { history, sessionCount, currentFocusPeriodSessionCount } =
-      useTimerStore.getState();
+    const {
+      history,
+      historyArchive,
+      sessionCount,
+      currentFocusPeriodSessionCount,
+    } = useTimerStore.getState();
 
     // Stop application tracking and capture usage data if it was a work session
     let applicationUsage = undefined;
@@ -299,13 +492,14 @@ export class BackgroundTimerService {
       applicationUsage = applicationTrackingService.stopTracking();
     }
 
-    const completedSession: TimerSession = {
-      ...session,
-      endTime: new Date(),
+    const completedSession: TimerSession = settleCountUpDuration({
+      ...closeOpenPause(session, endTime),
+      // The session ended when the countdown ran out, not when it was restored
+      endTime,
       completed: true,
       endReason: SessionEndReason.COMPLETED,
       applicationUsage,
-    };
+    });
 
     // Check if session should be saved to history based on duration
     const {
@@ -331,57 +525,6 @@ export class BackgroundTimerService {
     // Clear background state
     await this.clearBackgroundState();
 
-    // Calculate updated stats (reuse the same logic)
-    const calculateStats = (history: TimerSession[]) => {
-      const completedSessions = history.filter((s) => s.completed);
-      const workSessions = completedSessions.filter(
-        (s) => s.type === SessionType.WORK
-      );
-      const breakSessions = completedSessions.filter(
-        (s) => s.type !== SessionType.WORK
-      );
-
-      const totalWorkTime = workSessions.reduce(
-        (acc, session) => acc + session.duration,
-        0
-      );
-      const totalBreakTime = breakSessions.reduce(
-        (acc, session) => acc + session.duration,
-        0
-      );
-
-      const todaysSessions = completedSessions.filter((s) => {
-        const sessionDate = new Date(s.startTime);
-        const today = new Date();
-        return sessionDate.toDateString() === today.toDateString();
-      }).length;
-
-      const thisWeek = new Date();
-      thisWeek.setDate(thisWeek.getDate() - thisWeek.getDay());
-      const weekSessions = completedSessions.filter((s) => {
-        const sessionDate = new Date(s.startTime);
-        return sessionDate >= thisWeek;
-      }).length;
-
-      const thisMonth = new Date();
-      thisMonth.setDate(1);
-      const monthSessions = completedSessions.filter((s) => {
-        const sessionDate = new Date(s.startTime);
-        return sessionDate >= thisMonth;
-      }).length;
-
-      return {
-        totalSessions: history.length,
-        completedSessions: completedSessions.length,
-        totalWorkTime,
-        totalBreakTime,
-        streakCount: 0, // Simplified for now
-        todaysSessions,
-        weekSessions,
-        monthSessions,
-      };
-    };
-
     // Update store - go directly to IDLE state (no auto-start during restore)
     useTimerStore.setState({
       currentSession: null,
@@ -390,7 +533,11 @@ export class BackgroundTimerService {
       history: newHistory,
       sessionCount: newSessionCount,
       currentFocusPeriodSessionCount: newFocusPeriodSessionCount,
-      stats: calculateStats(newHistory),
+      stats: calculateStats(
+        newHistory,
+        historyArchive,
+        getStreakRules(useTimerStore.getState())
+      ),
       isPostSessionMoodPromptVisible: false,
       lastCompletedSession: shouldSave ? completedSession : null,
     });
@@ -410,7 +557,7 @@ export class BackgroundTimerService {
     if (updatedState.config.enableRewardSystem) {
       // Calculate and award points
       const points = adhdSupportService.calculateSessionPoints(
-        completedSession.duration,
+        getFocusedDuration(completedSession),
         true,
         completedSession.energyLevel,
         completedSession.moodState
@@ -427,6 +574,11 @@ export class BackgroundTimerService {
       updatedState.checkHyperfocus();
     }
 
+    // Count the finished round towards the task it was started for
+    if (shouldSave) {
+      await taskService.recordSessionForTask(completedSession);
+    }
+
     // NO AUTO-START during restore - always go to idle state
     console.log(
       "[BackgroundTimerService] Session completed during restore, going to idle state (no auto-start)"
@@ -437,8 +589,13 @@ export class BackgroundTimerService {
    * Handles timer completion (with auto-start logic for real-time completions)
    */
   private async handleTimerCompletion(session: TimerSession): Promise<void> {
-    const { history, sessionCount, currentFocusPeriodSessionCount, config } =
-      useTimerStore.getState();
+    const {
+      history,
+      historyArchive,
+      sessionCount,
+      currentFocusPeriodSessionCount,
+      config,
+    } = useTimerStore.getState();
 
     // Store session type for auto-start logic
     const completedSessionType = session.type;
@@ -452,13 +609,14 @@ export class BackgroundTimerService {
       applicationUsage = applicationTrackingService.stopTracking();
     }
 
-    const completedSession: TimerSession = {
-      ...session,
-      endTime: new Date(),
+    const endTime = new Date();
+    const completedSession: TimerSession = settleCountUpDuration({
+      ...closeOpenPause(session, endTime),
+      endTime,
       completed: true,
       endReason: SessionEndReason.COMPLETED,
       applicationUsage,
-    };
+    });
 
     // Check if session should be saved to history based on duration
     const {
@@ -484,57 +642,6 @@ export class BackgroundTimerService {
     // Clear background state
     await this.clearBackgroundState();
 
-    // Calculate updated stats
-    const calculateStats = (history: TimerSession[]) => {
-      const completedSessions = history.filter((s) => s.completed);
-      const workSessions = completedSessions.filter(
-        (s) => s.type === SessionType.WORK
-      );
-      const breakSessions = completedSessions.filter(
-        (s) => s.type !== SessionType.WORK
-      );
-
-      const totalWorkTime = workSessions.reduce(
-        (acc, session) => acc + session.duration,
-        0
-      );
-      const totalBreakTime = breakSessions.reduce(
-        (acc, session) => acc + session.duration,
-        0
-      );
-
-      const todaysSessions = completedSessions.filter((s) => {
-        const sessionDate = new Date(s.startTime);
-        const today = new Date();
-        return sessionDate.toDateString() === today.toDateString();
-      }).length;
-
-      const thisWeek = new Date();
-      thisWeek.setDate(thisWeek.getDate() - thisWeek.getDay());
-      const weekSessions = completedSessions.filter((s) => {
-        const sessionDate = new Date(s.startTime);
-        return sessionDate >= thisWeek;
-      }).length;
-
-      const thisMonth = new Date();
-      thisMonth.setDate(1);
-      const monthSessions = completedSessions.filter((s) => {
-        const sessionDate = new Date(s.startTime);
-        return sessionDate >= thisMonth;
-      }).length;
-
-      return {
-        totalSessions: history.length,
-        completedSessions: completedSessions.length,
-        totalWorkTime,
-        totalBreakTime,
-        streakCount: 0, // Simplified for now
-        todaysSessions,
-        weekSessions,
-        monthSessions,
-      };
-    };
-
     // Update store
     useTimerStore.setState({
       currentSession: null,
@@ -543,7 +650,11 @@ export class BackgroundTimerService {
       history: newHistory,
       sessionCount: newSessionCount,
       currentFocusPeriodSessionCount: newFocusPeriodSessionCount,
-      stats: calculateStats(newHistory),
+      stats: calculateStats(
+        newHistory,
+        historyArchive,
+        getStreakRules(useTimerStore.getState())
+      ),
       // Remove mood prompt to fix timer stop bug
       isPostSessionMoodPromptVisible: false,
       lastCompletedSession: shouldSave ? completedSession : null,
@@ -564,7 +675,7 @@ export class BackgroundTimerService {
     if (updatedState.config.enableRewardSystem) {
       // Calculate and award points
       const points = adhdSupportService.calculateSessionPoints(
-        completedSession.duration,
+        getFocusedDuration(completedSession),
         true,
         completedSession.energyLevel,
         completedSession.moodState
@@ -581,6 +692,11 @@ export class BackgroundTimerService {
       updatedState.checkHyperfocus();
     }
 
+    // Count the finished round towards the task it was started for
+    if (shouldSave) {
+      await taskService.recordSessionForTask(completedSession);
+    }
+
     // Auto-start next session if enabled AND not during initialization
     const shouldAutoStart = this.shouldAutoStartNext(
       completedSessionType,
@@ -588,11 +704,11 @@ export class BackgroundTimerService {
     );
 
     if (shouldAutoStart && !this.isInitializing) {
-      const nextSessionType = this.getNextSessionType(
-        completedSessionType,
-        currentFocusPeriodSessionCount,
-        config
-      );
+      const nextSessionType = this.getNextSessionType(completedSessionType, {
+        config,
+        completedWorkSessions: currentFocusPeriodSessionCount,
+        lastWorkSession: getLastWorkSession(newHistory),
+      });
 
       console.log(
         `[BackgroundTimerService] Auto-starting ${nextSessionType} session after completion`
@@ -634,28 +750,49 @@ export class BackgroundTimerService {
   }
 
   /**
-   * Gets the next session type based on the completed session
+   * Gets the next session type from the focus period's timer method.
+   * The context carries the work count from before the session ended.
    */
   private getNextSessionType(
     completedType: SessionType,
-    currentFocusPeriodSessionCount: number,
-    config: TimerConfig
+    context: TimerMethodContext
   ): SessionType {
-    if (completedType === SessionType.WORK) {
-      // Determine if it should be a long break or short break
-      const isLongBreakTime =
-        (currentFocusPeriodSessionCount + 1) % config.longBreakInterval === 0;
-      return isLongBreakTime ? SessionType.LONG_BREAK : SessionType.SHORT_BREAK;
-    } else {
-      // After any break, return to work
-      return SessionType.WORK;
+    const { timerMethod } = useTimerStore.getState();
+    const completedWorkSessions =
+      completedType === SessionType.WORK
+        ? context.completedWorkSessions + 1
+        : context.completedWorkSessions;
+
+    return getTimerMethod(timerMethod, context.config).getNextSessionType(
+      completedType,
+      { ...context, completedWorkSessions }
+    );
+  }
+
+  /**
+   * Seconds left on a countdown, or seconds focused so far on a count-up session
+   */
+  private getTimeRemaining(
+    backgroundState: BackgroundTimerState,
+    now: number
+  ): number {
+    if (backgroundState.session.countUp) {
+      return getActualSessionDuration(backgroundState.session);
     }
+
+    if (backgroundState.state === TimerState.PAUSED) {
+      return backgroundState.timeRemainingWhenPaused || 0;
+    }
+
+    return Math.max(0, Math.floor((backgroundState.endTimestamp - now) / 1000));
   }
 
   /**
    * Saves background timer state to storage
    */
-  private async saveBackgroundState(state: any): Promise<void> {
+  private async saveBackgroundState(
+    state: BackgroundTimerState
+  ): Promise<void> {
     try {
       await storageAdapter.setItem(this.STORAGE_KEY, JSON.stringify(state));
     } catch (error) {
@@ -666,10 +803,12 @@ export class BackgroundTimerService {
   /**
    * Loads background timer state from storage
    */
-  private async loadBackgroundState(): Promise<any> {
+  private async loadBackgroundState(): Promise<BackgroundTimerState | null> {
     try {
       const stored = await storageAdapter.getItem(this.STORAGE_KEY);
-      return stored ? JSON.parse(stored) : null;
+      return stored
+        ? reviveDateFields(JSON.parse(stored), BACKGROUND_TIMER_DATE_FIELDS)
+        : null;
     } catch (error) {
       console.error("Failed to load background timer state:", error);
       return null;
@@ -1,14 +1,25 @@
-import { TimerSession, TimerStats } from "../types/timer";
+import {
+  DailyAggregate,
+  DetailedStats,
+  StreakRules,
+  TimerSession,
+  TimerStats,
+} from "../types/timer";
 import { useTimerStore } from "../store/timer-store";
+import { calculateStats } from "../store/slices/stats-slice";
+import {
+  getDayRange,
+  getMonthRange,
+  getWeekRange,
+} from "../utils/date-buckets";
+import { statsEngine } from "../utils/stats-engine";
+import { getStreakRules } from "../utils/streaks";
 import {
-  format,
-  startOfDay,
-  endOfDay,
-  startOfWeek,
-  endOfWeek,
-  startOfMonth,
-  endOfMonth,
-} from "date-fns";
+  DateFieldSchema,
+  reviveDateFields,
+  SESSION_DATE_FIELDS,
+} from "../utils/zustand-storage";
+import { buildExportRecords, formatRecordsAsCSV } from "./export";
 
 export interface ExportData {
   sessions: TimerSession[];
@@ -17,6 +28,10 @@ export interface ExportData {
   version: string;
 }
 
+const EXPORT_DATA_DATE_FIELDS: DateFieldSchema<ExportData> = {
+  sessions: SESSION_DATE_FIELDS,
+};
+
 export interface DateRange {
   start: Date;
   end: Date;
@@ -39,191 +54,29 @@ export class DataService {
     range: DateRange,
   ): TimerSession[] {
     return sessions.filter((session) => {
-      const sessionDate = new Date(session.startTime);
+      const sessionDate = session.startTime;
       return sessionDate >= range.start && sessionDate <= range.end;
     });
   }
 
   public getSessionsForToday(sessions: TimerSession[]): TimerSession[] {
-    const today = new Date();
-    return this.getSessionsInRange(sessions, {
-      start: startOfDay(today),
-      end: endOfDay(today),
-    });
+    return this.getSessionsInRange(sessions, getDayRange());
   }
 
   public getSessionsForWeek(sessions: TimerSession[]): TimerSession[] {
-    const today = new Date();
-    return this.getSessionsInRange(sessions, {
-      start: startOfWeek(today, { weekStartsOn: 1 }), // Monday
-      end: endOfWeek(today, { weekStartsOn: 1 }),
-    });
+    return this.getSessionsInRange(sessions, getWeekRange());
   }
 
   public getSessionsForMonth(sessions: TimerSession[]): TimerSession[] {
-    const today = new Date();
-    return this.getSessionsInRange(sessions, {
-      start: startOfMonth(today),
-      end: endOfMonth(today),
-    });
-  }
-
-  public calculateDetailedStats(sessions: TimerSession[]): TimerStats & {
-    averageSessionLength: number;
-    completionRate: number;
-    mostProductiveHour: number;
-    mostProductiveDay: string;
-    longestStreak: number;
-  } {
-    const completedSessions = sessions.filter((s) => s.completed);
-    const workSessions = completedSessions.filter((s) => s.type === "work");
-
-    // Basic stats
-    const totalWorkTime = workSessions.reduce(
-      (acc, session) => acc + session.duration,
-      0,
-    );
-    const totalBreakTime = completedSessions
-      .filter((s) => s.type !== "work")
-      .reduce((acc, session) => acc + session.duration, 0);
-
-    // Advanced calculations
-    const averageSessionLength =
-      workSessions.length > 0 ? totalWorkTime / workSessions.length / 60 : 0;
-
-    const completionRate =
-      sessions.length > 0
-        ? (completedSessions.length / sessions.length) * 100
-        : 0;
-
-    // Most productive hour (0-23)
-    const hourCounts = new Array(24).fill(0);
-    workSessions.forEach((session) => {
-      const hour = new Date(session.startTime).getHours();
-      hourCounts[hour]++;
-    });
-    const mostProductiveHour = hourCounts.indexOf(Math.max(...hourCounts));
-
-    // Most productive day of week
-    const dayCounts = new Array(7).fill(0);
-    const dayNames = [
-      "Sunday",
-      "Monday",
-      "Tuesday",
-      "Wednesday",
-      "Thursday",
-      "Friday",
-      "Saturday",
-    ];
-    workSessions.forEach((session) => {
-      const day = new Date(session.startTime).getDay();
-      dayCounts[day]++;
-    });
-    const mostProductiveDayIndex = dayCounts.indexOf(Math.max(...dayCounts));
-    const mostProductiveDay = dayNames[mostProductiveDayIndex];
-
-    // Calculate streak
-    const longestStreak = this.calculateLongestStreak(completedSessions);
-
-    // Time-based stats
-    const todaysSessions = this.getSessionsForToday(completedSessions).length;
-    const weekSessions = this.getSessionsForWeek(completedSessions).length;
-    const monthSessions = this.getSessionsForMonth(completedSessions).length;
-
-    return {
-      totalSessions: sessions.length,
-      completedSessions: completedSessions.length,
-      totalWorkTime,
-      totalBreakTime,
-      streakCount: this.calculateCurrentStreak(completedSessions),
-      todaysSessions,
-      weekSessions,
-      monthSessions,
-      averageSessionLength,
-      completionRate,
-      mostProductiveHour,
-      mostProductiveDay,
-      longestStreak,
-    };
-  }
-
-  private calculateCurrentStreak(sessions: TimerSession[]): number {
-    if (sessions.length === 0) return 0;
-
-    const sessionsByDate = this.groupSessionsByDate(sessions);
-    const sortedDates = Object.keys(sessionsByDate).sort(
-      (a, b) => new Date(b).getTime() - new Date(a).getTime(),
-    );
-
-    let streak = 0;
-    const today = new Date().toDateString();
-
-    for (const dateStr of sortedDates) {
-      const date = new Date(dateStr);
-      const daysDiff = Math.floor(
-        (new Date(today).getTime() - date.getTime()) / (1000 * 60 * 60 * 24),
-      );
-
-      if (daysDiff === streak) {
-        streak++;
-      } else if (daysDiff > streak) {
-        break;
-      }
-    }
-
-    return streak;
-  }
-
-  private calculateLongestStreak(sessions: TimerSession[]): number {
-    if (sessions.length === 0) return 0;
-
-    const sessionsByDate = this.groupSessionsByDate(sessions);
-    const sortedDates = Object.keys(sessionsByDate).sort(
-      (a, b) => new Date(a).getTime() - new Date(b).getTime(),
-    );
-
-    let longestStreak = 0;
-    let currentStreak = 0;
-    let lastDate: Date | null = null;
-
-    for (const dateStr of sortedDates) {
-      const currentDate = new Date(dateStr);
-
-      if (lastDate === null) {
-        currentStreak = 1;
-      } else {
-        const daysDiff = Math.floor(
-          (currentDate.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24),
-        );
-
-        if (daysDiff === 1) {
-          currentStreak++;
-        } else {
-          longestStreak = Math.max(longestStreak, currentStreak);
-          currentStreak = 1;
-        }
-      }
-
-      lastDate = currentDate;
-    }
-
-    return Math.max(longestStreak, currentStreak);
+    return this.getSessionsInRange(sessions, getMonthRange());
   }
 
-  private groupSessionsByDate(
+  public calculateDetailedStats(
     sessions: TimerSession[],
-  ): Record<string, TimerSession[]> {
-    const groups: Record<string, TimerSession[]> = {};
-
-    sessions.forEach((session) => {
-      const dateKey = new Date(session.startTime).toDateString();
-      if (!groups[dateKey]) {
-        groups[dateKey] = [];
-      }
-      groups[dateKey].push(session);
-    });
-
-    return groups;
+    archive: DailyAggregate[] = [],
+    streakRules?: StreakRules,
+  ): DetailedStats {
+    return statsEngine.sync(sessions, archive, streakRules).getDetailedStats();
   }
 
   public exportData(): ExportData {
@@ -243,44 +96,22 @@ export class DataService {
   }
 
   public exportDataAsCSV(): string {
-    const state = useTimerStore.getState();
-    const sessions = state.history;
-
-    const headers = [
-      "Date",
-      "Start Time",
-      "End Time",
-      "Type",
-      "Duration (minutes)",
-      "Completed",
-      "Task",
-      "Project",
-    ];
-
-    const rows = sessions.map((session) => [
-      format(new Date(session.startTime), "yyyy-MM-dd"),
-      format(new Date(session.startTime), "HH:mm:ss"),
-      session.endTime ? format(new Date(session.endTime), "HH:mm:ss") : "",
-      session.type,
-      Math.round(session.duration / 60),
-      session.completed ? "Yes" : "No",
-      session.taskName || "",
-      session.projectName || "",
-    ]);
-
-    return [headers, ...rows]
-      .map((row) => row.map((cell) => `"${cell}"`).join(","))
-      .join("\n");
+    const { history, moodEntries } = useTimerStore.getState();
+    return formatRecordsAsCSV(buildExportRecords(history, moodEntries));
   }
 
   public importData(jsonData: string): boolean {
     try {
-      const data: ExportData = JSON.parse(jsonData);
+      const parsed: ExportData = JSON.parse(jsonData);
 
       // Validate data structure
-      if (!data.sessions || !Array.isArray(data.sessions)) {
+      if (!parsed.sessions || !Array.isArray(parsed.sessions)) {
         throw new Error("Invalid data format: sessions array missing");
       }
+      const data = reviveDateFields<ExportData>(
+        parsed,
+        EXPORT_DATA_DATE_FIELDS,
+      );
 
       // Merge with existing data
       const currentState = useTimerStore.getState();
@@ -292,7 +123,11 @@ export class DataService {
       const mergedHistory = [...currentState.history, ...newSessions];
 
       // Recalculate stats
-      const newStats = this.calculateDetailedStats(mergedHistory);
+      const newStats = calculateStats(
+        mergedHistory,
+        currentState.historyArchive,
+        getStreakRules(currentState),
+      );
 
       // Update store
       useTimerStore.setState({
@@ -307,20 +142,8 @@ export class DataService {
     }
   }
 
-  public clearAllData(): void {
-    useTimerStore.setState({
-      history: [],
-      stats: {
-        totalSessions: 0,
-        completedSessions: 0,
-        totalWorkTime: 0,
-        totalBreakTime: 0,
-        streakCount: 0,
-        todaysSessions: 0,
-        weekSessions: 0,
-        monthSessions: 0,
-      },
-    });
+  public clearAllData(): string | null {
+    return useTimerStore.getState().clearAllHistory();
   }
 
   public getDataSummary(): {
@@ -334,16 +157,12 @@ export class DataService {
 
     const oldestSession =
       sessions.length > 0
-        ? new Date(
-            Math.min(...sessions.map((s) => new Date(s.startTime).getTime())),
-          )
+        ? new Date(Math.min(...sessions.map((s) => s.startTime.getTime())))
         : null;
 
     const newestSession =
       sessions.length > 0
-        ? new Date(
-            Math.max(...sessions.map((s) => new Date(s.startTime).getTime())),
-          )
+        ? new Date(Math.max(...sessions.map((s) => s.startTime.getTime())))
         : null;
 
     const dataSize = new Blob([JSON.stringify(state)]).size;
@@ -0,0 +1,486 @@
+import { format } from "date-fns";
+import {
+  MoodEntry,
+  SessionEndReason,
+  SessionType,
+  TimerSession,
+} from "../../types/timer";
+import { getDayFromKey, getDayKey } from "../../utils/date-buckets";
+import {
+  formatDuration,
+  getFocusedDuration,
+  getPausedDuration,
+  getSessionEndTime,
+  getSessionTypeLabel,
+  groupMoodsBySession,
+} from "../../utils/helpers";
+import { ExportFilters, ExportFormat, ExportRecord } from "./export-types";
+
+/**
+ * Serializers turning export records into CSV, NDJSON, iCalendar and
+ * Markdown text. These are pure so they can be reused by DataService.
+ */
+
+const ICS_PRODUCT_ID = "-//Raycast Pomodoro//Focus Export//EN";
+const ICS_UID_DOMAIN = "raycast-pomodoro";
+
+/**
+ * Derive focused and paused time and link mood entries for each session
+ */
+export const buildExportRecords = (
+  sessions: TimerSession[],
+  moodEntries: MoodEntry[],
+): ExportRecord[] => {
+  const moodsBySession = groupMoodsBySession(moodEntries);
+
+  return sessions.map((session) => ({
+    session,
+    focusedSeconds: getFocusedDuration(session),
+    pausedSeconds: getPausedDuration(session),
+    moods: moodsBySession.get(session.id) || [],
+  }));
+};
+
+/**
+ * Summarize filters, e.g. "Jan 1, 2025 – Jan 31, 2025 • #work • @acme"
+ */
+export const describeExportFilters = (filters: ExportFilters): string => {
+  const start = filters.startDate && format(filters.startDate, "MMM d, yyyy");
+  const end = filters.endDate && format(filters.endDate, "MMM d, yyyy");
+  const range =
+    start && end
+      ? `${start} – ${end}`
+      : start
+        ? `Since ${start}`
+        : end
+          ? `Until ${end}`
+          : "All time";
+
+  return [
+    range,
+    filters.tag ? `#${filters.tag}` : "",
+    filters.project ? `@${filters.project}` : "",
+  ]
+    .filter(Boolean)
+    .join(" • ");
+};
+
+const getOutcomeLabel = (session: TimerSession): string => {
+  switch (session.endReason) {
+    case SessionEndReason.COMPLETED:
+      return "Completed";
+    case SessionEndReason.SKIPPED:
+      return "Skipped";
+    case SessionEndReason.STOPPED:
+      return "Stopped";
+    default:
+      return session.completed ? "Completed" : "Stopped";
+  }
+};
+
+const toMinutes = (seconds: number): number =>
+  Math.round((seconds / 60) * 10) / 10;
+
+const formatMoods = (moods: MoodEntry[]): string =>
+  moods
+    .map((entry) => `${entry.mood} ${entry.intensity}/5 (${entry.context})`)
+    .join("; ");
+
+const formatAppUsage = (session: TimerSession): string =>
+  (session.applicationUsage || [])
+    .map(
+      (app) =>
+        `${app.name} ${formatDuration(app.timeSpent)} (${Math.round(app.percentage)}%)`,
+    )
+    .join("; ");
+
+// CSV
+
+const CSV_HEADERS = [
+  "ID",
+  "Date",
+  "Start Time",
+  "End Time",
+  "Type",
+  "Planned (minutes)",
+  "Focused (minutes)",
+  "Paused (minutes)",
+  "Completed",
+  "End Reason",
+  "Task",
+  "Project",
+  "Tags",
+  "Notes",
+  "Moods",
+  "Energy Level",
+  "Mood State",
+  "Focus Quality",
+  "App Usage",
+  "Manually Added",
+  "Reward Points",
+];
+
+/**
+ * Quote a cell when it contains a comma, quote or line break, doubling
+ * embedded quotes (RFC 4180)
+ */
+const escapeCSVCell = (value: string | number | undefined): string => {
+  if (value === undefined) return "";
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per session with every field, using CRLF row endings
+ */
+export const formatRecordsAsCSV = (records: ExportRecord[]): string => {
+  const rows = records.map(
+    ({ session, focusedSeconds, pausedSeconds, moods }) => {
+      const startTime = session.startTime;
+
+      return [
+        session.id,
+        format(startTime, "yyyy-MM-dd"),
+        format(startTime, "yyyy-MM-dd HH:mm:ss"),
+        session.endTime
+          ? format(session.endTime, "yyyy-MM-dd HH:mm:ss")
+          : undefined,
+        session.type,
+        toMinutes(session.duration),
+        toMinutes(focusedSeconds),
+        toMinutes(pausedSeconds),
+        session.completed ? "Yes" : "No",
+        session.endReason,
+        session.taskName,
+        session.projectName,
+        (session.tags || []).join("; "),
+        session.notes,
+        formatMoods(moods),
+        session.energyLevel,
+        session.moodState,
+        session.focusQuality,
+        formatAppUsage(session),
+        session.manuallyAdded ? "Yes" : "No",
+        session.rewardPoints,
+      ];
+    },
+  );
+
+  return [CSV_HEADERS, ...rows]
+    .map((row) => row.map(escapeCSVCell).join(","))
+    .join("\r\n");
+};
+
+// NDJSON
+
+/**
+ * One JSON object per line: the stored session plus derived times and moods
+ */
+export const formatRecordsAsNDJSON = (records: ExportRecord[]): string =>
+  records
+    .map(({ session, focusedSeconds, pausedSeconds, moods }) =>
+      JSON.stringify({ ...session, focusedSeconds, pausedSeconds, moods }),
+    )
+    .join("\n");
+
+// iCalendar
+
+/**
+ * UTC date-time, e.g. 20250101T093000Z
+ */
+const formatICSDate = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const escapeICSText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Fold content lines longer than 75 octets onto continuation lines that
+ * start with a space (RFC 5545 section 3.1)
+ */
+const foldICSLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+  let limit = 75;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+      limit = 74; // Leading space of the continuation line counts too
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+};
+
+const getEventDescription = ({
+  session,
+  focusedSeconds,
+  pausedSeconds,
+  moods,
+}: ExportRecord): string =>
+  [
+    `${getSessionTypeLabel(session.type)} • ${getOutcomeLabel(session)}`,
+    `Focused: ${formatDuration(focusedSeconds)}`,
+    pausedSeconds > 0 ? `Paused: ${formatDuration(pausedSeconds)}` : "",
+    session.projectName ? `Project: ${session.projectName}` : "",
+    session.tags?.length
+      ? `Tags: ${session.tags.map((tag) => `#${tag}`).join(" ")}`
+      : "",
+    moods.length > 0 ? `Mood: ${formatMoods(moods)}` : "",
+    session.energyLevel ? `Energy: ${session.energyLevel}/5` : "",
+    session.applicationUsage?.length ? `Apps: ${formatAppUsage(session)}` : "",
+    session.notes ? `\n${session.notes}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * A calendar with one VEVENT per session
+ */
+export const formatRecordsAsICS = (
+  records: ExportRecord[],
+  generatedAt: Date = new Date(),
+): string => {
+  const events = records.flatMap((record) => {
+    const { session } = record;
+    const summary =
+      session.type === SessionType.WORK && session.taskName
+        ? session.taskName
+        : getSessionTypeLabel(session.type);
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${session.id}@${ICS_UID_DOMAIN}`,
+      `DTSTAMP:${formatICSDate(generatedAt)}`,
+      `DTSTART:${formatICSDate(session.startTime)}`,
+      `DTEND:${formatICSDate(getSessionEndTime(session))}`,
+      `SUMMARY:${escapeICSText(summary)}`,
+      `DESCRIPTION:${escapeICSText(getEventDescription(record))}`,
+      ...(session.tags?.length
+        ? [`CATEGORIES:${session.tags.map(escapeICSText).join(",")}`]
+        : []),
+      "TRANSP:OPAQUE",
+      "END:VEVENT",
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICS_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Focus Sessions",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldICSLine)
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+// Markdown
+
+const escapeMarkdownCell = (text: string): string =>
+  text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+const markdownTable = (headers: string[], rows: string[][]): string =>
+  [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeMarkdownCell).join(" | ")} |`),
+  ].join("\n");
+
+/**
+ * Total sessions and focused work time per key, busiest first
+ */
+const getTotalsBy = (
+  records: ExportRecord[],
+  getKeys: (session: TimerSession) => string[],
+): string[][] => {
+  const totals = new Map<string, { sessions: number; focusSeconds: number }>();
+  records.forEach(({ session, focusedSeconds }) => {
+    if (session.type !== SessionType.WORK) return;
+
+    getKeys(session).forEach((key) => {
+      const total = totals.get(key) || { sessions: 0, focusSeconds: 0 };
+      total.sessions += 1;
+      total.focusSeconds += focusedSeconds;
+      totals.set(key, total);
+    });
+  });
+
+  return Array.from(totals.entries())
+    .sort(([, a], [, b]) => b.focusSeconds - a.focusSeconds)
+    .map(([key, total]) => [
+      key,
+      `${total.sessions}`,
+      formatDuration(total.focusSeconds),
+    ]);
+};
+
+/**
+ * A readable report with summary totals, project and tag breakdowns and
+ * every session grouped by day
+ */
+export const formatRecordsAsMarkdown = (
+  records: ExportRecord[],
+  filters: ExportFilters = {},
+  generatedAt: Date = new Date(),
+): string => {
+  const workRecords = records.filter(
+    ({ session }) => session.type === SessionType.WORK,
+  );
+  const completed = records.filter(({ session }) => session.completed).length;
+  const focusSeconds = workRecords.reduce(
+    (total, record) => total + record.focusedSeconds,
+    0,
+  );
+  const breakSeconds = records
+    .filter(({ session }) => session.type !== SessionType.WORK)
+    .reduce((total, record) => total + record.focusedSeconds, 0);
+  const moods = records.flatMap((record) => record.moods);
+  const averageMood =
+    moods.length > 0
+      ? `${Math.round((moods.reduce((sum, entry) => sum + entry.intensity, 0) / moods.length) * 10) / 10}/5`
+      : "–";
+
+  const lines = [
+    "# Focus Report",
+    "",
+    `${describeExportFilters(filters)} • Generated ${format(generatedAt, "MMM d, yyyy 'at' HH:mm")}`,
+    "",
+    "## Summary",
+    "",
+    markdownTable(
+      [
+        "Sessions",
+        "Completed",
+        "Focus Time",
+        "Break Time",
+        "Completion Rate",
+        "Average Mood",
+      ],
+      [
+        [
+          `${records.length}`,
+          `${completed}`,
+          formatDuration(focusSeconds),
+          formatDuration(breakSeconds),
+          records.length > 0
+            ? `${Math.round((completed / records.length) * 100)}%`
+            : "–",
+          averageMood,
+        ],
+      ],
+    ),
+  ];
+
+  const projectRows = getTotalsBy(records, (session) => [
+    session.projectName || "No Project",
+  ]);
+  if (projectRows.length > 0) {
+    lines.push(
+      "",
+      "## By Project",
+      "",
+      markdownTable(["Project", "Focus Rounds", "Focus Time"], projectRows),
+    );
+  }
+
+  const tagRows = getTotalsBy(records, (session) =>
+    (session.tags || []).map((tag) => `#${tag}`),
+  );
+  if (tagRows.length > 0) {
+    lines.push(
+      "",
+      "## By Tag",
+      "",
+      markdownTable(["Tag", "Focus Rounds", "Focus Time"], tagRows),
+    );
+  }
+
+  const days = new Map<string, ExportRecord[]>();
+  records.forEach((record) => {
+    const day = getDayKey(record.session.startTime);
+    const dayRecords = days.get(day);
+    if (dayRecords) {
+      dayRecords.push(record);
+    } else {
+      days.set(day, [record]);
+    }
+  });
+
+  if (days.size > 0) {
+    lines.push("", "## Sessions");
+  }
+
+  days.forEach((dayRecords, day) => {
+    lines.push(
+      "",
+      `### ${format(getDayFromKey(day), "EEEE, MMMM d, yyyy")}`,
+      "",
+      markdownTable(
+        [
+          "Time",
+          "Type",
+          "Task",
+          "Project",
+          "Tags",
+          "Focused",
+          "Status",
+          "Notes",
+        ],
+        dayRecords.map(({ session, focusedSeconds }) => [
+          `${format(session.startTime, "HH:mm")}–${format(getSessionEndTime(session), "HH:mm")}`,
+          getSessionTypeLabel(session.type),
+          session.taskName || "",
+          session.projectName || "",
+          (session.tags || []).map((tag) => `#${tag}`).join(" "),
+          formatDuration(focusedSeconds),
+          getOutcomeLabel(session),
+          session.notes || "",
+        ]),
+      ),
+    );
+  });
+
+  return lines.join("\n").concat("\n");
+};
+
+/**
+ * Serialize records in the given format
+ */
+export const formatExport = (
+  exportFormat: ExportFormat,
+  records: ExportRecord[],
+  filters: ExportFilters = {},
+  generatedAt: Date = new Date(),
+): string => {
+  switch (exportFormat) {
+    case "csv":
+      return formatRecordsAsCSV(records);
+    case "ndjson":
+      return formatRecordsAsNDJSON(records);
+    case "ics":
+      return formatRecordsAsICS(records, generatedAt);
+    case "markdown":
+      return formatRecordsAsMarkdown(records, filters, generatedAt);
+  }
+};
@@ -0,0 +1,94 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { format } from "date-fns";
+import { useTimerStore } from "../../store/timer-store";
+import { TimerSession } from "../../types/timer";
+import { getDayRangeForKey, toDayKey } from "../../utils/date-buckets";
+import { buildExportRecords, formatExport } from "./export-formatters";
+import {
+  EXPORT_FORMATS,
+  ExportFilters,
+  ExportFormat,
+  ExportResult,
+} from "./export-types";
+
+export class ExportService {
+  private static instance: ExportService;
+
+  private constructor() {}
+
+  public static getInstance(): ExportService {
+    if (!ExportService.instance) {
+      ExportService.instance = new ExportService();
+    }
+    return ExportService.instance;
+  }
+
+  public filterSessions(
+    sessions: TimerSession[],
+    filters: ExportFilters,
+  ): TimerSession[] {
+    const start =
+      filters.startDate && getDayRangeForKey(toDayKey(filters.startDate)).start;
+    const end =
+      filters.endDate && getDayRangeForKey(toDayKey(filters.endDate)).end;
+    const tag = filters.tag?.toLowerCase();
+    const project = filters.project?.toLowerCase();
+
+    return sessions.filter((session) => {
+      const startTime = session.startTime;
+      if (start && startTime < start) return false;
+      if (end && startTime > end) return false;
+      if (
+        tag &&
+        !(session.tags || []).some(
+          (sessionTag) => sessionTag.toLowerCase() === tag,
+        )
+      ) {
+        return false;
+      }
+      if (project && session.projectName?.toLowerCase() !== project) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  public getFileName(exportFormat: ExportFormat, generatedAt: Date): string {
+    return `focus-export-${format(generatedAt, "yyyy-MM-dd-HHmm")}.${EXPORT_FORMATS[exportFormat].extension}`;
+  }
+
+  /**
+   * Write the filtered history to the folder once per format
+   */
+  public async writeExports(
+    folder: string,
+    formats: ExportFormat[],
+    filters: ExportFilters,
+  ): Promise<ExportResult> {
+    const { history, moodEntries } = useTimerStore.getState();
+    const records = buildExportRecords(
+      this.filterSessions(history, filters),
+      moodEntries,
+    );
+    const generatedAt = new Date();
+
+    await mkdir(folder, { recursive: true });
+
+    const files = await Promise.all(
+      formats.map(async (exportFormat) => {
+        const path = join(folder, this.getFileName(exportFormat, generatedAt));
+        await writeFile(
+          path,
+          formatExport(exportFormat, records, filters, generatedAt),
+          "utf8",
+        );
+        return path;
+      }),
+    );
+
+    return { files, sessionCount: records.length };
+  }
+}
+
+export const exportService = ExportService.getInstance();
@@ -0,0 +1,46 @@
+import { MoodEntry, TimerSession } from "../../types/timer";
+
+/**
+ * File formats the export subsystem can write
+ */
+export type ExportFormat = "csv" | "ndjson" | "ics" | "markdown";
+
+/**
+ * Narrow an export down to a date range, tag and/or project.
+ * Dates are inclusive days; tag and project match case-insensitively.
+ */
+export interface ExportFilters {
+  startDate?: Date;
+  endDate?: Date;
+  tag?: string;
+  project?: string;
+}
+
+/**
+ * A session with everything derived for export: net focused and paused
+ * time and the mood entries linked to it
+ */
+export interface ExportRecord {
+  session: TimerSession;
+  focusedSeconds: number;
+  pausedSeconds: number;
+  moods: MoodEntry[];
+}
+
+/**
+ * Files written by one export run
+ */
+export interface ExportResult {
+  files: string[];
+  sessionCount: number;
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { title: string; extension: string }
+> = {
+  csv: { title: "CSV (Spreadsheet)", extension: "csv" },
+  ndjson: { title: "NDJSON (One JSON Object per Line)", extension: "ndjson" },
+  ics: { title: "iCalendar (.ics)", extension: "ics" },
+  markdown: { title: "Markdown Report", extension: "md" },
+};
@@ -0,0 +1,32 @@
+/**
+ * Export Module
+ *
+ * Writes focus history as full-fidelity CSV, NDJSON, iCalendar and
+ * Markdown files, filtered by date range, tag and project.
+ *
+ * Architecture:
+ * - Types: Formats, filters and export records
+ * - Formatters: Pure serializers for each format
+ * - Service: Filtering and writing files to a folder
+ */
+
+export type {
+  ExportFormat,
+  ExportFilters,
+  ExportRecord,
+  ExportResult,
+} from "./export-types";
+
+export { EXPORT_FORMATS } from "./export-types";
+
+export {
+  buildExportRecords,
+  describeExportFilters,
+  formatExport,
+  formatRecordsAsCSV,
+  formatRecordsAsNDJSON,
+  formatRecordsAsICS,
+  formatRecordsAsMarkdown,
+} from "./export-formatters";
+
+export { ExportService, exportService } from "./export-service";
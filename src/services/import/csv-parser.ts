@@ -0,0 +1,76 @@
+import { ParsedCSV } from "./import-types";
+
+/**
+ * Guess the delimiter from the header line: comma, semicolon or tab,
+ * whichever appears most outside quotes
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const candidates = [",", ";", "\t"];
+
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length
+      ? delimiter
+      : best,
+  );
+};
+
+/**
+ * Parse CSV text (RFC 4180): quoted fields may contain delimiters, doubled
+ * quotes and line breaks. A leading byte order mark and blank lines are
+ * ignored, and rows are padded to the header length.
+ */
+export const parseCSV = (input: string): ParsedCSV => {
+  const text = input.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((value) => value.trim() !== "")) {
+      records.push(record);
+    }
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) endRecord();
+
+  const [headerRow = [], ...rows] = records;
+  const headers = headerRow.map((header) => header.trim());
+
+  return {
+    headers,
+    rows: rows.map((row) =>
+      headers.map((_, index) => (row[index] ?? "").trim()),
+    ),
+  };
+};
@@ -0,0 +1,137 @@
+import { ImportColumnMapping, ImportPreset } from "./import-types";
+
+/**
+ * Column mappings for CSV exports of common time trackers.
+ * Headers are matched case-insensitively.
+ */
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    // Detailed report export
+    id: "toggl",
+    name: "Toggl Track",
+    mapping: {
+      startDate: "Start date",
+      startTime: "Start time",
+      endDate: "End date",
+      endTime: "End time",
+      duration: "Duration",
+      task: "Description",
+      project: "Project",
+      tags: "Tags",
+    },
+    dateFormat: "yyyy-MM-dd",
+  },
+  {
+    // Detailed report export; the date format follows workspace settings
+    id: "clockify",
+    name: "Clockify",
+    mapping: {
+      startDate: "Start Date",
+      startTime: "Start Time",
+      endDate: "End Date",
+      endTime: "End Time",
+      duration: "Duration (h)",
+      task: "Description",
+      project: "Project",
+      tags: "Tags",
+    },
+    dateFormat: "auto",
+  },
+  {
+    // CSV written by the Export Data command
+    id: "focus-export",
+    name: "Focus Export",
+    mapping: {
+      start: "Start Time",
+      end: "End Time",
+      type: "Type",
+      task: "Task",
+      project: "Project",
+      tags: "Tags",
+      notes: "Notes",
+    },
+    dateFormat: "auto",
+  },
+];
+
+export const CUSTOM_IMPORT_SOURCE = "CSV Import";
+
+/**
+ * Field names to look for when guessing a mapping for an unknown file
+ */
+const FIELD_HEADER_GUESSES: Record<keyof ImportColumnMapping, string[]> = {
+  startDate: ["start date", "date", "day"],
+  startTime: ["start time", "time", "start"],
+  endDate: ["end date"],
+  endTime: ["end time", "stop time", "end", "stop"],
+  start: ["start", "started", "start datetime", "from"],
+  end: ["end", "ended", "end datetime", "to", "stop"],
+  duration: ["duration", "minutes", "length", "time spent"],
+  type: ["type", "session type"],
+  task: ["task", "description", "title", "name", "activity"],
+  project: ["project", "client"],
+  tags: ["tags", "tag", "labels", "categories"],
+  notes: ["notes", "note", "comment", "comments"],
+};
+
+const findHeader = (headers: string[], name: string): string | undefined =>
+  headers.find((header) => header.toLowerCase() === name.toLowerCase());
+
+/**
+ * Find the preset whose columns all exist in the file
+ */
+export const detectImportPreset = (
+  headers: string[],
+): ImportPreset | undefined =>
+  IMPORT_PRESETS.find((preset) =>
+    Object.values(preset.mapping).every(
+      (header) => !!header && !!findHeader(headers, header),
+    ),
+  );
+
+/**
+ * Resolve a preset's headers to the file's exact spelling, dropping
+ * columns the file doesn't have
+ */
+export const resolvePresetMapping = (
+  preset: ImportPreset,
+  headers: string[],
+): ImportColumnMapping =>
+  Object.fromEntries(
+    Object.entries(preset.mapping)
+      .map(([field, header]) => [field, findHeader(headers, header)])
+      .filter(([, header]) => !!header),
+  );
+
+/**
+ * Guess a mapping from header names when no preset matches. Separate date
+ * and time columns take precedence over single start and end columns.
+ */
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<string>();
+
+  (Object.keys(FIELD_HEADER_GUESSES) as (keyof ImportColumnMapping)[]).forEach(
+    (field) => {
+      // Times only make sense next to a date column
+      if (
+        (field === "startTime" || field === "endTime") &&
+        !mapping.startDate
+      ) {
+        return;
+      }
+      if (field === "start" && mapping.startDate) return;
+      if (field === "end" && mapping.startDate) return;
+
+      const header = FIELD_HEADER_GUESSES[field]
+        .map((name) => findHeader(headers, name))
+        .find((match) => match && !used.has(match));
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+      }
+    },
+  );
+
+  return mapping;
+};
@@ -0,0 +1,406 @@
+import { readFile } from "fs/promises";
+import { isValid, parse, parseISO } from "date-fns";
+import { useTimerStore } from "../../store/timer-store";
+import {
+  DailyAggregate,
+  ManualSessionInput,
+  SessionType,
+  TimerSession,
+} from "../../types/timer";
+import {
+  MIN_SESSION_DURATION_FOR_HISTORY,
+  getSessionEndTime,
+} from "../../utils/helpers";
+import { getArchivedDay } from "../../utils/history-archive";
+import { parseCSV } from "./csv-parser";
+import {
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportPlan,
+  ImportRowResult,
+  ImportRowStatus,
+  ParsedCSV,
+} from "./import-types";
+
+// Two ranges this close at both ends are the same session
+const DUPLICATE_TOLERANCE_MS = 60 * 1000;
+
+// Lenient date-fns patterns behind each date format option
+const DATE_PATTERNS: Record<Exclude<ImportDateFormat, "auto">, string> = {
+  "yyyy-MM-dd": "yyyy-M-d",
+  "MM/dd/yyyy": "M/d/yyyy",
+  "dd/MM/yyyy": "d/M/yyyy",
+  "dd.MM.yyyy": "d.M.yyyy",
+};
+
+const TIME_PATTERNS = ["H:mm:ss", "H:mm", "h:mm:ss a", "h:mm a"];
+
+const TYPE_VALUES: Record<string, SessionType> = {
+  work: SessionType.WORK,
+  focus: SessionType.WORK,
+  focus_round: SessionType.WORK,
+  short_break: SessionType.SHORT_BREAK,
+  break: SessionType.SHORT_BREAK,
+  short: SessionType.SHORT_BREAK,
+  long_break: SessionType.LONG_BREAK,
+  long: SessionType.LONG_BREAK,
+};
+
+/**
+ * Time range of a recorded session or of an earlier row in the file
+ */
+interface ImportRange {
+  start: number;
+  end: number;
+  session?: TimerSession;
+  row?: number;
+}
+
+const getLongestRange = (ranges: ImportRange[]) =>
+  ranges.reduce((max, range) => Math.max(max, range.end - range.start), 0);
+
+/**
+ * Insert a range into a list sorted by start
+ */
+function insertRange(ranges: ImportRange[], range: ImportRange) {
+  let low = 0;
+  let high = ranges.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid].start <= range.start) low = mid + 1;
+    else high = mid;
+  }
+  ranges.splice(low, 0, range);
+}
+
+/**
+ * Find a range in a list sorted by start that duplicates start and end, or
+ * else the first one that overlaps them. `longest` is the longest range in
+ * the list.
+ */
+function findConflict(
+  ranges: ImportRange[],
+  longest: number,
+  start: number,
+  end: number,
+): { status: "duplicate" | "overlap"; range: ImportRange } | undefined {
+  // Only ranges starting within the longest range length before this one
+  // can reach into it
+  let low = 0;
+  let high = ranges.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (ranges[mid].start < start - longest) low = mid + 1;
+    else high = mid;
+  }
+
+  let overlap: ImportRange | undefined;
+  for (let i = low; i < ranges.length && ranges[i].start < end; i++) {
+    const range = ranges[i];
+    if (range.end <= start) continue;
+    if (
+      Math.abs(range.start - start) <= DUPLICATE_TOLERANCE_MS &&
+      Math.abs(range.end - end) <= DUPLICATE_TOLERANCE_MS
+    ) {
+      return { status: "duplicate", range };
+    }
+    overlap = overlap || range;
+  }
+
+  return overlap ? { status: "overlap", range: overlap } : undefined;
+}
+
+export class ImportService {
+  private static instance: ImportService;
+
+  private constructor() {}
+
+  public static getInstance(): ImportService {
+    if (!ImportService.instance) {
+      ImportService.instance = new ImportService();
+    }
+    return ImportService.instance;
+  }
+
+  public async readCSVFile(path: string): Promise<ParsedCSV> {
+    return parseCSV(await readFile(path, "utf8"));
+  }
+
+  /**
+   * Parse a date, or a date and a time, in the given format. "auto" tries
+   * ISO 8601 first, then each known format in turn.
+   */
+  public parseDateTime(
+    dateValue: string,
+    timeValue: string | undefined,
+    dateFormat: ImportDateFormat,
+  ): Date | undefined {
+    const text = [dateValue, timeValue].filter(Boolean).join(" ").trim();
+    if (!text) return undefined;
+
+    if (dateFormat === "auto") {
+      const iso = parseISO(text);
+      if (isValid(iso)) return iso;
+    }
+
+    const datePatterns =
+      dateFormat === "auto"
+        ? Object.values(DATE_PATTERNS)
+        : [DATE_PATTERNS[dateFormat]];
+    const referenceDate = new Date();
+
+    for (const datePattern of datePatterns) {
+      for (const pattern of [
+        datePattern,
+        ...TIME_PATTERNS.map((timePattern) => `${datePattern} ${timePattern}`),
+      ]) {
+        const date = parse(text, pattern, referenceDate);
+        if (isValid(date)) return date;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse a duration in seconds from "01:30:00", "1:30", "1h 30m" or a
+   * plain number of minutes
+   */
+  public parseDuration(value: string): number | undefined {
+    const text = value.trim();
+
+    const clock = text.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+    if (clock) {
+      const [, hours, minutes, seconds] = clock;
+      return (
+        parseInt(hours, 10) * 3600 +
+        parseInt(minutes, 10) * 60 +
+        parseInt(seconds || "0", 10)
+      );
+    }
+
+    const units = text.match(
+      /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?\s*(?:(\d+)\s*s)?$/i,
+    );
+    if (units && (units[1] || units[2] || units[3])) {
+      return Math.round(
+        parseFloat(units[1] || "0") * 3600 +
+          parseInt(units[2] || "0", 10) * 60 +
+          parseInt(units[3] || "0", 10),
+      );
+    }
+
+    const minutes = Number(text.replace(",", "."));
+    return text && Number.isFinite(minutes)
+      ? Math.round(minutes * 60)
+      : undefined;
+  }
+
+  /**
+   * Turn one CSV row into a manual session, or an error message
+   */
+  public mapRow(
+    row: string[],
+    headers: string[],
+    mapping: ImportColumnMapping,
+    dateFormat: ImportDateFormat,
+  ): ManualSessionInput | string {
+    const value = (field: keyof ImportColumnMapping): string => {
+      const header = mapping[field];
+      const index = header ? headers.indexOf(header) : -1;
+      return index >= 0 ? row[index] : "";
+    };
+
+    const startTime = mapping.start
+      ? this.parseDateTime(value("start"), undefined, dateFormat)
+      : this.parseDateTime(value("startDate"), value("startTime"), dateFormat);
+    if (!startTime) {
+      return `Can't read the start "${[value("start") || value("startDate"), value("startTime")].filter(Boolean).join(" ")}"`;
+    }
+
+    let endTime = mapping.end
+      ? this.parseDateTime(value("end"), undefined, dateFormat)
+      : mapping.endTime
+        ? this.parseDateTime(
+            value("endDate") || value("startDate"),
+            value("endTime"),
+            dateFormat,
+          )
+        : undefined;
+
+    if (!endTime && value("duration")) {
+      const seconds = this.parseDuration(value("duration"));
+      if (seconds === undefined) {
+        return `Can't read the duration "${value("duration")}"`;
+      }
+      endTime = new Date(startTime.getTime() + seconds * 1000);
+    }
+
+    if (!endTime) return "Missing an end time or duration";
+
+    // An end time without its own date that reads earlier ran past midnight
+    if (!mapping.end && !value("endDate") && endTime < startTime) {
+      endTime = new Date(endTime.getTime() + 24 * 60 * 60 * 1000);
+    }
+
+    if (endTime.getTime() <= startTime.getTime()) {
+      return "End time must be after the start time";
+    }
+    if (endTime.getTime() > Date.now()) {
+      return "End time can't be in the future";
+    }
+    if (
+      (endTime.getTime() - startTime.getTime()) / 1000 <
+      MIN_SESSION_DURATION_FOR_HISTORY
+    ) {
+      return `Shorter than ${MIN_SESSION_DURATION_FOR_HISTORY} seconds`;
+    }
+
+    let type = SessionType.WORK;
+    if (value("type")) {
+      const parsedType =
+        TYPE_VALUES[
+          value("type")
+            .toLowerCase()
+            .replace(/[\s-]+/g, "_")
+        ];
+      if (!parsedType) return `Unknown session type "${value("type")}"`;
+      type = parsedType;
+    }
+
+    const tags = value("tags")
+      .split(/[,;]/)
+      .map((tag) => tag.trim().replace(/^#/, ""))
+      .filter(Boolean);
+
+    return {
+      type,
+      startTime,
+      endTime,
+      taskName: value("task") || undefined,
+      projectName: value("project") || undefined,
+      tags,
+      notes: value("notes") || undefined,
+    };
+  }
+
+  /**
+   * Dry run: map every row and compare its time range against history and
+   * the rows before it, and its day against the archived days, without
+   * saving anything
+   */
+  public planImport(
+    parsed: ParsedCSV,
+    mapping: ImportColumnMapping,
+    dateFormat: ImportDateFormat,
+    source: string,
+    history: TimerSession[],
+    historyArchive: DailyAggregate[],
+  ): ImportPlan {
+    const existing: ImportRange[] = history
+      .map((session) => ({
+        session,
+        start: session.startTime.getTime(),
+        end: getSessionEndTime(session).getTime(),
+      }))
+      .sort((a, b) => a.start - b.start);
+    const longestExisting = getLongestRange(existing);
+
+    // Rows that may be imported, kept sorted so later rows are checked
+    // against them the same way as against history
+    const earlierRows: ImportRange[] = [];
+    let longestRow = 0;
+
+    const rows: ImportRowResult[] = parsed.rows.map((row, index) => {
+      const line = index + 2;
+      const input = this.mapRow(row, parsed.headers, mapping, dateFormat);
+      if (typeof input === "string") {
+        return { row: line, status: "invalid", message: input };
+      }
+
+      const start = input.startTime.getTime();
+      const end = input.endTime.getTime();
+      const historyConflict = findConflict(
+        existing,
+        longestExisting,
+        start,
+        end,
+      );
+      const rowConflict = findConflict(earlierRows, longestRow, start, end);
+      const conflict =
+        [historyConflict, rowConflict].find(
+          (found) => found?.status === "duplicate",
+        ) ||
+        historyConflict ||
+        rowConflict;
+
+      if (conflict?.status !== "duplicate") {
+        insertRange(earlierRows, { start, end, row: line });
+        longestRow = Math.max(longestRow, end - start);
+      }
+
+      if (conflict?.status === "duplicate") {
+        return {
+          row: line,
+          status: "duplicate",
+          input,
+          conflict: conflict.range.session,
+          conflictRow: conflict.range.row,
+        };
+      }
+
+      // Compacted days only keep totals, so any row on one of them may
+      // already be counted there
+      const archivedDay = getArchivedDay(historyArchive, input.startTime);
+      if (archivedDay) {
+        return {
+          row: line,
+          status: "archived",
+          input,
+          message: `${archivedDay.totalSessions} ${archivedDay.totalSessions === 1 ? "session" : "sessions"} on this day already folded into daily totals`,
+        };
+      }
+
+      return conflict
+        ? {
+            row: line,
+            status: conflict.status,
+            input,
+            conflict: conflict.range.session,
+            conflictRow: conflict.range.row,
+          }
+        : { row: line, status: "new", input };
+    });
+
+    const counts: Record<ImportRowStatus, number> = {
+      new: 0,
+      overlap: 0,
+      archived: 0,
+      duplicate: 0,
+      invalid: 0,
+    };
+    rows.forEach((row) => counts[row.status]++);
+
+    return { source, rows, counts };
+  }
+
+  /**
+   * Save the new rows of a plan, and the overlapping and archived-day ones
+   * when allowed. Returns the number of sessions added.
+   */
+  public commitImport(plan: ImportPlan, includeConflicts: boolean): number {
+    const inputs = plan.rows
+      .filter(
+        (row) =>
+          row.status === "new" ||
+          (includeConflicts &&
+            (row.status === "overlap" || row.status === "archived")),
+      )
+      .map((row) => row.input)
+      .filter((input): input is ManualSessionInput => !!input);
+
+    return useTimerStore.getState().importSessions(inputs, plan.source);
+  }
+}
+
+export const importService = ImportService.getInstance();
@@ -0,0 +1,86 @@
+import { ManualSessionInput, TimerSession } from "../../types/timer";
+
+/**
+ * Session fields a CSV column can be mapped to. Start and end can come from
+ * a single date-time column or from separate date and time columns; when
+ * there is no end, it is worked out from the duration.
+ */
+export type ImportField =
+  | "start"
+  | "startDate"
+  | "startTime"
+  | "end"
+  | "endDate"
+  | "endTime"
+  | "duration"
+  | "type"
+  | "task"
+  | "project"
+  | "tags"
+  | "notes";
+
+/**
+ * CSV header mapped to each session field
+ */
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * How dates are written in the file; "auto" tries ISO and then the
+ * listed formats in order
+ */
+export type ImportDateFormat =
+  | "auto"
+  | "yyyy-MM-dd"
+  | "MM/dd/yyyy"
+  | "dd/MM/yyyy"
+  | "dd.MM.yyyy";
+
+export interface ImportPreset {
+  id: string;
+  name: string; // Recorded on imported sessions as importedFrom
+  mapping: ImportColumnMapping;
+  dateFormat: ImportDateFormat;
+}
+
+/**
+ * A CSV file split into its header row and data rows
+ */
+export interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * What an import would do with a row:
+ * - new: imported
+ * - overlap: clashes with a recorded session or an earlier row, imported
+ *   only when allowed
+ * - archived: on a day whose sessions were already folded into daily
+ *   totals, so it may be recorded already; imported only when allowed
+ * - duplicate: same time range as a recorded session or an earlier row
+ * - invalid: the row could not be read
+ */
+export type ImportRowStatus =
+  | "new"
+  | "overlap"
+  | "archived"
+  | "duplicate"
+  | "invalid";
+
+export interface ImportRowResult {
+  row: number; // 1-based line number in the file, counting the header
+  status: ImportRowStatus;
+  input?: ManualSessionInput;
+  conflict?: TimerSession; // Recorded session it overlaps or duplicates
+  conflictRow?: number; // Earlier row it overlaps or duplicates
+  message?: string;
+}
+
+/**
+ * Dry-run result of an import, shown before anything is saved
+ */
+export interface ImportPlan {
+  source: string;
+  rows: ImportRowResult[];
+  counts: Record<ImportRowStatus, number>;
+}
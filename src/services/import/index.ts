@@ -0,0 +1,37 @@
+/**
+ * Import Module
+ *
+ * Brings sessions in from CSV exports of other time trackers, with
+ * built-in column mappings for Toggl Track, Clockify and this extension's
+ * own CSV export, and a dry run that flags duplicates and overlaps by
+ * time range before anything is saved.
+ *
+ * Architecture:
+ * - Types: Column mappings, presets and import plans
+ * - CSV Parser: RFC 4180 parsing with delimiter detection
+ * - Presets: Known tool mappings and mapping guesses
+ * - Service: Row mapping, dry-run planning and committing
+ */
+
+export type {
+  ImportField,
+  ImportColumnMapping,
+  ImportDateFormat,
+  ImportPreset,
+  ParsedCSV,
+  ImportRowStatus,
+  ImportRowResult,
+  ImportPlan,
+} from "./import-types";
+
+export { parseCSV } from "./csv-parser";
+
+export {
+  IMPORT_PRESETS,
+  CUSTOM_IMPORT_SOURCE,
+  detectImportPreset,
+  resolvePresetMapping,
+  guessColumnMapping,
+} from "./import-presets";
+
+export { ImportService, importService } from "./import-service";
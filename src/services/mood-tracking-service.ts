@@ -5,14 +5,12 @@ import {
   TimerSession,
 } from "../types/timer";
 import {
-  format,
-  startOfDay,
-  endOfDay,
-  startOfWeek,
-  endOfWeek,
-  subDays,
-  eachDayOfInterval,
-} from "date-fns";
+  addDaysToKey,
+  getDayKey,
+  getDayRange,
+  getDayRangeForKey,
+  getWeekRange,
+} from "../utils/date-buckets";
 
 /**
  * Service for mood tracking and analytics.
@@ -92,7 +90,7 @@ export class MoodTrackingService {
     endDate: Date,
   ): MoodEntry[] {
     return moodEntries.filter((entry) => {
-      const entryDate = new Date(entry.timestamp);
+      const entryDate = entry.timestamp;
       return entryDate >= startDate && entryDate <= endDate;
     });
   }
@@ -101,24 +99,16 @@ export class MoodTrackingService {
    * Get mood entries for today
    */
   public getTodaysMoodEntries(moodEntries: MoodEntry[]): MoodEntry[] {
-    const today = new Date();
-    return this.getMoodEntriesInRange(
-      moodEntries,
-      startOfDay(today),
-      endOfDay(today),
-    );
+    const { start, end } = getDayRange();
+    return this.getMoodEntriesInRange(moodEntries, start, end);
   }
 
   /**
    * Get mood entries for this week
    */
   public getWeeklyMoodEntries(moodEntries: MoodEntry[]): MoodEntry[] {
-    const today = new Date();
-    return this.getMoodEntriesInRange(
-      moodEntries,
-      startOfWeek(today, { weekStartsOn: 1 }),
-      endOfWeek(today, { weekStartsOn: 1 }),
-    );
+    const { start, end } = getWeekRange();
+    return this.getMoodEntriesInRange(moodEntries, start, end);
   }
 
   /**
@@ -271,22 +261,20 @@ export class MoodTrackingService {
   private calculateWeeklyTrend(
     moodEntries: MoodEntry[],
   ): MoodAnalytics["weeklyTrend"] {
-    const sevenDaysAgo = subDays(new Date(), 7);
-    const today = new Date();
-    const days = eachDayOfInterval({ start: sevenDaysAgo, end: today });
+    const today = getDayKey(new Date());
+    const days = Array.from({ length: 8 }, (_, i) =>
+      addDaysToKey(today, i - 7),
+    );
 
     return days.map((date) => {
-      const dayEntries = this.getMoodEntriesInRange(
-        moodEntries,
-        startOfDay(date),
-        endOfDay(date),
-      );
+      const { start, end } = getDayRangeForKey(date);
+      const dayEntries = this.getMoodEntriesInRange(moodEntries, start, end);
 
       const averageMood =
         dayEntries.length > 0 ? this.calculateAverageIntensity(dayEntries) : 0;
 
       return {
-        date: format(date, "yyyy-MM-dd"),
+        date,
         averageMood,
         entryCount: dayEntries.length,
       };
@@ -316,8 +304,7 @@ export class MoodTrackingService {
             (entry) =>
               entry.sessionId === session.id ||
               Math.abs(
-                new Date(entry.timestamp).getTime() -
-                  new Date(session.startTime).getTime(),
+                entry.timestamp.getTime() - session.startTime.getTime(),
               ) <
                 30 * 60 * 1000,
           );
@@ -507,14 +494,11 @@ export class MoodTrackingService {
     > = {};
 
     sessions.forEach((session) => {
-      const hour = new Date(session.startTime).getHours();
+      const hour = session.startTime.getHours();
       const relatedMood = moodEntries.find(
         (entry) =>
           entry.sessionId === session.id ||
-          Math.abs(
-            new Date(entry.timestamp).getTime() -
-              new Date(session.startTime).getTime(),
-          ) <
+          Math.abs(entry.timestamp.getTime() - session.startTime.getTime()) <
             30 * 60 * 1000,
       );
 
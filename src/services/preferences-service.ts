@@ -1,5 +1,8 @@
 import { getPreferenceValues } from "@raycast/api";
 import { TimerConfig } from "../types/timer";
+import { DEFAULT_DATE_BUCKET_SETTINGS } from "../utils/date-buckets";
+import { EVERY_DAY } from "../utils/streaks";
+import { getTimerSequenceError } from "../utils/timer-methods";
 
 export interface TimerPreset {
   id: string;
@@ -18,8 +21,22 @@ export interface RaycastPreferences {
   autoStartWork: boolean;
   enableApplicationTracking: boolean;
   trackingInterval: string;
+  customTimerSequence?: string;
+  flowtimeBreakRatio?: string;
+  trashRetentionDays?: string;
+  sessionDetailDays?: string;
+  streakWorkingDays?: string;
+  dayStartHour?: string;
+  weekStartsOn?: string;
 }
 
+// Days of the week (0 = Sunday) each streak schedule expects a session on
+const WORKING_DAY_SCHEDULES: Record<string, number[]> = {
+  "every-day": EVERY_DAY,
+  weekdays: [1, 2, 3, 4, 5],
+  "monday-saturday": [1, 2, 3, 4, 5, 6],
+};
+
 // Default ADHD-related configuration values
 const getDefaultADHDConfig = () => ({
   enableAdaptiveTimers: false,
@@ -66,6 +83,11 @@ export class PreferencesService {
           autoStartWork: false,
           enableApplicationTracking: true,
           trackingInterval: 5,
+          customTimerSequence: "",
+          trashRetentionDays: 30,
+          sessionDetailDays: 90,
+          workingDays: EVERY_DAY,
+          ...DEFAULT_DATE_BUCKET_SETTINGS,
           ...getDefaultADHDConfig(),
         },
       },
@@ -83,6 +105,11 @@ export class PreferencesService {
           autoStartWork: false,
           enableApplicationTracking: true,
           trackingInterval: 5,
+          customTimerSequence: "",
+          trashRetentionDays: 30,
+          sessionDetailDays: 90,
+          workingDays: EVERY_DAY,
+          ...DEFAULT_DATE_BUCKET_SETTINGS,
           ...getDefaultADHDConfig(),
         },
       },
@@ -100,6 +127,11 @@ export class PreferencesService {
           autoStartWork: true,
           enableApplicationTracking: true,
           trackingInterval: 5,
+          customTimerSequence: "",
+          trashRetentionDays: 30,
+          sessionDetailDays: 90,
+          workingDays: EVERY_DAY,
+          ...DEFAULT_DATE_BUCKET_SETTINGS,
           ...getDefaultADHDConfig(),
         },
       },
@@ -117,6 +149,11 @@ export class PreferencesService {
           autoStartWork: false,
           enableApplicationTracking: true,
           trackingInterval: 5,
+          customTimerSequence: "",
+          trashRetentionDays: 30,
+          sessionDetailDays: 90,
+          workingDays: EVERY_DAY,
+          ...DEFAULT_DATE_BUCKET_SETTINGS,
           ...getDefaultADHDConfig(),
         },
       },
@@ -134,6 +171,11 @@ export class PreferencesService {
           autoStartWork: false,
           enableApplicationTracking: true,
           trackingInterval: 5,
+          customTimerSequence: "",
+          trashRetentionDays: 30,
+          sessionDetailDays: 90,
+          workingDays: EVERY_DAY,
+          ...DEFAULT_DATE_BUCKET_SETTINGS,
           ...getDefaultADHDConfig(),
         },
       },
@@ -175,7 +217,31 @@ export class PreferencesService {
           preferences.trackingInterval,
           5,
         ),
+        customTimerSequence: preferences.customTimerSequence?.trim() || "",
+        trashRetentionDays: this.parseIntWithDefault(
+          preferences.trashRetentionDays || "",
+          30,
+        ),
+        sessionDetailDays: this.parseDaysWithDefault(
+          preferences.sessionDetailDays,
+          90,
+        ),
+        workingDays:
+          WORKING_DAY_SCHEDULES[preferences.streakWorkingDays ?? ""] ??
+          EVERY_DAY,
+        dayStartHour: this.parseHourWithDefault(
+          preferences.dayStartHour,
+          DEFAULT_DATE_BUCKET_SETTINGS.dayStartHour,
+        ),
+        weekStartsOn: this.parseWeekdayWithDefault(
+          preferences.weekStartsOn,
+          DEFAULT_DATE_BUCKET_SETTINGS.weekStartsOn,
+        ),
         ...getDefaultADHDConfig(),
+        adaptiveBreakRatio: this.parseRatioWithDefault(
+          preferences.flowtimeBreakRatio,
+          0.2,
+        ),
       };
     } catch (error) {
       console.error("Failed to load preferences:", error);
@@ -188,6 +254,40 @@ export class PreferencesService {
     return isNaN(parsed) || parsed <= 0 ? defaultValue : Math.min(parsed, 180); // Max 3 hours
   }
 
+  private parseDaysWithDefault(
+    value: string | undefined,
+    defaultValue: number,
+  ): number {
+    const parsed = parseInt(value ?? "", 10);
+    return isNaN(parsed) || parsed < 0 ? defaultValue : parsed; // 0 means never
+  }
+
+  private parseRatioWithDefault(
+    value: string | undefined,
+    defaultValue: number,
+  ): number {
+    const parsed = parseFloat(value ?? "");
+    return isNaN(parsed) || parsed <= 0 ? defaultValue : Math.min(parsed, 1); // Break at most as long as the work
+  }
+
+  private parseHourWithDefault(
+    value: string | undefined,
+    defaultValue: number,
+  ): number {
+    const parsed = parseInt(value ?? "", 10);
+    return isNaN(parsed) || parsed < 0 || parsed > 23 ? defaultValue : parsed;
+  }
+
+  private parseWeekdayWithDefault(
+    value: string | undefined,
+    defaultValue: TimerConfig["weekStartsOn"],
+  ): TimerConfig["weekStartsOn"] {
+    const parsed = parseInt(value ?? "", 10);
+    return isNaN(parsed) || parsed < 0 || parsed > 6
+      ? defaultValue
+      : (parsed as TimerConfig["weekStartsOn"]);
+  }
+
   public validateConfig(config: Partial<TimerConfig>): string[] {
     const errors: string[] = [];
 
@@ -215,6 +315,19 @@ export class PreferencesService {
       }
     }
 
+    if (config.adaptiveBreakRatio !== undefined) {
+      if (config.adaptiveBreakRatio <= 0 || config.adaptiveBreakRatio > 1) {
+        errors.push("Break ratio must be greater than 0 and at most 1");
+      }
+    }
+
+    const sequenceError =
+      config.customTimerSequence &&
+      getTimerSequenceError(config.customTimerSequence);
+    if (sequenceError) {
+      errors.push(sequenceError);
+    }
+
     return errors;
   }
 
@@ -1,5 +1,8 @@
-import { TimerSession } from "../types/timer";
-import { useTimerStore } from "../store/timer-store";
+import { SessionType, TimerSession } from "../types/timer";
+import { timerStoreUtils, useTimerStore } from "../store/timer-store";
+import { storageAdapter } from "../utils/storage-adapter";
+import { sumArchivedTaskSessions } from "../utils/history-archive";
+import { getTaskSessions, linkSessionsToTasks } from "../utils/task-linking";
 
 export interface Task {
   id: string;
@@ -24,6 +27,18 @@ export interface Project {
   tasks: string[]; // Task IDs
 }
 
+export type TaskPriority = Task["priority"];
+
+export interface TaskLink {
+  taskId: string;
+  projectId?: string;
+}
+
+interface PersistedTaskData {
+  tasks: Task[];
+  projects: Project[];
+}
+
 export interface TaskStats {
   totalTasks: number;
   completedTasks: number;
@@ -37,9 +52,12 @@ export class TaskService {
   private static instance: TaskService;
   private tasks: Map<string, Task> = new Map();
   private projects: Map<string, Project> = new Map();
+  private readonly STORAGE_KEY = "task-service-data";
+  private loadPromise: Promise<void>;
+  private savePromise: Promise<void> = Promise.resolve();
 
   private constructor() {
-    this.loadFromStorage();
+    this.loadPromise = this.loadFromStorage();
   }
 
   public static getInstance(): TaskService {
@@ -49,16 +67,70 @@ export class TaskService {
     return TaskService.instance;
   }
 
-  private loadFromStorage(): void {
-    // localStorage not available in Raycast environment
-    // In a real implementation, this would use Raycast's storage APIs
-    console.log("Would load tasks from storage");
+  /**
+   * Resolves once tasks and projects have been loaded from storage
+   */
+  public ready(): Promise<void> {
+    return this.loadPromise;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const stored = await storageAdapter.getItem(this.STORAGE_KEY);
+      if (!stored) return;
+
+      const data: PersistedTaskData = JSON.parse(stored);
+
+      // Entries created before loading finished take precedence
+      (data.tasks || []).forEach((task) => {
+        if (!this.tasks.has(task.id)) {
+          this.tasks.set(task.id, {
+            ...task,
+            createdAt: new Date(task.createdAt),
+            completedAt: task.completedAt
+              ? new Date(task.completedAt)
+              : undefined,
+          });
+        }
+      });
+      (data.projects || []).forEach((project) => {
+        if (!this.projects.has(project.id)) {
+          this.projects.set(project.id, {
+            ...project,
+            createdAt: new Date(project.createdAt),
+            completedAt: project.completedAt
+              ? new Date(project.completedAt)
+              : undefined,
+          });
+        }
+      });
+    } catch (error) {
+      console.error("Failed to load tasks from storage:", error);
+    }
   }
 
   private saveToStorage(): void {
-    // localStorage not available in Raycast environment
-    // In a real implementation, this would use Raycast's storage APIs
-    console.log("Would save tasks to storage");
+    const data: PersistedTaskData = {
+      tasks: this.getAllTasks(),
+      projects: this.getAllProjects(),
+    };
+
+    // Chain writes so an older snapshot never overwrites a newer one
+    this.savePromise = this.savePromise
+      .then(() => this.loadPromise)
+      .then(() =>
+        storageAdapter.setItem(this.STORAGE_KEY, JSON.stringify(data)),
+      )
+      .catch((error) => {
+        console.error("Failed to save tasks to storage:", error);
+      });
+  }
+
+  /**
+   * Resolves once all pending changes have been written to storage
+   */
+  public flush(): Promise<void> {
+    return this.savePromise;
   }
 
   // Task Management
@@ -196,6 +268,12 @@ export class TaskService {
     return Array.from(this.projects.values());
   }
 
+  public findProjectByName(name: string): Project | undefined {
+    return Array.from(this.projects.values()).find(
+      (p) => p.name.toLowerCase() === name.toLowerCase(),
+    );
+  }
+
   public getActiveProjects(): Project[] {
     return Array.from(this.projects.values()).filter(
       (project) => !project.completedAt,
@@ -205,21 +283,13 @@ export class TaskService {
   // Session Integration
   public recordPomodoroForTask(taskName: string, projectName?: string): void {
     // Find or create task
-    let task = Array.from(this.tasks.values()).find(
-      (t) =>
-        t.name.toLowerCase() === taskName.toLowerCase() &&
-        (!projectName ||
-          this.getProject(t.project!)?.name.toLowerCase() ===
-            projectName.toLowerCase()),
-    );
+    let task = this.findTask(taskName, projectName);
 
     if (!task) {
       // Create project if specified and doesn't exist
       let projectId: string | undefined;
       if (projectName) {
-        let project = Array.from(this.projects.values()).find(
-          (p) => p.name.toLowerCase() === projectName.toLowerCase(),
-        );
+        let project = this.findProjectByName(projectName);
         if (!project) {
           project = this.createProject(projectName);
         }
@@ -230,6 +300,86 @@ export class TaskService {
       task = this.createTask(taskName, projectId);
     }
 
+    this.incrementPomodoros(task);
+  }
+
+  /**
+   * Counts a finished work session towards the task it was started for.
+   * Returns false when the session isn't linked to a known task.
+   */
+  public async recordSessionForTask(session: TimerSession): Promise<boolean> {
+    if (session.type !== SessionType.WORK || !session.taskId) return false;
+
+    await this.ready();
+
+    const task = this.tasks.get(session.taskId);
+    if (!task) return false;
+
+    this.incrementPomodoros(task);
+    return true;
+  }
+
+  /**
+   * Builds the link stored on a session started for a task
+   */
+  public getTaskLink(taskId: string): TaskLink | undefined {
+    const task = this.tasks.get(taskId);
+    return task ? { taskId: task.id, projectId: task.project } : undefined;
+  }
+
+  /**
+   * Links existing history to tasks by fuzzy-matching names, then derives
+   * each task's completed rounds from its linked sessions and the task
+   * counts kept for compacted days.
+   * Returns the number of sessions that were newly linked.
+   */
+  public async linkHistoryToTasks(): Promise<number> {
+    await Promise.all([this.ready(), timerStoreUtils.waitForHydration()]);
+
+    const { history: storedHistory, historyArchive } = useTimerStore.getState();
+    const { history, linkedCount } = linkSessionsToTasks(
+      storedHistory,
+      this.getAllTasks(),
+      this.getAllProjects(),
+    );
+
+    if (linkedCount > 0) {
+      useTimerStore.setState({ history });
+    }
+
+    // Compacted history only keeps a count per task
+    const archivedSessions = sumArchivedTaskSessions(historyArchive);
+    let changed = false;
+    this.tasks.forEach((task) => {
+      const completedPomodoros =
+        getTaskSessions(task.id, history).length +
+        (archivedSessions[task.id] || 0);
+      if (completedPomodoros !== task.completedPomodoros) {
+        this.tasks.set(task.id, { ...task, completedPomodoros });
+        changed = true;
+      }
+    });
+    if (changed) {
+      this.saveToStorage();
+    }
+
+    return linkedCount;
+  }
+
+  /**
+   * Finds a task by name, optionally restricted to a project name
+   */
+  public findTask(taskName: string, projectName?: string): Task | undefined {
+    return Array.from(this.tasks.values()).find(
+      (t) =>
+        t.name.toLowerCase() === taskName.toLowerCase() &&
+        (!projectName ||
+          this.getProject(t.project!)?.name.toLowerCase() ===
+            projectName.toLowerCase()),
+    );
+  }
+
+  private incrementPomodoros(task: Task): void {
     // Increment completed pomodoros
     task.completedPomodoros++;
     this.tasks.set(task.id, task);
@@ -1,14 +1,97 @@
 import { StateCreator } from "zustand";
-import { persist, PersistOptions } from "zustand/middleware";
+import { persist, PersistOptions, PersistStorage } from "zustand/middleware";
+import { showToast, Toast } from "@raycast/api";
 import { PomodoroStore, TimerState } from "../../types/timer";
 import { zustandStorage } from "../../utils/zustand-storage";
+import { storageAdapter } from "../../utils/storage-adapter";
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationError,
+  runMigrations,
+} from "../migrations";
+
+const STORAGE_NAME = "pomodoro-timer-storage";
+
+/**
+ * Writes are held back until stored state has been loaded, so defaults can
+ * never overwrite saved history, and stay blocked if migration fails
+ */
+let hydrationStatus: "pending" | "ready" | "failed" = "pending";
+let migrationFailure: MigrationError | null = null;
+
+const guardedStorage: PersistStorage<PomodoroStore> = {
+  ...zustandStorage,
+  setItem: async (name, value) => {
+    if (hydrationStatus !== "ready") return;
+    await zustandStorage.setItem(name, value);
+  },
+};
+
+/**
+ * Storage key of the copy taken before migrating from a version
+ */
+const getBackupKey = (version: number) => `${STORAGE_NAME}-backup-v${version}`;
+
+/**
+ * Keep a copy of the state exactly as stored before migrating it.
+ * Migration doesn't start unless the backup was written.
+ */
+async function backupPersistedState(persistedState: unknown, version: number) {
+  await storageAdapter.setItem(
+    getBackupKey(version),
+    JSON.stringify({
+      state: persistedState,
+      version,
+      backedUpAt: new Date().toISOString(),
+    }),
+  );
+}
+
+/**
+ * Migrate stored state to the current schema version. On failure the store
+ * starts from defaults, nothing is written back, and the stored state and
+ * its backup stay as they were.
+ */
+async function migratePersistedState(
+  persistedState: unknown,
+  version: number,
+): Promise<PomodoroStore> {
+  try {
+    await backupPersistedState(persistedState, version);
+    const migrated = runMigrations(persistedState, version);
+
+    // Let the migrated state be saved straight away
+    hydrationStatus = "ready";
+    return migrated as unknown as PomodoroStore;
+  } catch (error) {
+    migrationFailure =
+      error instanceof MigrationError
+        ? error
+        : new MigrationError(
+            error instanceof Error ? error.message : String(error),
+            version,
+            version + 1,
+          );
+    hydrationStatus = "failed";
+
+    console.error("Failed to migrate persisted state:", migrationFailure);
+    showToast({
+      style: Toast.Style.Failure,
+      title: "Couldn't Upgrade Saved Data",
+      message: `${migrationFailure.message}. Your history is untouched and changes won't be saved until this is fixed.`,
+    }).catch(() => undefined);
+
+    // Merging nothing keeps the in-memory defaults
+    return undefined as unknown as PomodoroStore;
+  }
+}
 
 /**
  * Persistence middleware configuration for the timer store
  */
 export const persistenceConfig: PersistOptions<PomodoroStore> = {
-  name: "pomodoro-timer-storage",
-  storage: zustandStorage,
+  name: STORAGE_NAME,
+  storage: guardedStorage,
   partialize: (state) => ({
     ...state,
     // Don't persist runtime state
@@ -21,16 +104,19 @@ export const persistenceConfig: PersistOptions<PomodoroStore> = {
     // Don't persist current break activity
     currentBreakActivity: undefined,
   }),
-  // Optional: Add version for migration support
-  version: 1,
-  // Optional: Add migration logic for future versions
-  migrate: (persistedState: any, version: number) => {
-    // Handle migrations between versions here
-    if (version === 0) {
-      // Migration from version 0 to 1
-      // Add any necessary data transformations
+  version: CURRENT_SCHEMA_VERSION,
+  migrate: migratePersistedState,
+  onRehydrateStorage: () => (_state, error) => {
+    if (error) {
+      hydrationStatus = "failed";
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Couldn't Load Saved Data",
+        message: `${error instanceof Error ? error.message : String(error)}. Changes won't be saved until this is fixed.`,
+      }).catch(() => undefined);
+    } else if (hydrationStatus === "pending") {
+      hydrationStatus = "ready";
     }
-    return persistedState as PomodoroStore;
   },
 };
 
@@ -38,7 +124,7 @@ export const persistenceConfig: PersistOptions<PomodoroStore> = {
  * Create persistence middleware wrapper
  */
 export const withPersistence = <T extends PomodoroStore>(
-  stateCreator: StateCreator<T, [], [], T>
+  stateCreator: StateCreator<T, [], [], T>,
 ) => persist(stateCreator, persistenceConfig as any);
 
 /**
@@ -82,6 +168,23 @@ export const persistenceUtils = {
     }
   },
 
+  /**
+   * Get the error that stopped persisted state from being migrated, if any
+   */
+  getMigrationFailure: (): MigrationError | null => migrationFailure,
+
+  /**
+   * Get the copy of persisted state taken before migrating from a version
+   */
+  getMigrationBackup: async (version: number): Promise<string | undefined> => {
+    try {
+      return await storageAdapter.getItem(getBackupKey(version));
+    } catch (error) {
+      console.error("Failed to read migration backup:", error);
+      return undefined;
+    }
+  },
+
   /**
    * Export persisted data for backup
    */
@@ -0,0 +1,8 @@
+/**
+ * Persisted state migrations barrel export
+ */
+
+export * from "./migration-types";
+export * from "./persisted-state-schema";
+export * from "./migration-steps";
+export * from "./migrator";
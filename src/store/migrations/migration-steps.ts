@@ -0,0 +1,129 @@
+import { SessionEndReason } from "../../types/timer";
+import { MigrationStep, PersistedState } from "./migration-types";
+import {
+  validateStateV1,
+  validateStateV2,
+  validateStateV3,
+  validateStateV4,
+  validateStateV5,
+  validateStateV6,
+} from "./persisted-state-schema";
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+/**
+ * Ordered migration steps. Append new steps with the next version number;
+ * never edit a step that has shipped.
+ */
+export const MIGRATION_STEPS: MigrationStep[] = [
+  {
+    version: 1,
+    description: "Fill in lists missing from unversioned state",
+    migrate: (state: PersistedState) => ({
+      ...state,
+      history: asArray(state.history),
+      moodEntries: asArray(state.moodEntries),
+      customTags: asArray(state.customTags),
+      customTagConfigs: asArray(state.customTagConfigs),
+    }),
+    validate: validateStateV1,
+  },
+  {
+    version: 2,
+    description: "Reconcile custom tags with their tag configs",
+    migrate: (state: PersistedState) => {
+      const configs = asArray(state.customTagConfigs) as { name: string }[];
+
+      // Tags that only had a config become custom tags again, and names
+      // that differ only in case are merged into the first spelling
+      const tagsByName = new Map<string, string>();
+      [
+        ...(asArray(state.customTags) as string[]),
+        ...configs.map((config) => config.name),
+      ].forEach((tag) => {
+        const key = tag.toLowerCase();
+        if (!tagsByName.has(key)) tagsByName.set(key, tag);
+      });
+
+      const configsByName = new Map<string, { name: string }>();
+      configs.forEach((config) => {
+        const key = config.name.toLowerCase();
+        if (!configsByName.has(key)) {
+          configsByName.set(key, { ...config, name: tagsByName.get(key)! });
+        }
+      });
+
+      return {
+        ...state,
+        customTags: Array.from(tagsByName.values()),
+        customTagConfigs: Array.from(configsByName.values()),
+      };
+    },
+    validate: validateStateV2,
+  },
+  {
+    version: 3,
+    description: "Give every session a tag list and an end reason",
+    migrate: (state: PersistedState) => ({
+      ...state,
+      history: (asArray(state.history) as Record<string, unknown>[]).map(
+        (session) => ({
+          ...session,
+          tags: Array.isArray(session.tags) ? session.tags : [],
+          endReason:
+            session.endReason ??
+            (session.completed
+              ? SessionEndReason.COMPLETED
+              : SessionEndReason.STOPPED),
+        }),
+      ),
+    }),
+    validate: validateStateV3,
+  },
+  {
+    version: 4,
+    description: "Add an empty archive for compacted history",
+    migrate: (state: PersistedState) => ({
+      ...state,
+      historyArchive: asArray(state.historyArchive),
+    }),
+    validate: validateStateV4,
+  },
+  {
+    version: 5,
+    description: "Add streak days off and streak freezes",
+    migrate: (state: PersistedState) => {
+      const rewardSystem = state.rewardSystem as Record<string, unknown>;
+
+      return {
+        ...state,
+        streakDaysOff: asArray(state.streakDaysOff),
+        ...(typeof rewardSystem === "object" &&
+          rewardSystem !== null && {
+            rewardSystem: {
+              ...rewardSystem,
+              streakFreezes:
+                typeof rewardSystem.streakFreezes === "number"
+                  ? rewardSystem.streakFreezes
+                  : 0,
+              frozenDays: asArray(rewardSystem.frozenDays),
+            },
+          }),
+      };
+    },
+    validate: validateStateV5,
+  },
+  {
+    version: 6,
+    description: "Add task counts to archived days",
+    migrate: (state: PersistedState) => ({
+      ...state,
+      // Days compacted before this kept no task links, so they start empty
+      historyArchive: (
+        asArray(state.historyArchive) as Record<string, unknown>[]
+      ).map((aggregate) => ({ tasks: {}, ...aggregate })),
+    }),
+    validate: validateStateV6,
+  },
+];
@@ -0,0 +1,32 @@
+/**
+ * Persisted store state as read from storage, before it is trusted
+ */
+export type PersistedState = Record<string, unknown>;
+
+/**
+ * One ordered step that upgrades persisted state to `version`.
+ * `migrate` must not mutate its input, and `validate` checks the result
+ * against the schema of that version, returning a list of problems.
+ */
+export interface MigrationStep {
+  version: number;
+  description: string;
+  migrate: (state: PersistedState) => PersistedState;
+  validate: (state: PersistedState) => string[];
+}
+
+/**
+ * Raised when persisted state can't be brought up to the current version.
+ * The stored state is left untouched when this happens.
+ */
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly failedVersion: number,
+    public readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "MigrationError";
+  }
+}
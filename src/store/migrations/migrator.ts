@@ -0,0 +1,90 @@
+import { MIGRATION_STEPS } from "./migration-steps";
+import {
+  MigrationError,
+  MigrationStep,
+  PersistedState,
+} from "./migration-types";
+
+/**
+ * Version persisted state is written at
+ */
+export const CURRENT_SCHEMA_VERSION =
+  MIGRATION_STEPS[MIGRATION_STEPS.length - 1].version;
+
+/**
+ * Steps needed to bring state from `fromVersion` to the current version
+ */
+export function getPendingMigrations(
+  fromVersion: number,
+  steps: MigrationStep[] = MIGRATION_STEPS,
+): MigrationStep[] {
+  return steps
+    .filter((step) => step.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Run each pending step in order, validating the result of every step.
+ * Throws a MigrationError on the first step that fails, before anything
+ * is written back; the input state is never modified.
+ */
+export function runMigrations(
+  persistedState: unknown,
+  fromVersion: number,
+  steps: MigrationStep[] = MIGRATION_STEPS,
+): PersistedState {
+  const targetVersion = steps.reduce(
+    (max, step) => Math.max(max, step.version),
+    0,
+  );
+
+  if (fromVersion > targetVersion) {
+    throw new MigrationError(
+      `Saved data is from a newer version (${fromVersion}) of the extension`,
+      fromVersion,
+      fromVersion,
+    );
+  }
+
+  if (
+    typeof persistedState !== "object" ||
+    persistedState === null ||
+    Array.isArray(persistedState)
+  ) {
+    throw new MigrationError(
+      "Saved data is not an object",
+      fromVersion,
+      fromVersion + 1,
+    );
+  }
+
+  return getPendingMigrations(fromVersion, steps).reduce(
+    (state: PersistedState, step) => {
+      let migrated: PersistedState;
+      try {
+        migrated = step.migrate(state);
+      } catch (error) {
+        throw new MigrationError(
+          `"${step.description}" failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          fromVersion,
+          step.version,
+        );
+      }
+
+      const issues = step.validate(migrated);
+      if (issues.length > 0) {
+        throw new MigrationError(
+          `Saved data doesn't match version ${step.version}: ${issues[0]}`,
+          fromVersion,
+          step.version,
+          issues,
+        );
+      }
+
+      return migrated;
+    },
+    persistedState as PersistedState,
+  );
+}
@@ -0,0 +1,234 @@
+import { SessionEndReason, SessionType } from "../../types/timer";
+import { PersistedState } from "./migration-types";
+
+/**
+ * Schemas for each persisted state version. Each version's schema builds
+ * on the previous one, so later versions are stricter.
+ */
+
+// Stop listing problems after this many, a broken history repeats itself
+const MAX_ISSUES = 20;
+
+const SESSION_TYPES = Object.values(SessionType) as string[];
+const END_REASONS = Object.values(SessionEndReason) as string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isDayKey = (value: unknown): boolean =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const isDateLike = (value: unknown): boolean =>
+  value instanceof Date
+    ? !isNaN(value.getTime())
+    : typeof value === "string" && !isNaN(Date.parse(value));
+
+/**
+ * Check every item of an array field, collecting problems as
+ * "history[3].startTime is not a date"
+ */
+function validateArray(
+  state: PersistedState,
+  field: string,
+  validateItem: (item: Record<string, unknown>) => string | undefined,
+  issues: string[],
+) {
+  const value = state[field];
+  if (value === undefined) return;
+
+  if (!Array.isArray(value)) {
+    issues.push(`${field} is not a list`);
+    return;
+  }
+
+  value.forEach((item, index) => {
+    if (issues.length >= MAX_ISSUES) return;
+
+    const problem = isRecord(item) ? validateItem(item) : "is not an object";
+    if (problem) issues.push(`${field}[${index}] ${problem}`);
+  });
+}
+
+function validateSession(session: Record<string, unknown>) {
+  if (typeof session.id !== "string") return "has no id";
+  if (!SESSION_TYPES.includes(session.type as string)) {
+    return `has unknown type "${String(session.type)}"`;
+  }
+  if (!isDateLike(session.startTime)) return "startTime is not a date";
+  if (session.endTime !== undefined && !isDateLike(session.endTime)) {
+    return "endTime is not a date";
+  }
+  if (typeof session.duration !== "number" || session.duration < 0) {
+    return "duration is not a positive number";
+  }
+  return undefined;
+}
+
+function validateMoodEntry(entry: Record<string, unknown>) {
+  if (typeof entry.id !== "string") return "has no id";
+  if (typeof entry.mood !== "string") return "has no mood";
+  if (!isDateLike(entry.timestamp)) return "timestamp is not a date";
+  return undefined;
+}
+
+/**
+ * Version 1: the shape written before versioned migrations existed
+ */
+export function validateStateV1(state: PersistedState): string[] {
+  const issues: string[] = [];
+
+  validateArray(state, "history", validateSession, issues);
+  validateArray(state, "moodEntries", validateMoodEntry, issues);
+  validateArray(
+    state,
+    "customTagConfigs",
+    (config) => (typeof config.name !== "string" ? "has no name" : undefined),
+    issues,
+  );
+
+  if (
+    state.customTags !== undefined &&
+    (!Array.isArray(state.customTags) ||
+      state.customTags.some((tag) => typeof tag !== "string"))
+  ) {
+    issues.push("customTags is not a list of names");
+  }
+
+  if (state.config !== undefined && !isRecord(state.config)) {
+    issues.push("config is not an object");
+  }
+
+  return issues;
+}
+
+/**
+ * Version 2: every tag config belongs to exactly one custom tag
+ */
+export function validateStateV2(state: PersistedState): string[] {
+  const issues = validateStateV1(state);
+  if (issues.length > 0) return issues;
+
+  const tags = new Set(
+    ((state.customTags as string[]) || []).map((tag) => tag.toLowerCase()),
+  );
+  const seen = new Set<string>();
+
+  ((state.customTagConfigs as { name: string }[]) || []).forEach((config) => {
+    const name = config.name.toLowerCase();
+    if (!tags.has(name)) {
+      issues.push(`customTagConfigs has "${config.name}" with no custom tag`);
+    }
+    if (seen.has(name)) {
+      issues.push(`customTagConfigs has "${config.name}" more than once`);
+    }
+    seen.add(name);
+  });
+
+  return issues.slice(0, MAX_ISSUES);
+}
+
+/**
+ * Version 3: sessions always have a tag list and an end reason
+ */
+export function validateStateV3(state: PersistedState): string[] {
+  const issues = validateStateV2(state);
+  if (issues.length > 0) return issues;
+
+  validateArray(
+    state,
+    "history",
+    (session) => {
+      if (!Array.isArray(session.tags)) return "has no tag list";
+      if (!END_REASONS.includes(session.endReason as string)) {
+        return `has unknown end reason "${String(session.endReason)}"`;
+      }
+      return undefined;
+    },
+    issues,
+  );
+
+  return issues;
+}
+
+/**
+ * Version 4: compacted history is kept as a list of daily aggregates
+ */
+export function validateStateV4(state: PersistedState): string[] {
+  const issues = validateStateV3(state);
+  if (issues.length > 0) return issues;
+
+  if (!Array.isArray(state.historyArchive)) {
+    return ["historyArchive is not a list"];
+  }
+
+  validateArray(
+    state,
+    "historyArchive",
+    (aggregate) => {
+      if (!isDayKey(aggregate.date)) return "date is not a day";
+      if (typeof aggregate.totalSessions !== "number") {
+        return "has no session count";
+      }
+      return undefined;
+    },
+    issues,
+  );
+
+  return issues;
+}
+
+/**
+ * Version 5: streaks have declared days off, and the reward system keeps
+ * earned freezes and the days they covered
+ */
+export function validateStateV5(state: PersistedState): string[] {
+  const issues = validateStateV4(state);
+  if (issues.length > 0) return issues;
+
+  if (!Array.isArray(state.streakDaysOff)) {
+    return ["streakDaysOff is not a list"];
+  }
+
+  validateArray(
+    state,
+    "streakDaysOff",
+    (day) => {
+      if (!isDayKey(day.date)) return "date is not a day";
+      if (day.reason !== "vacation" && day.reason !== "sick") {
+        return `has unknown reason "${String(day.reason)}"`;
+      }
+      return undefined;
+    },
+    issues,
+  );
+
+  if (isRecord(state.rewardSystem)) {
+    const { streakFreezes, frozenDays } = state.rewardSystem;
+    if (typeof streakFreezes !== "number" || streakFreezes < 0) {
+      issues.push("rewardSystem.streakFreezes is not a positive number");
+    }
+    if (!Array.isArray(frozenDays) || !frozenDays.every(isDayKey)) {
+      issues.push("rewardSystem.frozenDays is not a list of days");
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Version 6: archived days keep completed work sessions per task
+ */
+export function validateStateV6(state: PersistedState): string[] {
+  const issues = validateStateV5(state);
+  if (issues.length > 0) return issues;
+
+  validateArray(
+    state,
+    "historyArchive",
+    (aggregate) =>
+      isRecord(aggregate.tasks) ? undefined : "has no task counts",
+    issues,
+  );
+
+  return issues;
+}
@@ -1,4 +1,5 @@
 import { PomodoroStore } from "../../types/timer";
+import { isToday } from "../../utils/date-buckets";
 
 /**
  * Session-related selectors for the timer store
@@ -49,16 +50,12 @@ export const selectWorkSessions = (state: PomodoroStore) =>
 export const selectCompletedWorkSessions = (state: PomodoroStore) => 
   state.history.filter(session => session.completed && session.type === "work");
 
-export const selectTodaysSessions = (state: PomodoroStore) => {
-  const today = new Date().toDateString();
-  return state.history.filter(session => 
-    new Date(session.startTime).toDateString() === today
-  );
-};
+export const selectTodaysSessions = (state: PomodoroStore) =>
+  state.history.filter(session => isToday(session.startTime));
 
 export const selectRecentSessions = (count: number = 10) => (state: PomodoroStore) => 
   state.history
-    .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
     .slice(0, count);
 
 // Focus period progress selectors
@@ -86,6 +83,6 @@ export const selectSessionsByProject = (projectName: string) => (state: Pomodoro
 
 export const selectSessionsInDateRange = (startDate: Date, endDate: Date) => (state: PomodoroStore) =>
   state.history.filter(session => {
-    const sessionDate = new Date(session.startTime);
+    const sessionDate = session.startTime;
     return sessionDate >= startDate && sessionDate <= endDate;
   });
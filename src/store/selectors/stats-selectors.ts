@@ -1,10 +1,14 @@
 import { PomodoroStore } from "../../types/timer";
-import { isToday, isThisWeek, isThisMonth } from "date-fns";
+import { statsEngine } from "../../utils/stats-engine";
+import { getStreakRules } from "../../utils/streaks";
 
 /**
  * Statistics-related selectors for the timer store
  */
 
+const syncStats = (state: PomodoroStore) =>
+  statsEngine.sync(state.history, state.historyArchive, getStreakRules(state));
+
 // Basic stats selectors
 export const selectStats = (state: PomodoroStore) => state.stats;
 export const selectStatsTotalSessions = (state: PomodoroStore) =>
@@ -30,20 +34,8 @@ export const selectCompletionRate = (state: PomodoroStore) => {
   return totalSessions > 0 ? (completedSessions / totalSessions) * 100 : 0;
 };
 
-export const selectAverageSessionLength = (state: PomodoroStore) => {
-  const workSessions = state.history.filter(
-    (session) => session.completed && session.type === "work"
-  );
-
-  if (workSessions.length === 0) return 0;
-
-  const totalDuration = workSessions.reduce(
-    (acc, session) => acc + session.duration,
-    0
-  );
-
-  return totalDuration / workSessions.length / 60; // Return in minutes
-};
+export const selectAverageSessionLength = (state: PomodoroStore) =>
+  syncStats(state).getDetailedStats().averageSessionLength; // in minutes
 
 export const selectTotalFocusTime = (state: PomodoroStore) => {
   return state.stats.totalWorkTime; // in seconds
@@ -62,38 +54,14 @@ export const selectProductivityScore = (state: PomodoroStore) => {
 };
 
 // Time-based stats selectors
-export const selectTodaysWorkTime = (state: PomodoroStore) => {
-  const todaysSessions = state.history.filter(
-    (session) =>
-      session.completed &&
-      session.type === "work" &&
-      isToday(new Date(session.startTime))
-  );
-
-  return todaysSessions.reduce((acc, session) => acc + session.duration, 0);
-};
+export const selectTodaysWorkTime = (state: PomodoroStore) =>
+  syncStats(state).getPeriodTotals().today.workTime;
 
-export const selectWeeksWorkTime = (state: PomodoroStore) => {
-  const weeksSessions = state.history.filter(
-    (session) =>
-      session.completed &&
-      session.type === "work" &&
-      isThisWeek(new Date(session.startTime))
-  );
+export const selectWeeksWorkTime = (state: PomodoroStore) =>
+  syncStats(state).getPeriodTotals().week.workTime;
 
-  return weeksSessions.reduce((acc, session) => acc + session.duration, 0);
-};
-
-export const selectMonthsWorkTime = (state: PomodoroStore) => {
-  const monthsSessions = state.history.filter(
-    (session) =>
-      session.completed &&
-      session.type === "work" &&
-      isThisMonth(new Date(session.startTime))
-  );
-
-  return monthsSessions.reduce((acc, session) => acc + session.duration, 0);
-};
+export const selectMonthsWorkTime = (state: PomodoroStore) =>
+  syncStats(state).getPeriodTotals().month.workTime;
 
 // Goal progress selectors
 export const selectDailyGoalProgress = (state: PomodoroStore) => {
@@ -117,35 +85,14 @@ export const selectStreakLevel = (state: PomodoroStore) => {
 
 // Performance insights selectors
 export const selectMostProductiveHour = (state: PomodoroStore) => {
-  const hourlyData: Record<number, number> = {};
-
-  state.history
-    .filter((session) => session.completed && session.type === "work")
-    .forEach((session) => {
-      const hour = new Date(session.startTime).getHours();
-      hourlyData[hour] = (hourlyData[hour] || 0) + 1;
-    });
-
-  const entries = Object.entries(hourlyData);
-  if (entries.length === 0) return null;
-
-  const [mostProductiveHour] = entries.reduce((a, b) =>
-    (a[1] as number) > (b[1] as number) ? a : b
-  );
+  const hours = syncStats(state).getWorkSessionsByHour();
+  const mostSessions = Math.max(...hours);
 
-  return parseInt(mostProductiveHour);
+  return mostSessions > 0 ? hours.indexOf(mostSessions) : null;
 };
 
 export const selectMostUsedTags = (state: PomodoroStore) => {
-  const tagCounts: Record<string, number> = {};
-
-  state.history
-    .filter((session) => session.completed && session.tags)
-    .forEach((session) => {
-      session.tags?.forEach((tag) => {
-        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-      });
-    });
+  const tagCounts = syncStats(state).getTagCounts();
 
   return Object.entries(tagCounts)
     .sort(([, a], [, b]) => b - a)
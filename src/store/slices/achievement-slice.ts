@@ -7,6 +7,8 @@ import {
   PomodoroStore,
 } from "../../types/timer";
 import { adhdSupportService } from "../../services/adhd-support-service";
+import { getFocusedDuration } from "../../utils/helpers";
+import { earnStreakFreezes } from "../../utils/streaks";
 
 /**
  * Default reward system state
@@ -17,6 +19,8 @@ export const DEFAULT_REWARD_SYSTEM: RewardSystem = {
   streakMultiplier: 1,
   achievements: [],
   dailyGoal: 4, // 4 sessions per day
+  streakFreezes: 0,
+  frozenDays: [],
 };
 
 /**
@@ -43,6 +47,7 @@ export interface AchievementSlice {
   // Achievement actions
   awardPoints: (points: number, reason: string) => void;
   unlockAchievement: (achievementId: string) => void;
+  checkAchievements: () => void;
   resetRewardSystem: () => void;
   updateDailyGoal: (goal: number) => void;
 
@@ -90,26 +95,49 @@ export const createAchievementSlice: StateCreator<
 
   // Achievement actions
   awardPoints: (points: number, _reason: string) => {
-    const { rewardSystem, history } = get();
+    const { rewardSystem, history, historyArchive } = get();
     const newPoints = rewardSystem.points + points;
     const newLevel = adhdSupportService.calculateLevel(newPoints);
 
     // Check for new achievements
-    const newAchievements = adhdSupportService.checkAchievements(history, {
-      ...rewardSystem,
-      points: newPoints,
-    });
+    const newAchievements = adhdSupportService.checkAchievements(
+      history,
+      {
+        ...rewardSystem,
+        points: newPoints,
+      },
+      historyArchive
+    );
 
     set({
       rewardSystem: {
         ...rewardSystem,
         points: newPoints,
         level: newLevel,
+        streakFreezes: earnStreakFreezes(rewardSystem, newPoints),
         achievements: [...rewardSystem.achievements, ...newAchievements],
       },
     });
   },
 
+  checkAchievements: () => {
+    const { rewardSystem, history, historyArchive } = get();
+    const newAchievements = adhdSupportService.checkAchievements(
+      history,
+      rewardSystem,
+      historyArchive
+    );
+
+    if (newAchievements.length > 0) {
+      set({
+        rewardSystem: {
+          ...rewardSystem,
+          achievements: [...rewardSystem.achievements, ...newAchievements],
+        },
+      });
+    }
+  },
+
   unlockAchievement: (achievementId: string) => {
     const { rewardSystem } = get();
     const defaultAchievements = adhdSupportService.getDefaultAchievements();
@@ -127,6 +155,10 @@ export const createAchievementSlice: StateCreator<
             { ...achievement, unlockedAt: new Date() },
           ],
           points: rewardSystem.points + achievement.points,
+          streakFreezes: earnStreakFreezes(
+            rewardSystem,
+            rewardSystem.points + achievement.points
+          ),
         },
       });
     }
@@ -156,7 +188,7 @@ export const createAchievementSlice: StateCreator<
 
     const detection = adhdSupportService.detectHyperfocus(
       completedSessions.length,
-      completedSessions.reduce((sum, s) => sum + s.duration, 0),
+      completedSessions.reduce((sum, s) => sum + getFocusedDuration(s), 0),
       hyperfocusDetection.lastBreakTime,
       config.maxConsecutiveSessions,
       config.forcedBreakAfterHours
@@ -168,7 +200,7 @@ export const createAchievementSlice: StateCreator<
         isHyperfocusDetected: detection.detected,
         consecutiveSessions: completedSessions.length,
         totalFocusTime: completedSessions.reduce(
-          (sum, s) => sum + s.duration,
+          (sum, s) => sum + getFocusedDuration(s),
           0
         ),
       },
@@ -216,6 +248,10 @@ export const createAchievementSlice: StateCreator<
         rewardSystem: {
           ...rewardSystem,
           points: rewardSystem.points + points,
+          streakFreezes: earnStreakFreezes(
+            rewardSystem,
+            rewardSystem.points + points
+          ),
         },
         currentBreakActivity: undefined,
       });
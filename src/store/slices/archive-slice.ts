@@ -0,0 +1,50 @@
+import { StateCreator } from "zustand";
+import { DailyAggregate, PomodoroStore } from "../../types/timer";
+import {
+  compactHistory,
+  getCompactionCutoff,
+} from "../../utils/history-archive";
+
+/**
+ * Archive slice interface - defines compacted history state and actions
+ */
+export interface ArchiveSlice {
+  // Archive state
+  historyArchive: DailyAggregate[];
+
+  // Archive actions
+  compactHistory: () => number;
+}
+
+/**
+ * Create archive slice that folds sessions and mood entries older than the
+ * detail retention period from preferences into daily aggregates
+ */
+export const createArchiveSlice: StateCreator<
+  PomodoroStore,
+  [],
+  [],
+  ArchiveSlice
+> = (set, get) => ({
+  // Initial state
+  historyArchive: [],
+
+  // Archive actions
+  compactHistory: () => {
+    const { history, moodEntries, historyArchive, config } = get();
+    if (config.sessionDetailDays <= 0) return 0;
+
+    const compacted = compactHistory(
+      { history, moodEntries, historyArchive },
+      getCompactionCutoff(config.sessionDetailDays)
+    );
+    if (!compacted) return 0;
+
+    set({
+      history: compacted.history,
+      moodEntries: compacted.moodEntries,
+      historyArchive: compacted.historyArchive,
+    });
+    return compacted.compactedSessions;
+  },
+});
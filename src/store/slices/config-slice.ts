@@ -1,6 +1,8 @@
 import { StateCreator } from "zustand";
 import { TimerConfig, PomodoroStore } from "../../types/timer";
 import { preferencesService } from "../../services/preferences-service";
+import { DEFAULT_DATE_BUCKET_SETTINGS } from "../../utils/date-buckets";
+import { EVERY_DAY } from "../../utils/streaks";
 
 /**
  * Default timer configuration with ADHD-friendly defaults
@@ -27,6 +29,11 @@ export const DEFAULT_CONFIG: TimerConfig = {
   enableHyperfocusDetection: true,
   maxConsecutiveSessions: 3,
   forcedBreakAfterHours: 2.5,
+  customTimerSequence: "",
+  trashRetentionDays: 30,
+  sessionDetailDays: 90,
+  workingDays: EVERY_DAY,
+  ...DEFAULT_DATE_BUCKET_SETTINGS,
 };
 
 /**
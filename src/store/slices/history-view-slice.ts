@@ -0,0 +1,77 @@
+import { StateCreator } from "zustand";
+import {
+  HistoryViewSettings,
+  PomodoroStore,
+  SavedHistoryView,
+} from "../../types/timer";
+import { generateId } from "../../utils/helpers";
+
+/**
+ * History view slice interface - defines saved Timer History views
+ */
+export interface HistoryViewSlice {
+  // History view state
+  savedHistoryViews: SavedHistoryView[];
+
+  // History view actions
+  saveHistoryView: (
+    name: string,
+    settings: HistoryViewSettings
+  ) => SavedHistoryView;
+  updateHistoryView: (
+    viewId: string,
+    updates: Partial<HistoryViewSettings> & { name?: string }
+  ) => void;
+  deleteHistoryView: (viewId: string) => void;
+}
+
+/**
+ * Create history view slice with saved view management
+ */
+export const createHistoryViewSlice: StateCreator<
+  PomodoroStore,
+  [],
+  [],
+  HistoryViewSlice
+> = (set, get) => ({
+  // Initial state
+  savedHistoryViews: [],
+
+  // History view actions
+  saveHistoryView: (name: string, settings: HistoryViewSettings) => {
+    const view: SavedHistoryView = {
+      ...settings,
+      id: generateId(),
+      name: name.trim(),
+      createdAt: new Date(),
+    };
+
+    set({ savedHistoryViews: [...get().savedHistoryViews, view] });
+    return view;
+  },
+
+  updateHistoryView: (
+    viewId: string,
+    updates: Partial<HistoryViewSettings> & { name?: string }
+  ) => {
+    set({
+      savedHistoryViews: get().savedHistoryViews.map((view) =>
+        view.id === viewId
+          ? {
+              ...view,
+              ...updates,
+              name: updates.name?.trim() || view.name,
+            }
+          : view
+      ),
+    });
+  },
+
+  deleteHistoryView: (viewId: string) => {
+    set({
+      savedHistoryViews: get().savedHistoryViews.filter(
+        (view) => view.id !== viewId
+      ),
+    });
+  },
+});
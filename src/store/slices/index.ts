@@ -8,3 +8,7 @@ export * from "./stats-slice";
 export * from "./mood-slice";
 export * from "./achievement-slice";
 export * from "./tag-slice";
+export * from "./history-view-slice";
+export * from "./trash-slice";
+export * from "./archive-slice";
+export * from "./streak-slice";
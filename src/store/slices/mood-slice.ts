@@ -20,14 +20,14 @@ export interface MoodSlice {
     sessionId?: string,
     notes?: string
   ) => void;
-  deleteMoodEntry: (entryId: string) => void;
+  deleteMoodEntry: (entryId: string) => string | null;
   updateMoodEntry: (
     entryId: string,
     updates: Partial<Omit<MoodEntry, "id" | "timestamp">>
   ) => void;
   getMoodEntries: () => MoodEntry[];
   getMoodAnalytics: () => MoodAnalytics;
-  clearAllMoodEntries: () => void;
+  clearAllMoodEntries: () => string | null;
 
   // Post-session mood prompt actions
   showPostSessionMoodPrompt: (session: TimerSession) => void;
@@ -86,9 +86,14 @@ export const createMoodSlice: StateCreator<
 
   deleteMoodEntry: (entryId: string) => {
     const { moodEntries } = get();
+    const entry = moodEntries.find((e) => e.id === entryId);
+    if (!entry) return null;
+
     set({
-      moodEntries: moodEntries.filter((entry) => entry.id !== entryId),
+      moodEntries: moodEntries.filter((e) => e.id !== entryId),
     });
+
+    return get().addToTrash([{ kind: "mood", entry }]);
   },
 
   updateMoodEntry: (
@@ -115,9 +120,15 @@ export const createMoodSlice: StateCreator<
   },
 
   clearAllMoodEntries: () => {
+    const batchId = get().addToTrash(
+      get().moodEntries.map((entry) => ({ kind: "mood" as const, entry }))
+    );
+
     set({
       moodEntries: [],
     });
+
+    return batchId;
   },
 
   // Post-session mood prompt actions
@@ -159,7 +170,7 @@ export const createMoodSlice: StateCreator<
   getMoodEntriesInDateRange: (startDate: Date, endDate: Date) => {
     const { moodEntries } = get();
     return moodEntries.filter((entry) => {
-      const entryDate = new Date(entry.timestamp);
+      const entryDate = entry.timestamp;
       return entryDate >= startDate && entryDate <= endDate;
     });
   },
@@ -167,7 +178,7 @@ export const createMoodSlice: StateCreator<
   getRecentMoodEntries: (count: number = 10) => {
     const { moodEntries } = get();
     return moodEntries
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, count);
   },
 
@@ -6,13 +6,35 @@ import {
   TimerSession,
   SessionEndReason,
   PomodoroStore,
+  TimerMethodId,
+  ManualSessionInput,
+  SessionDetailsUpdate,
+  SplitSessionPart,
 } from "../../types/timer";
 import {
   generateId,
   shouldSaveSessionToHistory,
   getActualSessionDuration,
+  closeOpenPause,
+  settleCountUpDuration,
+  validateSessionTimes,
+  retimeSession,
+  getFocusedDuration,
+  getSessionTypeLabel,
+  validateSplitTime,
+  splitSessionAt,
+  mergeSessionPair,
+  getAdjacentSession,
 } from "../../utils/helpers";
+import {
+  DEFAULT_TIMER_METHOD,
+  getLastWorkSession,
+  getTimerMethod,
+} from "../../utils/timer-methods";
 import { applicationTrackingService } from "../../services/application-tracking";
+import { adhdSupportService } from "../../services/adhd-support-service";
+import { getStreakRules } from "../../utils/streaks";
+import { getArchivedDay } from "../../utils/history-archive";
 import { calculateStats } from "./stats-slice";
 
 /**
@@ -30,6 +52,8 @@ export interface SessionSlice {
   currentFocusPeriodId: string | null;
   currentFocusPeriodSessionCount: number;
   targetRounds: number;
+  timerMethod: TimerMethodId;
+  focusWorkDuration: number | null; // Work length in seconds overriding the method
 
   // Session actions
   startTimer: (
@@ -38,7 +62,7 @@ export interface SessionSlice {
     projectName?: string,
     tags?: string[]
   ) => void;
-  pauseTimer: () => void;
+  pauseTimer: (reason?: string) => void;
   resumeTimer: () => void;
   stopTimer: () => void;
   resetTimer: () => void;
@@ -57,18 +81,112 @@ export interface SessionSlice {
 
   // Session utilities
   getNextSessionType: () => SessionType;
-  deleteSession: (sessionId: string) => void;
+  deleteSession: (sessionId: string) => string | null;
   updateSessionIcon: (sessionId: string, taskIcon?: Icon) => void;
   updateSessionNotes: (sessionId: string, notes?: string) => void;
   updateSessionName: (sessionId: string, taskName?: string) => void;
+  addManualSession: (
+    input: ManualSessionInput,
+    allowArchivedDay?: boolean
+  ) => TimerSession | null;
+  importSessions: (inputs: ManualSessionInput[], source: string) => number;
+  updateSessionTimes: (
+    sessionId: string,
+    startTime: Date,
+    endTime: Date
+  ) => boolean;
+  updateSessionDetails: (
+    sessionId: string,
+    updates: SessionDetailsUpdate
+  ) => boolean;
+  splitSession: (
+    sessionId: string,
+    splitAt: Date,
+    first: SplitSessionPart,
+    second: SplitSessionPart
+  ) => boolean;
+  mergeSessions: (firstId: string, secondId: string) => boolean;
   skipSession: () => void;
-  clearAllHistory: () => void;
+  clearAllHistory: () => string | null;
 
   // Focus period management
-  startNewFocusPeriod: (targetRounds: number) => void;
+  startNewFocusPeriod: (
+    targetRounds: number,
+    timerMethod?: TimerMethodId,
+    workDuration?: number
+  ) => void;
   resetFocusPeriod: () => void;
 }
 
+/**
+ * Builds a completed history session from times entered or imported
+ * after the fact. Manual sessions never earn points.
+ */
+function createManualSession(input: ManualSessionInput): TimerSession {
+  return {
+    id: generateId(),
+    type: input.type,
+    duration: Math.floor(
+      (input.endTime.getTime() - input.startTime.getTime()) / 1000
+    ),
+    startTime: input.startTime,
+    endTime: input.endTime,
+    completed: true,
+    endReason: SessionEndReason.COMPLETED,
+    taskName: input.taskName,
+    projectName: input.projectName,
+    tags: input.tags || [],
+    notes: input.notes,
+    manuallyAdded: true,
+  };
+}
+
+/**
+ * Points a session earned when it ended. Manual entries never earn points.
+ */
+function getEarnedPoints(session: TimerSession): number {
+  if (!session.completed || session.manuallyAdded) return 0;
+
+  return adhdSupportService.calculateSessionPoints(
+    getFocusedDuration(session),
+    true,
+    session.energyLevel,
+    session.moodState
+  );
+}
+
+/**
+ * Keeps the completed flag and end reason consistent with each other
+ */
+function normalizeEndReason(session: TimerSession): TimerSession {
+  if (session.completed) {
+    return { ...session, endReason: SessionEndReason.COMPLETED };
+  }
+  return session.endReason === SessionEndReason.COMPLETED || !session.endReason
+    ? { ...session, endReason: SessionEndReason.STOPPED }
+    : session;
+}
+
+/**
+ * Gives one half of a split its own task name and tags, dropping the task
+ * link when the half was renamed to a different task
+ */
+function applySplitPart(
+  half: TimerSession,
+  part: SplitSessionPart,
+  original: TimerSession
+): TimerSession {
+  const keepsTask = part.taskName === original.taskName;
+
+  return {
+    ...half,
+    taskName: part.taskName,
+    tags: part.tags || [],
+    taskId: keepsTask ? half.taskId : undefined,
+    projectId: keepsTask ? half.projectId : undefined,
+  };
+}
+
 /**
  * Create session slice with all session-related functionality
  */
@@ -87,6 +205,8 @@ export const createSessionSlice: StateCreator<
   currentFocusPeriodId: null,
   currentFocusPeriodSessionCount: 0,
   targetRounds: 1,
+  timerMethod: DEFAULT_TIMER_METHOD,
+  focusWorkDuration: null,
 
   // Session actions
   startTimer: (
@@ -95,23 +215,23 @@ export const createSessionSlice: StateCreator<
     projectName?: string,
     tags?: string[]
   ) => {
-    const { config } = get();
-    let duration: number;
-
-    switch (type) {
-      case SessionType.WORK:
-        duration = config.workDuration * 60;
-        break;
-      case SessionType.SHORT_BREAK:
-        duration = config.shortBreakDuration * 60;
-        break;
-      case SessionType.LONG_BREAK:
-        duration = config.longBreakDuration * 60;
-        break;
-      default:
-        duration = config.workDuration * 60;
-        break;
-    }
+    const {
+      config,
+      timerMethod,
+      focusWorkDuration,
+      currentFocusPeriodSessionCount,
+      history,
+    } = get();
+    const method = getTimerMethod(timerMethod, config);
+    const workDurationOverride =
+      type === SessionType.WORK ? focusWorkDuration : null;
+    const duration =
+      workDurationOverride ??
+      method.getSessionDuration(type, {
+        config,
+        completedWorkSessions: currentFocusPeriodSessionCount,
+        lastWorkSession: getLastWorkSession(history),
+      });
 
     const session: TimerSession = {
       id: generateId(),
@@ -122,6 +242,10 @@ export const createSessionSlice: StateCreator<
       taskName,
       projectName,
       tags: tags || [],
+      timerMethod,
+      countUp:
+        (workDurationOverride === null && method.isCountUp?.(type)) ||
+        undefined,
     };
 
     // Start application tracking for work sessions if enabled
@@ -136,17 +260,29 @@ export const createSessionSlice: StateCreator<
     });
   },
 
-  pauseTimer: () => {
-    const { state } = get();
+  pauseTimer: (reason?: string) => {
+    const { state, currentSession } = get();
     if (state === TimerState.RUNNING) {
-      set({ state: TimerState.PAUSED });
+      set({
+        state: TimerState.PAUSED,
+        currentSession: currentSession && {
+          ...currentSession,
+          pauses: [
+            ...(currentSession.pauses || []),
+            { startTime: new Date(), reason },
+          ],
+        },
+      });
     }
   },
 
   resumeTimer: () => {
-    const { state } = get();
+    const { state, currentSession } = get();
     if (state === TimerState.PAUSED) {
-      set({ state: TimerState.RUNNING });
+      set({
+        state: TimerState.RUNNING,
+        currentSession: currentSession && closeOpenPause(currentSession),
+      });
     }
   },
 
@@ -164,13 +300,14 @@ export const createSessionSlice: StateCreator<
       }
 
       // Save the stopped session to history
-      const stoppedSession: TimerSession = {
-        ...currentSession,
-        endTime: new Date(),
+      const endTime = new Date();
+      const stoppedSession: TimerSession = settleCountUpDuration({
+        ...closeOpenPause(currentSession, endTime),
+        endTime,
         completed: false, // marked as stopped/incomplete
         endReason: SessionEndReason.STOPPED,
         applicationUsage,
-      };
+      });
 
       // Check if session should be saved to history based on duration
       const shouldSave = shouldSaveSessionToHistory(stoppedSession);
@@ -184,7 +321,11 @@ export const createSessionSlice: StateCreator<
         state: TimerState.IDLE,
         timeRemaining: 0,
         history: newHistory,
-        stats: calculateStats(newHistory),
+        stats: calculateStats(
+          newHistory,
+          get().historyArchive,
+          getStreakRules(get())
+        ),
       });
 
       // Show notification if session was too short to be saved
@@ -233,13 +374,14 @@ export const createSessionSlice: StateCreator<
         applicationUsage = applicationTrackingService.stopTracking();
       }
 
-      const completedSession: TimerSession = {
-        ...currentSession,
-        endTime: new Date(),
+      const endTime = new Date();
+      const completedSession: TimerSession = settleCountUpDuration({
+        ...closeOpenPause(currentSession, endTime),
+        endTime,
         completed: true,
         endReason: SessionEndReason.COMPLETED,
         applicationUsage,
-      };
+      });
 
       // Check if session should be saved to history based on duration
       const shouldSave = shouldSaveSessionToHistory(completedSession);
@@ -267,7 +409,11 @@ export const createSessionSlice: StateCreator<
         history: newHistory,
         sessionCount: newSessionCount,
         currentFocusPeriodSessionCount: newFocusPeriodSessionCount,
-        stats: calculateStats(newHistory),
+        stats: calculateStats(
+          newHistory,
+          get().historyArchive,
+          getStreakRules(get())
+        ),
         // Remove mood prompt to fix timer stop bug
         isPostSessionMoodPromptVisible: false,
         lastCompletedSession: shouldSave ? completedSession : null,
@@ -364,23 +510,38 @@ export const createSessionSlice: StateCreator<
 
   // Session utilities
   getNextSessionType: (): SessionType => {
-    const { sessionCount, config } = get();
-
-    if (sessionCount > 0 && sessionCount % config.longBreakInterval === 0) {
-      return SessionType.LONG_BREAK;
-    }
-
-    return SessionType.SHORT_BREAK;
+    const { currentFocusPeriodSessionCount, config, timerMethod, history } =
+      get();
+
+    // Count rounds the same way BackgroundTimerService does, so both pick
+    // the same step of the cycle
+    return getTimerMethod(timerMethod, config).getNextSessionType(
+      SessionType.WORK,
+      {
+        config,
+        completedWorkSessions: currentFocusPeriodSessionCount,
+        lastWorkSession: getLastWorkSession(history),
+      }
+    );
   },
 
   deleteSession: (sessionId: string) => {
     const { history } = get();
-    const newHistory = history.filter((session) => session.id !== sessionId);
+    const session = history.find((s) => s.id === sessionId);
+    if (!session) return null;
+
+    const newHistory = history.filter((s) => s.id !== sessionId);
 
     set({
       history: newHistory,
-      stats: calculateStats(newHistory),
+      stats: calculateStats(
+        newHistory,
+        get().historyArchive,
+        getStreakRules(get())
+      ),
     });
+
+    return get().addToTrash([{ kind: "session", session }]);
   },
 
   updateSessionIcon: (sessionId: string, taskIcon?: Icon) => {
@@ -391,7 +552,11 @@ export const createSessionSlice: StateCreator<
 
     set({
       history: newHistory,
-      stats: calculateStats(newHistory),
+      stats: calculateStats(
+        newHistory,
+        get().historyArchive,
+        getStreakRules(get())
+      ),
     });
   },
 
@@ -403,7 +568,11 @@ export const createSessionSlice: StateCreator<
 
     set({
       history: newHistory,
-      stats: calculateStats(newHistory),
+      stats: calculateStats(
+        newHistory,
+        get().historyArchive,
+        getStreakRules(get())
+      ),
     });
   },
 
@@ -415,16 +584,181 @@ export const createSessionSlice: StateCreator<
 
     set({
       history: newHistory,
-      stats: calculateStats(newHistory),
+      stats: calculateStats(
+        newHistory,
+        get().historyArchive,
+        getStreakRules(get())
+      ),
     });
   },
 
+  addManualSession: (input: ManualSessionInput, allowArchivedDay = false) => {
+    const { history, historyArchive } = get();
+
+    // Reject ranges that are invalid or collide with recorded sessions
+    if (validateSessionTimes(history, input.startTime, input.endTime)) {
+      return null;
+    }
+
+    // Compacted days only keep totals, so a session there can't be checked
+    // for overlaps and is only added once the user has confirmed it
+    if (!allowArchivedDay && getArchivedDay(historyArchive, input.startTime)) {
+      return null;
+    }
+
+    const session = createManualSession(input);
+
+    // Keep history in chronological order
+    const newHistory = [...history, session].sort(
+      (a, b) => a.startTime.getTime() - b.startTime.getTime()
+    );
+
+    set({ history: newHistory });
+    get().recalculateStats();
+    get().checkAchievements();
+
+    return session;
+  },
+
+  importSessions: (inputs: ManualSessionInput[], source: string) => {
+    // Overlaps were already reviewed in the import preview, so only
+    // ranges that can't be a session at all are dropped here
+    const sessions = inputs
+      .filter((input) => input.endTime.getTime() > input.startTime.getTime())
+      .map((input) => ({
+        ...createManualSession(input),
+        importedFrom: source,
+      }));
+    if (sessions.length === 0) return 0;
+
+    const newHistory = [...get().history, ...sessions].sort(
+      (a, b) => a.startTime.getTime() - b.startTime.getTime()
+    );
+
+    set({ history: newHistory });
+    get().recalculateStats();
+    get().checkAchievements();
+
+    return sessions.length;
+  },
+
+  updateSessionTimes: (sessionId: string, startTime: Date, endTime: Date) => {
+    const { history } = get();
+    const session = history.find((s) => s.id === sessionId);
+
+    // Times must stay ordered and clear of the other sessions
+    if (
+      !session ||
+      validateSessionTimes(history, startTime, endTime, sessionId)
+    ) {
+      return false;
+    }
+
+    commitSessionEdit(
+      get,
+      set,
+      [session],
+      [retimeSession(session, startTime, endTime)]
+    );
+    return true;
+  },
+
+  updateSessionDetails: (sessionId: string, updates: SessionDetailsUpdate) => {
+    const session = get().history.find((s) => s.id === sessionId);
+    if (!session) return false;
+
+    commitSessionEdit(
+      get,
+      set,
+      [session],
+      [normalizeEndReason({ ...session, ...updates })]
+    );
+    return true;
+  },
+
+  splitSession: (
+    sessionId: string,
+    splitAt: Date,
+    first: SplitSessionPart,
+    second: SplitSessionPart
+  ) => {
+    const { moodEntries } = get();
+    const session = get().history.find((s) => s.id === sessionId);
+    if (!session || validateSplitTime(session, splitAt)) return false;
+
+    const [firstHalf, secondHalf] = splitSessionAt(
+      session,
+      splitAt,
+      generateId()
+    );
+
+    // Post-session moods belong to the half that ended the session
+    set({
+      moodEntries: moodEntries.map((entry) =>
+        entry.sessionId === sessionId &&
+        (entry.context === "post-session" ||
+          (entry.context !== "pre-session" && entry.timestamp >= splitAt))
+          ? { ...entry, sessionId: secondHalf.id }
+          : entry
+      ),
+    });
+
+    commitSessionEdit(
+      get,
+      set,
+      [session],
+      [
+        applySplitPart(firstHalf, first, session),
+        applySplitPart(secondHalf, second, session),
+      ]
+    );
+    return true;
+  },
+
+  mergeSessions: (firstId: string, secondId: string) => {
+    const { history, moodEntries } = get();
+    const first = history.find((s) => s.id === firstId);
+    const second = history.find((s) => s.id === secondId);
+
+    // Only consecutive sessions of the same type can be merged
+    if (
+      !first ||
+      !second ||
+      first.type !== second.type ||
+      getAdjacentSession(history, firstId, "next")?.id !== secondId
+    ) {
+      return false;
+    }
+
+    // The merged session keeps the first id, so move the second's moods
+    set({
+      moodEntries: moodEntries.map((entry) =>
+        entry.sessionId === secondId ? { ...entry, sessionId: firstId } : entry
+      ),
+    });
+
+    commitSessionEdit(
+      get,
+      set,
+      [first, second],
+      [normalizeEndReason(mergeSessionPair(first, second))]
+    );
+    return true;
+  },
+
   // Focus period management
-  startNewFocusPeriod: (targetRounds: number) => {
+  startNewFocusPeriod: (
+    targetRounds: number,
+    timerMethod?: TimerMethodId,
+    workDuration?: number
+  ) => {
     set({
       currentFocusPeriodId: generateId(),
       currentFocusPeriodSessionCount: 0,
       targetRounds,
+      // Keep the previous method when none is chosen for this focus period
+      timerMethod: timerMethod ?? get().timerMethod,
+      focusWorkDuration: workDuration ?? null,
     });
   },
 
@@ -433,6 +767,7 @@ export const createSessionSlice: StateCreator<
       currentFocusPeriodId: null,
       currentFocusPeriodSessionCount: 0,
       targetRounds: 1,
+      focusWorkDuration: null,
     });
   },
 
@@ -450,6 +785,10 @@ export const createSessionSlice: StateCreator<
   },
 
   clearAllHistory: () => {
+    const batchId = get().addToTrash(
+      get().history.map((session) => ({ kind: "session" as const, session }))
+    );
+
     set({
       history: [],
       sessionCount: 0,
@@ -457,7 +796,45 @@ export const createSessionSlice: StateCreator<
 
     // Recalculate stats after clearing history
     set({
-      stats: calculateStats([]),
+      stats: calculateStats([], get().historyArchive, getStreakRules(get())),
     });
+
+    return batchId;
   },
 });
+
+/**
+ * Replaces edited history sessions, then recomputes stats and settles
+ * the points difference when the edit changes what the sessions earned
+ */
+function commitSessionEdit(
+  get: () => PomodoroStore,
+  set: (partial: Partial<PomodoroStore>) => void,
+  before: TimerSession[],
+  after: TimerSession[]
+) {
+  const { history, config } = get();
+  const replacedIds = new Set(before.map((session) => session.id));
+
+  // Keep history in chronological order
+  const newHistory = [
+    ...history.filter((session) => !replacedIds.has(session.id)),
+    ...after,
+  ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  set({ history: newHistory });
+  get().recalculateStats();
+
+  const sumPoints = (sessions: TimerSession[]) =>
+    sessions.reduce((sum, session) => sum + getEarnedPoints(session), 0);
+  const pointsDelta = sumPoints(after) - sumPoints(before);
+  if (config.enableRewardSystem && pointsDelta !== 0) {
+    // Never take away more points than the user has
+    get().awardPoints(
+      Math.max(pointsDelta, -get().rewardSystem.points),
+      `Edited ${getSessionTypeLabel(after[0].type)} session`
+    );
+  } else {
+    get().checkAchievements();
+  }
+}
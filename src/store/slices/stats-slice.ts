@@ -1,6 +1,13 @@
 import { StateCreator } from "zustand";
-import { isToday, isThisWeek, isThisMonth } from "date-fns";
-import { TimerStats, TimerSession, SessionType, PomodoroStore } from "../../types/timer";
+import {
+  TimerStats,
+  TimerSession,
+  PomodoroStore,
+  DailyAggregate,
+  StreakRules,
+} from "../../types/timer";
+import { statsEngine } from "../../utils/stats-engine";
+import { getStreakRules } from "../../utils/streaks";
 
 /**
  * Default timer statistics
@@ -41,88 +48,16 @@ export interface StatsSlice {
 }
 
 /**
- * Calculate comprehensive statistics from session history
+ * Calculate comprehensive statistics from session history and the daily
+ * totals of compacted history, counting streaks by `streakRules`. Only
+ * sessions that changed since the last call are counted again.
  */
-export function calculateStats(history: TimerSession[]): TimerStats {
-  const completedSessions = history.filter((s) => s.completed);
-  const workSessions = completedSessions.filter(
-    (s) => s.type === SessionType.WORK
-  );
-  const breakSessions = completedSessions.filter(
-    (s) => s.type !== SessionType.WORK
-  );
-
-  const totalWorkTime = workSessions.reduce(
-    (acc, session) => acc + session.duration,
-    0
-  );
-  const totalBreakTime = breakSessions.reduce(
-    (acc, session) => acc + session.duration,
-    0
-  );
-
-  const todaysSessions = completedSessions.filter((s) =>
-    isToday(new Date(s.startTime))
-  ).length;
-  const weekSessions = completedSessions.filter((s) =>
-    isThisWeek(new Date(s.startTime))
-  ).length;
-  const monthSessions = completedSessions.filter((s) =>
-    isThisMonth(new Date(s.startTime))
-  ).length;
-
-  // Calculate streak (consecutive days with completed sessions)
-  const streakCount = calculateStreak(completedSessions);
-
-  return {
-    totalSessions: history.length,
-    completedSessions: completedSessions.length,
-    totalWorkTime,
-    totalBreakTime,
-    streakCount,
-    todaysSessions,
-    weekSessions,
-    monthSessions,
-  };
-}
-
-/**
- * Calculate consecutive days streak
- */
-function calculateStreak(sessions: TimerSession[]): number {
-  if (sessions.length === 0) return 0;
-
-  const sessionsByDate = new Map<string, TimerSession[]>();
-
-  sessions.forEach((session) => {
-    const dateKey = new Date(session.startTime).toDateString();
-    if (!sessionsByDate.has(dateKey)) {
-      sessionsByDate.set(dateKey, []);
-    }
-    sessionsByDate.get(dateKey)!.push(session);
-  });
-
-  const sortedDates = Array.from(sessionsByDate.keys()).sort(
-    (a, b) => new Date(b).getTime() - new Date(a).getTime()
-  );
-
-  let streak = 0;
-  const currentDate = new Date();
-
-  for (const dateStr of sortedDates) {
-    const sessionDate = new Date(dateStr);
-    const daysDiff = Math.floor(
-      (currentDate.getTime() - sessionDate.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    if (daysDiff === streak) {
-      streak++;
-    } else if (daysDiff > streak) {
-      break;
-    }
-  }
-
-  return streak;
+export function calculateStats(
+  history: TimerSession[],
+  archive: DailyAggregate[] = [],
+  streakRules?: StreakRules
+): TimerStats {
+  return statsEngine.sync(history, archive, streakRules).getStats();
 }
 
 /**
@@ -139,8 +74,12 @@ export const createStatsSlice: StateCreator<
 
   // Statistics actions
   recalculateStats: () => {
-    const { history } = get();
-    const newStats = calculateStats(history);
+    const { history, historyArchive } = get();
+    const newStats = calculateStats(
+      history,
+      historyArchive,
+      getStreakRules(get())
+    );
     set({ stats: newStats });
   },
 
@@ -187,18 +126,10 @@ export const createStatsSlice: StateCreator<
   },
 
   getAverageSessionLength: () => {
-    const { history } = get();
-    const workSessions = history.filter(
-      (s) => s.completed && s.type === SessionType.WORK
-    );
-    
-    if (workSessions.length === 0) return 0;
-    
-    const totalDuration = workSessions.reduce(
-      (acc, session) => acc + session.duration,
-      0
-    );
-    
-    return totalDuration / workSessions.length / 60; // Return in minutes
+    const { history, historyArchive } = get();
+    const stats = statsEngine
+      .sync(history, historyArchive, getStreakRules(get()))
+      .getDetailedStats();
+    return stats.averageSessionLength; // in minutes
   },
 });
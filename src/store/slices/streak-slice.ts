@@ -0,0 +1,103 @@
+import { StateCreator } from "zustand";
+import { eachDayOfInterval } from "date-fns";
+import { PomodoroStore, StreakDayOff, StreakStatus } from "../../types/timer";
+import { toDayKey } from "../../utils/date-buckets";
+import { statsEngine } from "../../utils/stats-engine";
+import { findDaysToFreeze, getStreakRules } from "../../utils/streaks";
+
+/**
+ * Streak slice interface - defines days off and streak freeze state and actions
+ */
+export interface StreakSlice {
+  // Streak state
+  streakDaysOff: StreakDayOff[];
+
+  // Streak actions
+  addStreakDaysOff: (
+    start: Date,
+    end: Date,
+    reason: StreakDayOff["reason"]
+  ) => void;
+  removeStreakDayOff: (date: string) => void;
+  applyStreakFreezes: () => number;
+  getStreakStatus: () => StreakStatus;
+}
+
+/**
+ * Create streak slice that keeps streaks going across declared days off and
+ * spends earned freezes on missed working days
+ */
+export const createStreakSlice: StateCreator<
+  PomodoroStore,
+  [],
+  [],
+  StreakSlice
+> = (set, get) => ({
+  // Initial state
+  streakDaysOff: [],
+
+  // Streak actions
+  addStreakDaysOff: (
+    start: Date,
+    end: Date,
+    reason: StreakDayOff["reason"]
+  ) => {
+    const days = eachDayOfInterval(
+      start <= end ? { start, end } : { start: end, end: start }
+    ).map((day) => toDayKey(day));
+    const added = new Set(days);
+
+    set({
+      streakDaysOff: [
+        ...get().streakDaysOff.filter((day) => !added.has(day.date)),
+        ...days.map((date) => ({ date, reason })),
+      ].sort((a, b) => a.date.localeCompare(b.date)),
+    });
+    get().recalculateStats();
+  },
+
+  removeStreakDayOff: (date: string) => {
+    set({
+      streakDaysOff: get().streakDaysOff.filter((day) => day.date !== date),
+    });
+    get().recalculateStats();
+  },
+
+  applyStreakFreezes: () => {
+    const state = get();
+    const { rewardSystem } = state;
+    const rules = getStreakRules(state);
+    const activeDays = statsEngine
+      .sync(state.history, state.historyArchive, rules)
+      .getActiveDays();
+
+    const days = findDaysToFreeze(
+      activeDays,
+      rules,
+      rewardSystem.streakFreezes
+    );
+    if (days.length === 0) return 0;
+
+    set({
+      rewardSystem: {
+        ...rewardSystem,
+        streakFreezes: rewardSystem.streakFreezes - days.length,
+        frozenDays: [...rewardSystem.frozenDays, ...days].sort(),
+      },
+    });
+    get().recalculateStats();
+    return days.length;
+  },
+
+  getStreakStatus: () => {
+    const state = get();
+    const streaks = statsEngine
+      .sync(state.history, state.historyArchive, getStreakRules(state))
+      .getStreaks();
+
+    return {
+      ...streaks,
+      freezesAvailable: state.rewardSystem.streakFreezes,
+    };
+  },
+});
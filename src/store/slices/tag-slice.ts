@@ -27,9 +27,9 @@ export interface TagSlice {
   getCustomTags: () => string[];
   markCustomTagCreated: () => void;
   updateTagConfig: (tagName: string, config: Partial<CustomTagConfig>) => void;
-  deleteCustomTag: (tagName: string) => void;
+  deleteCustomTag: (tagName: string) => string | null;
   getTagConfig: (tagName: string) => CustomTagConfig | undefined;
-  clearAllTags: () => void;
+  clearAllTags: () => string | null;
 
   // Session tag actions
   addTagToCurrentSession: (tag: string) => void;
@@ -110,12 +110,24 @@ export const createTagSlice: StateCreator<
 
   deleteCustomTag: (tagName: string) => {
     const { customTags, customTagConfigs } = get();
+    if (!customTags.includes(tagName)) return null;
+
+    const batchId = get().addToTrash([
+      {
+        kind: "tag",
+        tag: tagName,
+        config: customTagConfigs.find((tc) => tc.name === tagName),
+      },
+    ]);
+
     set({
       customTags: customTags.filter((tag) => tag !== tagName),
       customTagConfigs: customTagConfigs.filter(
         (tc) => tc.name !== tagName
       ),
     });
+
+    return batchId;
   },
 
   getTagConfig: (tagName: string): CustomTagConfig | undefined => {
@@ -126,6 +138,16 @@ export const createTagSlice: StateCreator<
   clearAllTags: () => {
     const { customTags, customTagConfigs } = get();
 
+    const batchId = get().addToTrash(
+      customTags
+        .filter((tag) => !PREDEFINED_TAGS.includes(tag))
+        .map((tag) => ({
+          kind: "tag" as const,
+          tag,
+          config: customTagConfigs.find((tc) => tc.name === tag),
+        }))
+    );
+
     // Keep only built-in tags
     const filteredCustomTags = customTags.filter((tag) =>
       PREDEFINED_TAGS.includes(tag)
@@ -139,6 +161,8 @@ export const createTagSlice: StateCreator<
       customTagConfigs: filteredCustomTagConfigs,
       hasCreatedCustomTag: filteredCustomTags.length > PREDEFINED_TAGS.length,
     });
+
+    return batchId;
   },
 
   // Session tag actions
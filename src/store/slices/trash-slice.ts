@@ -0,0 +1,168 @@
+import { StateCreator } from "zustand";
+import {
+  PomodoroStore,
+  TrashContent,
+  TrashItem,
+  TimerSession,
+  MoodEntry,
+  CustomTagConfig,
+} from "../../types/timer";
+import { generateId } from "../../utils/helpers";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trash slice interface - defines state and actions for deleted data
+ */
+export interface TrashSlice {
+  // Trash state
+  trash: TrashItem[];
+
+  // Trash actions
+  addToTrash: (contents: TrashContent[]) => string | null;
+  restoreFromTrash: (itemIds: string[]) => void;
+  restoreTrashBatch: (batchId: string) => void;
+  purgeFromTrash: (itemIds: string[]) => void;
+  emptyTrash: () => void;
+  purgeExpiredTrash: () => void;
+}
+
+/**
+ * Create trash slice that keeps deleted sessions, tags and mood entries
+ * restorable until the retention period from preferences runs out
+ */
+export const createTrashSlice: StateCreator<
+  PomodoroStore,
+  [],
+  [],
+  TrashSlice
+> = (set, get) => ({
+  // Initial state
+  trash: [],
+
+  // Trash actions
+  addToTrash: (contents: TrashContent[]) => {
+    if (contents.length === 0) return null;
+
+    // Expired items are dropped whenever something new is deleted
+    get().purgeExpiredTrash();
+
+    const batchId = generateId();
+    const deletedAt = new Date();
+    const items: TrashItem[] = contents.map((content) => ({
+      ...content,
+      id: generateId(),
+      batchId,
+      deletedAt,
+    }));
+
+    set({ trash: [...items, ...get().trash] });
+    return batchId;
+  },
+
+  restoreFromTrash: (itemIds: string[]) => {
+    const ids = new Set(itemIds);
+    const items = get().trash.filter((item) => ids.has(item.id));
+    if (items.length === 0) return;
+
+    restoreItems(get, set, items);
+    set({ trash: get().trash.filter((item) => !ids.has(item.id)) });
+  },
+
+  restoreTrashBatch: (batchId: string) => {
+    get().restoreFromTrash(
+      get()
+        .trash.filter((item) => item.batchId === batchId)
+        .map((item) => item.id)
+    );
+  },
+
+  purgeFromTrash: (itemIds: string[]) => {
+    const ids = new Set(itemIds);
+    set({ trash: get().trash.filter((item) => !ids.has(item.id)) });
+  },
+
+  emptyTrash: () => {
+    set({ trash: [] });
+  },
+
+  purgeExpiredTrash: () => {
+    const { trash, config } = get();
+    const cutoff = Date.now() - config.trashRetentionDays * DAY_IN_MS;
+    const kept = trash.filter((item) => item.deletedAt.getTime() >= cutoff);
+
+    if (kept.length !== trash.length) {
+      set({ trash: kept });
+    }
+  },
+});
+
+/**
+ * Puts trashed sessions, tags and mood entries back where they came from,
+ * skipping anything that already exists again
+ */
+function restoreItems(
+  get: () => PomodoroStore,
+  set: (partial: Partial<PomodoroStore>) => void,
+  items: TrashItem[]
+) {
+  const { history, moodEntries, customTags, customTagConfigs } = get();
+
+  const sessions: TimerSession[] = [];
+  const moods: MoodEntry[] = [];
+  const tags: string[] = [];
+  const tagConfigs: CustomTagConfig[] = [];
+
+  items.forEach((item) => {
+    switch (item.kind) {
+      case "session":
+        sessions.push(item.session);
+        break;
+      case "mood":
+        moods.push(item.entry);
+        break;
+      case "tag":
+        tags.push(item.tag);
+        if (item.config) tagConfigs.push(item.config);
+        break;
+    }
+  });
+
+  if (sessions.length > 0) {
+    const existingIds = new Set(history.map((session) => session.id));
+
+    // Keep history in chronological order
+    const newHistory = [
+      ...history,
+      ...sessions.filter((session) => !existingIds.has(session.id)),
+    ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    set({ history: newHistory });
+    get().recalculateStats();
+  }
+
+  if (moods.length > 0) {
+    const existingIds = new Set(moodEntries.map((entry) => entry.id));
+    set({
+      moodEntries: [
+        ...moodEntries,
+        ...moods.filter((entry) => !existingIds.has(entry.id)),
+      ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+    });
+  }
+
+  if (tags.length > 0) {
+    const existingConfigs = new Set(customTagConfigs.map((tc) => tc.name));
+    set({
+      customTags: [
+        ...customTags,
+        ...tags.filter((tag) => !customTags.includes(tag)),
+      ],
+      customTagConfigs: [
+        ...customTagConfigs,
+        ...tagConfigs.filter((tc) => !existingConfigs.has(tc.name)),
+      ],
+      hasCreatedCustomTag: true,
+    });
+  }
+}
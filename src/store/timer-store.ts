@@ -1,6 +1,11 @@
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
-import { TimerState } from "../types/timer";
+import { PomodoroStore, TimerState } from "../types/timer";
+import { configureDateBuckets } from "../utils/date-buckets";
+import {
+  reviveDateFields,
+  TIMER_STORE_DATE_FIELDS,
+} from "../utils/zustand-storage";
 import {
   SessionSlice,
   createSessionSlice,
@@ -14,6 +19,14 @@ import {
   createAchievementSlice,
   TagSlice,
   createTagSlice,
+  HistoryViewSlice,
+  createHistoryViewSlice,
+  TrashSlice,
+  createTrashSlice,
+  ArchiveSlice,
+  createArchiveSlice,
+  StreakSlice,
+  createStreakSlice,
 } from "./slices";
 import { withPersistence } from "./middleware";
 
@@ -26,7 +39,11 @@ export interface CombinedPomodoroStore
     StatsSlice,
     MoodSlice,
     AchievementSlice,
-    TagSlice {}
+    TagSlice,
+    HistoryViewSlice,
+    TrashSlice,
+    ArchiveSlice,
+    StreakSlice {}
 
 /**
  * Create the main timer store by combining all slices
@@ -41,6 +58,10 @@ export const useTimerStore = create<CombinedPomodoroStore>()(
       ...createMoodSlice(...args),
       ...createAchievementSlice(...args),
       ...createTagSlice(...args),
+      ...createHistoryViewSlice(...args),
+      ...createTrashSlice(...args),
+      ...createArchiveSlice(...args),
+      ...createStreakSlice(...args),
     }))
   )
 );
@@ -54,12 +75,26 @@ export const initializeTimerStore = () => {
   // Refresh config from native preferences
   store.refreshConfigFromPreferences();
 
+  // Group days and weeks by the configured day start and week start
+  configureDateBuckets(useTimerStore.getState().config);
+
   // Initialize predefined tags
   store.initializePredefinedTags();
 
   // Recalculate stats on initialization
   store.recalculateStats();
 
+  // Preferences win over the config saved with the store. Then fold
+  // sessions past the detail retention period into daily totals, delete
+  // trash past its retention period and spend streak freezes on missed
+  // days once saved history has loaded
+  timerStoreUtils.waitForHydration().then(() => {
+    useTimerStore.getState().refreshConfigFromPreferences();
+    useTimerStore.getState().compactHistory();
+    useTimerStore.getState().purgeExpiredTrash();
+    useTimerStore.getState().applyStreakFreezes();
+  });
+
   // Set up subscriptions for automatic updates
   setupStoreSubscriptions();
 };
@@ -68,6 +103,20 @@ export const initializeTimerStore = () => {
  * Set up store subscriptions for automatic updates
  */
 function setupStoreSubscriptions() {
+  // Regroup stats when the day start or week start changes
+  useTimerStore.subscribe(
+    (state) => state.config,
+    (config, prevConfig) => {
+      if (
+        config.dayStartHour !== prevConfig.dayStartHour ||
+        config.weekStartsOn !== prevConfig.weekStartsOn
+      ) {
+        configureDateBuckets(config);
+        useTimerStore.getState().recalculateStats();
+      }
+    }
+  );
+
   // Automatically recalculate stats when history changes
   useTimerStore.subscribe(
     (state) => state.history,
@@ -129,12 +178,33 @@ export const timerStoreUtils = {
       currentFocusPeriodId: null,
       currentFocusPeriodSessionCount: 0,
       targetRounds: 1,
+      focusWorkDuration: null,
+      savedHistoryViews: [],
+      trash: [],
+      historyArchive: [],
+      streakDaysOff: [],
     });
 
     // Reinitialize
     initializeTimerStore();
   },
 
+  /**
+   * Resolve once persisted state has been loaded from storage
+   */
+  waitForHydration: (): Promise<void> => {
+    if (useTimerStore.persist.hasHydrated()) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const unsubscribe = useTimerStore.persist.onFinishHydration(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
+  },
+
   /**
    * Get store state snapshot for debugging
    */
@@ -201,7 +271,10 @@ export const timerStoreUtils = {
         throw new Error("Invalid backup format");
       }
 
-      const { data } = backup;
+      const data = reviveDateFields<Partial<PomodoroStore>>(
+        backup.data,
+        TIMER_STORE_DATE_FIELDS
+      );
 
       // Import data
       useTimerStore.setState({
@@ -0,0 +1,112 @@
+import { Action, ActionPanel, Icon, List } from "@raycast/api";
+import { useMemo, useState } from "react";
+import { TaskForm, TaskListItem } from "./commands/tasks/components";
+import { useTasks } from "./commands/tasks/hooks";
+import { NO_PROJECT, sortTasks } from "./commands/tasks/utils";
+import { taskService } from "./services/task-service";
+import { getTaskSessions } from "./utils/task-linking";
+
+const ALL_PROJECTS = "all";
+
+export default function TasksCommand() {
+  const [projectFilter, setProjectFilter] = useState(ALL_PROJECTS);
+  const {
+    isLoading,
+    tasks,
+    projects,
+    history,
+    config,
+    saveTask,
+    setPriority,
+    setEstimate,
+    toggleCompleted,
+    deleteTask,
+    startFocusOnTask,
+  } = useTasks();
+
+  const { activeTasks, completedTasks } = useMemo(() => {
+    const filtered = tasks.filter(
+      (task) =>
+        projectFilter === ALL_PROJECTS ||
+        (task.project || NO_PROJECT) === projectFilter,
+    );
+    return {
+      activeTasks: sortTasks(filtered.filter((task) => !task.completedAt)),
+      completedTasks: filtered
+        .filter((task) => task.completedAt)
+        .sort(
+          (a, b) =>
+            new Date(b.completedAt!).getTime() -
+            new Date(a.completedAt!).getTime(),
+        ),
+    };
+  }, [tasks, projectFilter]);
+
+  const newTaskAction = (
+    <Action.Push
+      title="New Task"
+      icon={Icon.Plus}
+      target={<TaskForm projects={projects} onSubmit={saveTask} />}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+    />
+  );
+
+  const renderTask = (task: (typeof tasks)[number]) => (
+    <TaskListItem
+      key={task.id}
+      task={task}
+      project={task.project ? taskService.getProject(task.project) : undefined}
+      projects={projects}
+      progress={taskService.getTaskProgress(task.id)}
+      sessions={getTaskSessions(task.id, history)}
+      workDurationMinutes={config.workDuration}
+      onStartFocus={startFocusOnTask}
+      onSave={saveTask}
+      onSetPriority={setPriority}
+      onSetEstimate={setEstimate}
+      onToggleCompleted={toggleCompleted}
+      onDelete={deleteTask}
+    />
+  );
+
+  return (
+    <List
+      navigationTitle="Tasks"
+      isLoading={isLoading}
+      searchBarPlaceholder="Search tasks, projects and tags"
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Filter by Project"
+          value={projectFilter}
+          onChange={setProjectFilter}
+        >
+          <List.Dropdown.Item value={ALL_PROJECTS} title="All Projects" />
+          <List.Dropdown.Item value={NO_PROJECT} title="No Project" />
+          {projects.map((project) => (
+            <List.Dropdown.Item
+              key={project.id}
+              value={project.id}
+              title={project.name}
+            />
+          ))}
+        </List.Dropdown>
+      }
+      actions={<ActionPanel>{newTaskAction}</ActionPanel>}
+    >
+      <List.EmptyView
+        icon={Icon.BullsEye}
+        title="No Tasks Yet"
+        description="Press Cmd+N to create a task, then start a focus round on it"
+        actions={<ActionPanel>{newTaskAction}</ActionPanel>}
+      />
+
+      <List.Section title="To Do" subtitle={`${activeTasks.length}`}>
+        {activeTasks.map(renderTask)}
+      </List.Section>
+
+      <List.Section title="Completed" subtitle={`${completedTasks.length}`}>
+        {completedTasks.map(renderTask)}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * Test script for chunked storage
+ * Checks that history and separate fields read back as they were written
+ * after adds, edits, moves and deletes, that a timer tick only rewrites the
+ * main key, and that values written before chunking can still be read
+ */
+
+import { format, subDays } from "date-fns";
+import { createSessionAt } from "./test-fixtures";
+import { TimerSession } from "./types/timer";
+import {
+  createChunkedZustandStorage,
+  getHistoryMonthKey,
+  getStateFieldKey,
+  SESSION_DATE_FIELDS,
+  StorageBackend,
+} from "./utils/zustand-storage";
+
+type TestState = {
+  history: TimerSession[];
+  trash: TimerSession[];
+  timeRemaining: number;
+};
+
+const DATE_FIELDS = {
+  history: SESSION_DATE_FIELDS,
+  trash: SESSION_DATE_FIELDS,
+};
+
+/**
+ * In-memory storage that records the keys written to it
+ */
+function createBackend() {
+  const items = new Map<string, string>();
+  const writtenKeys: string[] = [];
+
+  const backend: StorageBackend = {
+    getItem: async (key) => items.get(key),
+    setItem: async (key, value) => {
+      writtenKeys.push(key);
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+
+  return { backend, items, writtenKeys };
+}
+
+const createSession = (id: string, daysAgo: number) =>
+  createSessionAt(subDays(new Date(2026, 5, 15, 9), daysAgo), { id });
+
+/**
+ * Session ids and start times in start time order, for comparing histories
+ */
+const describeHistory = (history: TimerSession[]) =>
+  [...history]
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    .map((session) => `${session.id}@${session.startTime.toISOString()}`)
+    .join(",");
+
+/**
+ * Every change to history reads back the same from a fresh storage
+ */
+async function testRoundTrip(): Promise<boolean> {
+  console.log("🧪 Testing round trips after history changes...");
+
+  const { backend, items } = createBackend();
+  const storage = createChunkedZustandStorage<TestState>(DATE_FIELDS, backend, [
+    "trash",
+  ]);
+  const trash = [createSession("trashed", 3)];
+  let history = Array.from({ length: 90 }, (_, i) =>
+    createSession(`session-${i}`, 90 - i),
+  );
+
+  const steps: [string, (history: TimerSession[]) => TimerSession[]][] = [
+    ["initial", (h) => h],
+    ["add", (h) => [...h, createSession("new", 0)]],
+    [
+      "edit",
+      (h) => h.map((s, i) => (i === 10 ? { ...s, completed: false } : s)),
+    ],
+    [
+      "move",
+      (h) =>
+        h.map((s, i) =>
+          i === 20 ? { ...s, startTime: new Date(2026, 0, 1) } : s,
+        ),
+    ],
+    ["delete month", (h) => h.filter((s) => s.startTime.getMonth() !== 3)],
+    ["clear", () => []],
+  ];
+
+  for (const [label, update] of steps) {
+    history = update(history);
+    await storage.setItem("test", {
+      state: { history, trash, timeRemaining: 0 },
+      version: 0,
+    });
+
+    const stored = await createChunkedZustandStorage<TestState>(
+      DATE_FIELDS,
+      backend,
+      ["trash"],
+    ).getItem("test");
+    const expectedMonths = new Set(
+      history.map((s) =>
+        getHistoryMonthKey("test", format(s.startTime, "yyyy-MM")),
+      ),
+    );
+    const storedMonths = Array.from(items.keys()).filter((key) =>
+      expectedMonths.has(key),
+    );
+    const monthKeys = Array.from(items.keys()).filter((key) =>
+      key.startsWith("test-history-"),
+    );
+
+    if (
+      !stored ||
+      describeHistory(stored.state.history) !== describeHistory(history) ||
+      describeHistory(stored.state.trash) !== describeHistory(trash) ||
+      storedMonths.length !== expectedMonths.size ||
+      monthKeys.length !== expectedMonths.size
+    ) {
+      console.log(`❌ Stored state is wrong after ${label}`);
+      return false;
+    }
+  }
+
+  console.log(`✅ ${steps.length} changes read back as written`);
+  return true;
+}
+
+/**
+ * A tick leaves history and trash alone, and trash is written again only
+ * when it changes
+ */
+async function testTickWritesMainKey(): Promise<boolean> {
+  console.log("🧪 Testing what a tick writes...");
+
+  const { backend, writtenKeys } = createBackend();
+  const storage = createChunkedZustandStorage<TestState>(DATE_FIELDS, backend, [
+    "trash",
+  ]);
+  const history = [createSession("a", 40), createSession("b", 1)];
+  const trash = [createSession("trashed", 3)];
+
+  await storage.setItem("test", {
+    state: { history, trash, timeRemaining: 60 },
+    version: 0,
+  });
+  writtenKeys.length = 0;
+  await storage.setItem("test", {
+    state: { history, trash, timeRemaining: 59 },
+    version: 0,
+  });
+  const tickKeys = [...writtenKeys];
+
+  writtenKeys.length = 0;
+  await storage.setItem("test", {
+    state: { history, trash: [], timeRemaining: 59 },
+    version: 0,
+  });
+
+  if (
+    tickKeys.join() !== "test" ||
+    writtenKeys.join() !== `${getStateFieldKey("test", "trash")},test`
+  ) {
+    console.log(`❌ Wrote ${tickKeys.join()} then ${writtenKeys.join()}`);
+    return false;
+  }
+
+  console.log("✅ Ticks only rewrite the main key");
+  return true;
+}
+
+/**
+ * State written in one key before chunking is read and then split up
+ */
+async function testReadsUnchunkedValue(): Promise<boolean> {
+  console.log("🧪 Testing values written before chunking...");
+
+  const { backend, items } = createBackend();
+  const history = [createSession("a", 40), createSession("b", 1)];
+  const trash = [createSession("trashed", 3)];
+  items.set(
+    "test",
+    JSON.stringify({ state: { history, trash, timeRemaining: 0 }, version: 0 }),
+  );
+
+  const storage = createChunkedZustandStorage<TestState>(DATE_FIELDS, backend, [
+    "trash",
+  ]);
+  const stored = await storage.getItem("test");
+  if (!stored) {
+    console.log("❌ Nothing was read");
+    return false;
+  }
+  await storage.setItem("test", stored);
+  const main = JSON.parse(items.get("test")!);
+
+  if (
+    describeHistory(stored.state.history) !== describeHistory(history) ||
+    main.state.history !== undefined ||
+    main.state.trash !== undefined ||
+    !items.has(getStateFieldKey("test", "trash"))
+  ) {
+    console.log("❌ Unchunked value wasn't read or split up");
+    return false;
+  }
+
+  console.log("✅ Unchunked value read and split up");
+  return true;
+}
+
+/**
+ * Run all chunked storage tests
+ */
+async function runChunkedStorageTests() {
+  console.log("🚀 Running chunked storage tests\n");
+
+  const results = {
+    roundTrip: await testRoundTrip(),
+    tickWritesMainKey: await testTickWritesMainKey(),
+    readsUnchunkedValue: await testReadsUnchunkedValue(),
+  };
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🎯 Test Results Summary:");
+  Object.entries(results).forEach(([name, passed]) => {
+    console.log(`  ${name}: ${passed ? "✅ PASS" : "❌ FAIL"}`);
+  });
+
+  const allPassed = Object.values(results).every((result) => result);
+  console.log(allPassed ? "\n✅ ALL TESTS PASSED" : "\n❌ SOME TESTS FAILED");
+  return allPassed;
+}
+
+export { runChunkedStorageTests };
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runChunkedStorageTests();
+}
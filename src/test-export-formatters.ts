@@ -0,0 +1,135 @@
+/**
+ * Test script for export formatters
+ * Checks that CSV cells with quotes, delimiters and line breaks are quoted,
+ * and that iCalendar text is escaped and folded without splitting characters
+ */
+
+import {
+  buildExportRecords,
+  formatRecordsAsCSV,
+  formatRecordsAsICS,
+} from "./services/export/export-formatters";
+import { createSessionAt } from "./test-fixtures";
+import { TimerSession } from "./types/timer";
+
+const NOTES = 'Said "ship it", then\r\nfixed; the build\nagain';
+
+const createSession = (details: Partial<TimerSession> = {}) =>
+  createSessionAt(new Date(Date.UTC(2026, 0, 5, 9)), {
+    id: "session-1",
+    ...details,
+  });
+
+/**
+ * Cells with quotes, commas and line breaks are quoted with doubled quotes,
+ * and rows end in CRLF
+ */
+function testCSVQuoting(): boolean {
+  console.log("🧪 Testing CSV quoting...");
+
+  const csv = formatRecordsAsCSV(
+    buildExportRecords(
+      [createSession({ taskName: "Plain task", notes: NOTES })],
+      [],
+    ),
+  );
+  const [header, row, ...rest] = csv.split("\r\n");
+
+  const checks = [
+    header.startsWith("ID,Date,Start Time"),
+    row.startsWith("session-1,"),
+    row.includes(",Plain task,"),
+    row.includes('"Said ""ship it"", then'),
+    rest.join("\r\n").startsWith('fixed; the build\nagain",'),
+  ];
+  if (checks.some((passed) => !passed)) {
+    console.log(`❌ Unexpected CSV: ${JSON.stringify(csv)}`);
+    return false;
+  }
+
+  console.log("✅ Special characters quoted");
+  return true;
+}
+
+/**
+ * Undo line folding (RFC 5545 section 3.1)
+ */
+const unfoldICS = (ics: string): string => ics.replace(/\r\n /g, "");
+
+/**
+ * Text values are escaped, and long lines are folded at 75 octets without
+ * splitting multi-byte characters
+ */
+function testICSFoldingAndEscaping(): boolean {
+  console.log("🧪 Testing iCalendar folding and escaping...");
+
+  const taskName = `Écrire la spécification, partie 1; ${"très ".repeat(20)}longue 🎯`;
+  const ics = formatRecordsAsICS(
+    buildExportRecords(
+      [createSession({ taskName, notes: NOTES, tags: ["a,b"] })],
+      [],
+    ),
+    new Date(Date.UTC(2026, 0, 6)),
+  );
+
+  const lines = ics.split("\r\n");
+  const tooLong = lines.filter((line) => Buffer.byteLength(line) > 75);
+  // A lone surrogate means an emoji was split across two lines
+  const brokenCharacters = lines.some((line) =>
+    /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/.test(
+      line,
+    ),
+  );
+  const unfolded = unfoldICS(ics).split("\r\n");
+  const summary = unfolded.find((line) => line.startsWith("SUMMARY:"));
+  const description = unfolded.find((line) => line.startsWith("DESCRIPTION:"));
+
+  if (
+    tooLong.length > 0 ||
+    brokenCharacters ||
+    !lines.some((line) => line.startsWith(" ")) ||
+    !ics.endsWith("END:VCALENDAR\r\n") ||
+    summary !==
+      `SUMMARY:${taskName.replace(/,/g, "\\,").replace(/;/g, "\\;")}` ||
+    !description?.endsWith(
+      '\\n\\nSaid "ship it"\\, then\\nfixed\\; the build\\nagain',
+    ) ||
+    !unfolded.includes("CATEGORIES:a\\,b") ||
+    !unfolded.includes("DTSTART:20260105T090000Z")
+  ) {
+    console.log(`❌ Unexpected iCalendar: ${JSON.stringify(lines)}`);
+    return false;
+  }
+
+  console.log(`✅ Text escaped and folded onto ${lines.length} lines`);
+  return true;
+}
+
+/**
+ * Run all export formatter tests
+ */
+function runExportFormatterTests() {
+  console.log("🚀 Running export formatter tests\n");
+
+  const results = {
+    csvQuoting: testCSVQuoting(),
+    icsFoldingAndEscaping: testICSFoldingAndEscaping(),
+  };
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🎯 Test Results Summary:");
+  Object.entries(results).forEach(([name, passed]) => {
+    console.log(`  ${name}: ${passed ? "✅ PASS" : "❌ FAIL"}`);
+  });
+
+  const allPassed = Object.values(results).every((result) => result);
+  console.log(allPassed ? "\n✅ ALL TESTS PASSED" : "\n❌ SOME TESTS FAILED");
+  return allPassed;
+}
+
+export { runExportFormatterTests };
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runExportFormatterTests();
+}
@@ -0,0 +1,57 @@
+/**
+ * Session fixtures shared by the test scripts
+ */
+
+import { subDays } from "date-fns";
+import { SessionEndReason, SessionType, TimerSession } from "./types/timer";
+
+/**
+ * Create a finished work session starting at `startTime`. Fields in
+ * `details` override the defaults; the end time follows the duration
+ * unless it is given too.
+ */
+export function createSessionAt(
+  startTime: Date,
+  details: Partial<TimerSession> = {},
+): TimerSession {
+  const duration = details.duration ?? 1500;
+  const completed = details.completed ?? true;
+
+  return {
+    id: `session-${startTime.getTime()}`,
+    type: SessionType.WORK,
+    startTime,
+    endTime: new Date(startTime.getTime() + duration * 1000),
+    endReason: completed
+      ? SessionEndReason.COMPLETED
+      : SessionEndReason.STOPPED,
+    tags: [],
+    ...details,
+    duration,
+    completed,
+  };
+}
+
+/**
+ * Create a finished session starting `daysAgo` days ago at `hour`, 25
+ * minutes long for work and 5 for breaks, tagged "writing"
+ */
+export function createSession(
+  daysAgo: number,
+  hour: number,
+  type: SessionType = SessionType.WORK,
+  completed: boolean = true,
+  details: Partial<TimerSession> = {},
+): TimerSession {
+  const startTime = subDays(new Date(), daysAgo);
+  startTime.setHours(hour, 0, 0, 0);
+
+  return createSessionAt(startTime, {
+    id: `session-${daysAgo}-${hour}-${type}`,
+    type,
+    duration: type === SessionType.WORK ? 1500 : 300,
+    completed,
+    tags: ["writing"],
+    ...details,
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Test script for history compaction
+ * Checks that statistics come out the same whether old sessions are kept in
+ * full or folded into daily aggregates
+ */
+
+import { calculateStats } from "./store/slices/stats-slice";
+import { createSession } from "./test-fixtures";
+import { MoodEntry, SessionType, TimerSession } from "./types/timer";
+import {
+  compactHistory,
+  getAverageMoodIntensity,
+  getCompactionCutoff,
+} from "./utils/history-archive";
+
+// Project and app usage, so compacted days have something to total
+const BOOK_DETAILS: Partial<TimerSession> = {
+  projectName: "Book",
+  applicationUsage: [
+    {
+      bundleId: "editor",
+      name: "Editor",
+      timeSpent: 1200,
+      percentage: 100,
+    },
+  ],
+};
+
+/**
+ * Sessions on each of the last 120 days, with a few incomplete ones
+ */
+function createHistory(): TimerSession[] {
+  const history: TimerSession[] = [];
+  for (let daysAgo = 119; daysAgo >= 1; daysAgo--) {
+    history.push(
+      createSession(daysAgo, 9, SessionType.WORK, true, BOOK_DETAILS),
+    );
+    history.push(
+      createSession(daysAgo, 10, SessionType.SHORT_BREAK, true, BOOK_DETAILS),
+    );
+    if (daysAgo % 10 === 0) {
+      history.push(
+        createSession(daysAgo, 14, SessionType.WORK, false, BOOK_DETAILS),
+      );
+    }
+  }
+  return history;
+}
+
+/**
+ * Stats are unchanged after compaction
+ */
+function testStatsMatch(): boolean {
+  console.log("🧪 Testing stats across raw and compacted history...");
+
+  const history = createHistory();
+  const before = calculateStats(history);
+
+  const compacted = compactHistory(
+    { history, moodEntries: [], historyArchive: [] },
+    getCompactionCutoff(90),
+  );
+  if (!compacted) {
+    console.log("❌ Nothing was compacted");
+    return false;
+  }
+
+  const after = calculateStats(compacted.history, compacted.historyArchive);
+  const mismatches = (Object.keys(before) as (keyof typeof before)[]).filter(
+    (key) => before[key] !== after[key],
+  );
+
+  if (mismatches.length > 0) {
+    mismatches.forEach((key) =>
+      console.log(`❌ ${key}: ${before[key]} before, ${after[key]} after`),
+    );
+    return false;
+  }
+
+  console.log(
+    `✅ ${compacted.compactedSessions} sessions folded into ${compacted.historyArchive.length} days, stats unchanged`,
+  );
+  return true;
+}
+
+/**
+ * Tag, project, app and mood totals are kept per day
+ */
+function testAggregateDetail(): boolean {
+  console.log("🧪 Testing daily aggregate detail...");
+
+  const session = createSession(100, 9, SessionType.WORK, true, {
+    ...BOOK_DETAILS,
+    taskId: "task-1",
+  });
+  const moodEntries: MoodEntry[] = [
+    {
+      id: "mood-1",
+      mood: "focused",
+      intensity: 4,
+      timestamp: session.startTime,
+      context: "post-session",
+    },
+    {
+      id: "mood-2",
+      mood: "tired",
+      intensity: 2,
+      timestamp: session.endTime!,
+      context: "standalone",
+    },
+  ];
+
+  const compacted = compactHistory(
+    { history: [session], moodEntries, historyArchive: [] },
+    getCompactionCutoff(90),
+  );
+  const day = compacted?.historyArchive[0];
+
+  const checks = [
+    compacted?.history.length === 0,
+    compacted?.moodEntries.length === 0,
+    day?.tags.writing?.seconds === 1500,
+    day?.projects.Book?.sessions === 1,
+    day?.apps.Editor?.seconds === 1200,
+    day?.workSessionsByHour[9] === 1,
+    day?.tasks["task-1"] === 1,
+    day !== undefined && getAverageMoodIntensity(day) === 3,
+  ];
+
+  if (checks.some((check) => !check)) {
+    console.log("❌ Aggregate is wrong:", checks);
+    return false;
+  }
+
+  console.log(
+    "✅ Daily aggregate keeps tag, project, app, task and mood totals",
+  );
+  return true;
+}
+
+/**
+ * Run all history compaction tests
+ */
+function runHistoryCompactionTests() {
+  console.log("🚀 Running history compaction tests\n");
+
+  const results = {
+    statsMatch: testStatsMatch(),
+    aggregateDetail: testAggregateDetail(),
+  };
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🎯 Test Results Summary:");
+  Object.entries(results).forEach(([name, passed]) => {
+    console.log(`  ${name}: ${passed ? "✅ PASS" : "❌ FAIL"}`);
+  });
+
+  const allPassed = Object.values(results).every((result) => result);
+  console.log(allPassed ? "\n✅ ALL TESTS PASSED" : "\n❌ SOME TESTS FAILED");
+  return allPassed;
+}
+
+export { runHistoryCompactionTests };
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runHistoryCompactionTests();
+}
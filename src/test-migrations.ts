@@ -0,0 +1,227 @@
+/**
+ * Test script for persisted state migrations
+ * Runs each migration step against stored state from older versions and checks
+ * that broken state is rejected without being modified
+ */
+
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATION_STEPS,
+  MigrationError,
+  runMigrations,
+} from "./store/migrations";
+import { SessionEndReason, SessionType } from "./types/timer";
+
+/**
+ * State as written by version 1, before sessions always had tags
+ */
+function createVersion1State(): Record<string, unknown> {
+  return {
+    history: [
+      {
+        id: "session-1",
+        type: SessionType.WORK,
+        duration: 1500,
+        startTime: "2025-01-06T09:00:00.000Z",
+        endTime: "2025-01-06T09:25:00.000Z",
+        completed: true,
+      },
+      {
+        id: "session-2",
+        type: SessionType.SHORT_BREAK,
+        duration: 300,
+        startTime: "2025-01-06T09:25:00.000Z",
+        completed: false,
+        tags: ["rest"],
+      },
+    ],
+    moodEntries: [],
+    customTags: ["work"],
+    customTagConfigs: [
+      { name: "work", color: "#FF0000" },
+      { name: "Deep", color: "#00FF00" },
+      { name: "deep", color: "#0000FF" },
+    ],
+    config: { workDuration: 25 },
+  };
+}
+
+/**
+ * Steps must be ordered and end at the current version
+ */
+function testStepOrder(): boolean {
+  console.log("🧪 Testing migration step order...");
+
+  const versions = MIGRATION_STEPS.map((step) => step.version);
+  const ordered = versions.every(
+    (version, index) => index === 0 || version === versions[index - 1] + 1,
+  );
+
+  if (!ordered || versions[versions.length - 1] !== CURRENT_SCHEMA_VERSION) {
+    console.log(`❌ Unexpected step versions: ${versions.join(", ")}`);
+    return false;
+  }
+
+  console.log(
+    `✅ ${versions.length} steps, current version ${CURRENT_SCHEMA_VERSION}`,
+  );
+  return true;
+}
+
+/**
+ * Version 1 state is brought up to date without touching the input
+ */
+function testMigrateFromVersion1(): boolean {
+  console.log("🧪 Testing migration from version 1...");
+
+  const state = createVersion1State();
+  const snapshot = JSON.stringify(state);
+  const migrated = runMigrations(state, 1);
+  const history = migrated.history as Record<string, unknown>[];
+
+  const checks = [
+    JSON.stringify(state) === snapshot,
+    history.length === 2,
+    Array.isArray(history[0].tags) && history[0].tags.length === 0,
+    history[0].endReason === SessionEndReason.COMPLETED,
+    history[1].endReason === SessionEndReason.STOPPED,
+    (history[1].tags as string[])[0] === "rest",
+    JSON.stringify(migrated.customTags) === JSON.stringify(["work", "Deep"]),
+    (migrated.customTagConfigs as unknown[]).length === 2,
+  ];
+
+  if (checks.some((check) => !check)) {
+    console.log("❌ Migrated state is wrong:", checks);
+    return false;
+  }
+
+  console.log("✅ Version 1 state migrated");
+  return true;
+}
+
+/**
+ * Unversioned state gets its missing lists filled in
+ */
+function testMigrateFromVersion0(): boolean {
+  console.log("🧪 Testing migration from unversioned state...");
+
+  const migrated = runMigrations({ config: { workDuration: 25 } }, 0);
+
+  if (
+    !Array.isArray(migrated.history) ||
+    !Array.isArray(migrated.customTags) ||
+    !Array.isArray(migrated.moodEntries)
+  ) {
+    console.log("❌ Lists were not filled in");
+    return false;
+  }
+
+  console.log("✅ Unversioned state migrated");
+  return true;
+}
+
+/**
+ * Archived days from version 5 gain empty task counts
+ */
+function testMigrateFromVersion5(): boolean {
+  console.log("🧪 Testing migration from version 5...");
+
+  const migrated = runMigrations(
+    {
+      history: [],
+      moodEntries: [],
+      customTags: [],
+      customTagConfigs: [],
+      historyArchive: [{ date: "2025-01-06", totalSessions: 2 }],
+      streakDaysOff: [],
+    },
+    5,
+  );
+  const archive = migrated.historyArchive as Record<string, unknown>[];
+
+  if (
+    JSON.stringify(archive[0].tasks) !== "{}" ||
+    archive[0].totalSessions !== 2
+  ) {
+    console.log("❌ Archived day was not migrated:", archive[0]);
+    return false;
+  }
+
+  console.log("✅ Version 5 state migrated");
+  return true;
+}
+
+/**
+ * Broken or newer state throws a MigrationError and is left as it was
+ */
+function testFailureLeavesStateAlone(): boolean {
+  console.log("🧪 Testing failed migrations...");
+
+  const state = createVersion1State();
+  (state.history as Record<string, unknown>[])[0].startTime = "not a date";
+  const snapshot = JSON.stringify(state);
+
+  const expectFailure = (run: () => unknown, label: string) => {
+    try {
+      run();
+      console.log(`❌ ${label} did not fail`);
+      return false;
+    } catch (error) {
+      if (!(error instanceof MigrationError)) {
+        console.log(`❌ ${label} threw an unexpected error:`, error);
+        return false;
+      }
+      console.log(`  ${label}: ${error.message}`);
+      return true;
+    }
+  };
+
+  const results = [
+    expectFailure(() => runMigrations(state, 1), "Invalid session"),
+    expectFailure(
+      () => runMigrations({}, CURRENT_SCHEMA_VERSION + 1),
+      "Newer version",
+    ),
+    expectFailure(() => runMigrations(null, 1), "Missing state"),
+  ];
+
+  if (results.some((result) => !result) || JSON.stringify(state) !== snapshot) {
+    console.log("❌ Failed migrations were not handled safely");
+    return false;
+  }
+
+  console.log("✅ Failed migrations left state untouched");
+  return true;
+}
+
+/**
+ * Run all migration tests
+ */
+function runMigrationTests() {
+  console.log("🚀 Running persisted state migration tests\n");
+
+  const results = {
+    stepOrder: testStepOrder(),
+    fromVersion1: testMigrateFromVersion1(),
+    fromVersion0: testMigrateFromVersion0(),
+    fromVersion5: testMigrateFromVersion5(),
+    failures: testFailureLeavesStateAlone(),
+  };
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🎯 Test Results Summary:");
+  Object.entries(results).forEach(([name, passed]) => {
+    console.log(`  ${name}: ${passed ? "✅ PASS" : "❌ FAIL"}`);
+  });
+
+  const allPassed = Object.values(results).every((result) => result);
+  console.log(allPassed ? "\n✅ ALL TESTS PASSED" : "\n❌ SOME TESTS FAILED");
+  return allPassed;
+}
+
+export { runMigrationTests };
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runMigrationTests();
+}
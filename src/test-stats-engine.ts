@@ -0,0 +1,241 @@
+/**
+ * Test script for the stats engine
+ * Checks that the store, the background timer and the profile screen get the
+ * same numbers as a full scan of history, and that incremental updates match
+ * a fresh count
+ */
+
+import {
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from "date-fns";
+import { dataService } from "./services/data-service";
+import { calculateStats } from "./store/slices/stats-slice";
+import { createSession } from "./test-fixtures";
+import {
+  DetailedStats,
+  SessionType,
+  TimerSession,
+  TimerStats,
+} from "./types/timer";
+import { getFocusedDuration } from "./utils/helpers";
+import { compactHistory, getCompactionCutoff } from "./utils/history-archive";
+import { StatsEngine } from "./utils/stats-engine";
+
+/**
+ * Sessions over the last 60 days with gaps, breaks and stopped sessions, so
+ * streaks, weeks and months all have something to count
+ */
+function createHistory(): TimerSession[] {
+  const history: TimerSession[] = [];
+  for (let daysAgo = 59; daysAgo >= 0; daysAgo--) {
+    if (daysAgo % 9 === 4) continue;
+    history.push(createSession(daysAgo, 8 + (daysAgo % 5)));
+    history.push(createSession(daysAgo, 14, SessionType.SHORT_BREAK));
+    if (daysAgo % 3 === 0) {
+      history.push(createSession(daysAgo, 16, SessionType.WORK, false));
+    }
+  }
+  return history;
+}
+
+/**
+ * Reference numbers from scanning every session, the way stats were
+ * calculated before the engine
+ */
+function scanHistory(history: TimerSession[]): DetailedStats {
+  const now = new Date();
+  const completed = history.filter((s) => s.completed);
+  const work = completed.filter((s) => s.type === SessionType.WORK);
+  const workTime = work.reduce((acc, s) => acc + getFocusedDuration(s), 0);
+  const breakTime = completed
+    .filter((s) => s.type !== SessionType.WORK)
+    .reduce((acc, s) => acc + getFocusedDuration(s), 0);
+  const countBetween = (start: Date, end: Date) =>
+    completed.filter((s) => s.startTime >= start && s.startTime <= end).length;
+
+  const hours = new Array(24).fill(0);
+  const weekdays = new Array(7).fill(0);
+  work.forEach((s) => {
+    hours[s.startTime.getHours()]++;
+    weekdays[s.startTime.getDay()]++;
+  });
+
+  const activeDays = new Set(completed.map((s) => s.startTime.toDateString()));
+  let streakCount = 0;
+  while (activeDays.has(subDays(now, streakCount).toDateString())) {
+    streakCount++;
+  }
+  let longestStreak = 0;
+  for (let run = 0, daysAgo = 60; daysAgo >= 0; daysAgo--) {
+    run = activeDays.has(subDays(now, daysAgo).toDateString()) ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  return {
+    totalSessions: history.length,
+    completedSessions: completed.length,
+    totalWorkTime: workTime,
+    totalBreakTime: breakTime,
+    streakCount,
+    todaysSessions: countBetween(startOfDay(now), endOfDay(now)),
+    weekSessions: countBetween(
+      startOfWeek(now, { weekStartsOn: 1 }),
+      endOfWeek(now, { weekStartsOn: 1 }),
+    ),
+    monthSessions: countBetween(startOfMonth(now), endOfMonth(now)),
+    averageSessionLength: work.length > 0 ? workTime / work.length / 60 : 0,
+    completionRate: (completed.length / history.length) * 100,
+    mostProductiveHour: hours.indexOf(Math.max(...hours)),
+    mostProductiveDay: [
+      "Sunday",
+      "Monday",
+      "Tuesday",
+      "Wednesday",
+      "Thursday",
+      "Friday",
+      "Saturday",
+    ][weekdays.indexOf(Math.max(...weekdays))],
+    longestStreak,
+  };
+}
+
+/**
+ * Keys of `actual` whose values differ from `expected`
+ */
+function findMismatches(
+  expected: DetailedStats,
+  actual: TimerStats | DetailedStats,
+): string[] {
+  return (Object.keys(actual) as (keyof typeof actual)[])
+    .filter((key) => expected[key] !== actual[key])
+    .map((key) => `${key}: expected ${expected[key]}, got ${actual[key]}`);
+}
+
+/**
+ * The store and background timer (calculateStats) and the profile screen
+ * (calculateDetailedStats) agree with a full scan, with and without
+ * compacted history
+ */
+function testPathsMatchScan(): boolean {
+  console.log("🧪 Testing stats paths against a full scan...");
+
+  const history = createHistory();
+  const expected = scanHistory(history);
+  const compacted = compactHistory(
+    { history, moodEntries: [], historyArchive: [] },
+    getCompactionCutoff(20),
+  );
+  if (!compacted) {
+    console.log("❌ Nothing was compacted");
+    return false;
+  }
+
+  const mismatches = [
+    ...findMismatches(expected, calculateStats(history)),
+    ...findMismatches(expected, dataService.calculateDetailedStats(history)),
+    ...findMismatches(
+      expected,
+      calculateStats(compacted.history, compacted.historyArchive),
+    ),
+    ...findMismatches(
+      expected,
+      dataService.calculateDetailedStats(
+        compacted.history,
+        compacted.historyArchive,
+      ),
+    ),
+  ];
+
+  if (mismatches.length > 0) {
+    mismatches.forEach((mismatch) => console.log(`❌ ${mismatch}`));
+    return false;
+  }
+
+  console.log(
+    `✅ All paths match: ${expected.completedSessions} completed, streak ${expected.streakCount}, longest ${expected.longestStreak}`,
+  );
+  return true;
+}
+
+/**
+ * Adding, editing and deleting sessions gives the same numbers as counting
+ * the resulting history from scratch
+ */
+function testIncrementalUpdates(): boolean {
+  console.log("🧪 Testing incremental updates...");
+
+  const engine = new StatsEngine();
+  let history = createHistory();
+  engine.sync(history);
+
+  const steps: [string, (history: TimerSession[]) => TimerSession[]][] = [
+    ["add", (h) => [...h, createSession(0, 20)]],
+    [
+      "edit",
+      (h) =>
+        h.map((s, index) =>
+          index === 3 ? { ...s, completed: false, tags: ["reading"] } : s,
+        ),
+    ],
+    ["delete", (h) => h.filter((_, index) => index % 7 !== 0)],
+    [
+      "move",
+      (h) =>
+        h.map((s, index) =>
+          index === 0 ? { ...s, startTime: subDays(s.startTime, 30) } : s,
+        ),
+    ],
+  ];
+
+  for (const [label, update] of steps) {
+    history = update(history);
+    const mismatches = findMismatches(
+      new StatsEngine().sync(history).getDetailedStats(),
+      engine.sync(history).getDetailedStats(),
+    );
+
+    if (mismatches.length > 0) {
+      console.log(`❌ After ${label}:`);
+      mismatches.forEach((mismatch) => console.log(`  ${mismatch}`));
+      return false;
+    }
+  }
+
+  console.log(`✅ ${steps.length} updates matched a fresh count`);
+  return true;
+}
+
+/**
+ * Run all stats engine tests
+ */
+function runStatsEngineTests() {
+  console.log("🚀 Running stats engine tests\n");
+
+  const results = {
+    pathsMatchScan: testPathsMatchScan(),
+    incrementalUpdates: testIncrementalUpdates(),
+  };
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🎯 Test Results Summary:");
+  Object.entries(results).forEach(([name, passed]) => {
+    console.log(`  ${name}: ${passed ? "✅ PASS" : "❌ FAIL"}`);
+  });
+
+  const allPassed = Object.values(results).every((result) => result);
+  console.log(allPassed ? "\n✅ ALL TESTS PASSED" : "\n❌ SOME TESTS FAILED");
+  return allPassed;
+}
+
+export { runStatsEngineTests };
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runStatsEngineTests();
+}
@@ -0,0 +1,138 @@
+/**
+ * Test script for custom timer sequences
+ * Checks that sequences alternate focus and break rounds with a long break
+ * last, that sequences ending on a focus round wrap around to the first
+ * break, and that invalid sequences are rejected with a reason
+ */
+
+import { SessionType, TimerConfig } from "./types/timer";
+import {
+  formatTimerSequence,
+  getTimerMethod,
+  getTimerSequenceError,
+  parseTimerSequence,
+} from "./utils/timer-methods";
+
+const describeSteps = (text: string): string =>
+  parseTimerSequence(text)
+    .map((step) => `${step.type}:${step.minutes}`)
+    .join(" ");
+
+/**
+ * Focus and break rounds alternate and the last break is long, unless the
+ * cycle has a single focus round
+ */
+function testValidSequences(): boolean {
+  console.log("🧪 Testing valid sequences...");
+
+  const { WORK, SHORT_BREAK, LONG_BREAK } = SessionType;
+  const checks = [
+    [
+      describeSteps("50/10/50/30"),
+      `${WORK}:50 ${SHORT_BREAK}:10 ${WORK}:50 ${LONG_BREAK}:30`,
+    ],
+    [
+      describeSteps("50/10/50/10/30"),
+      `${WORK}:50 ${SHORT_BREAK}:10 ${WORK}:50 ${SHORT_BREAK}:10 ${WORK}:30`,
+    ],
+    [describeSteps(" 25 / 5 "), `${WORK}:25 ${SHORT_BREAK}:5`],
+    [formatTimerSequence(parseTimerSequence("90/20/")), "90/20"],
+  ];
+
+  const failed = checks.filter(([actual, expected]) => actual !== expected);
+  if (failed.length > 0) {
+    console.log(`❌ Got and expected: ${JSON.stringify(failed)}`);
+    return false;
+  }
+
+  console.log("✅ Rounds alternate with a long break last");
+  return true;
+}
+
+/**
+ * Rounds of a sequence ending on a focus round run in order, and the last
+ * one is followed by the first break before the cycle starts over
+ */
+function testOddSequenceWraps(): boolean {
+  console.log("🧪 Testing sequences ending on a focus round...");
+
+  const method = getTimerMethod("custom", {
+    customTimerSequence: "50/10/50/10/30",
+  } as TimerConfig);
+  const config = {} as TimerConfig;
+  const rounds: string[] = [];
+
+  // Two full cycles: each work round, then the break that follows it
+  for (let completed = 0; completed < 6; completed++) {
+    const work = method.getSessionDuration(SessionType.WORK, {
+      config,
+      completedWorkSessions: completed,
+    });
+    const context = { config, completedWorkSessions: completed + 1 };
+    const breakType = method.getNextSessionType(SessionType.WORK, context);
+    const breakLength = method.getSessionDuration(breakType, context);
+    rounds.push(`${work / 60}/${breakLength / 60}`);
+  }
+
+  const expected = "50/10 50/10 30/10 50/10 50/10 30/10";
+  if (rounds.join(" ") !== expected) {
+    console.log(`❌ Expected ${expected}, got ${rounds.join(" ")}`);
+    return false;
+  }
+
+  console.log("✅ Last focus round wraps around to the first break");
+  return true;
+}
+
+/**
+ * Invalid sequences parse to nothing and explain why
+ */
+function testInvalidSequences(): boolean {
+  console.log("🧪 Testing invalid sequences...");
+
+  const invalid = ["", "50", "50/ten", "50/0", "50/10.5", "200/10"];
+  const accepted = invalid.filter(
+    (text) =>
+      parseTimerSequence(text).length > 0 || !getTimerSequenceError(text),
+  );
+  if (
+    accepted.length > 0 ||
+    getTimerSequenceError("50/10/50/10/30") !== undefined
+  ) {
+    console.log(`❌ Accepted ${JSON.stringify(accepted)}`);
+    return false;
+  }
+
+  console.log("✅ Invalid sequences rejected with a reason");
+  return true;
+}
+
+/**
+ * Run all timer sequence tests
+ */
+function runTimerSequenceTests() {
+  console.log("🚀 Running timer sequence tests\n");
+
+  const results = {
+    validSequences: testValidSequences(),
+    oddSequenceWraps: testOddSequenceWraps(),
+    invalidSequences: testInvalidSequences(),
+  };
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🎯 Test Results Summary:");
+  Object.entries(results).forEach(([name, passed]) => {
+    console.log(`  ${name}: ${passed ? "✅ PASS" : "❌ FAIL"}`);
+  });
+
+  const allPassed = Object.values(results).every((result) => result);
+  console.log(allPassed ? "\n✅ ALL TESTS PASSED" : "\n❌ SOME TESTS FAILED");
+  return allPassed;
+}
+
+export { runTimerSequenceTests };
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runTimerSequenceTests();
+}
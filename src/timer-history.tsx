@@ -5,24 +5,41 @@ import {
   List,
   Color,
   useNavigation,
+  confirmAlert,
+  Alert,
+  LaunchProps,
+  showToast,
+  Toast,
 } from "@raycast/api";
 import { useState, useMemo, useEffect } from "react";
-import { useTimerStore } from "./store/timer-store";
+import { timerStoreUtils, useTimerStore } from "./store/timer-store";
 import {
   formatTime,
+  getFocusedDuration,
+  getTotalAdjustment,
   getSessionTypeLabel,
   getSessionTypeIcon,
+  getMergeCandidates,
+  groupMoodsBySession,
 } from "./utils/helpers";
-import { TimerSession } from "./types/timer";
 import {
-  format,
-  isToday,
-  isYesterday,
-  isThisWeek,
-  isThisMonth,
-} from "date-fns";
-import { SessionManagementForm } from "./components/session-editing";
-import { SessionListItem } from "./components/history";
+  HistoryCompletionFilter,
+  HistorySortOption,
+  HistoryTypeFilter,
+  HistoryViewSettings,
+  SavedHistoryView,
+  TimerSession,
+} from "./types/timer";
+import { format } from "date-fns";
+import {
+  AddPastSessionForm,
+  SessionDetailsForm,
+  SessionManagementForm,
+  SessionTimesForm,
+  SplitSessionForm,
+} from "./components/session-editing";
+import { SessionListItem, SessionPauseBreakdown } from "./components/history";
+import { TrashList, showUndoToast } from "./components/trash-list";
 import {
   getAppRankingColor,
   SESSION_ICONS,
@@ -32,12 +49,30 @@ import {
   getMoodIcon,
   getMoodColor,
 } from "./constants/design-tokens";
-
-type SortOption = "newest" | "oldest" | "longest" | "shortest";
-type FilterType = "all" | "work" | "short_break" | "long_break";
-type CompletionFilter = "all" | "completed" | "incomplete";
-
-export default function TimerHistory() {
+import {
+  DEFAULT_HISTORY_VIEW_SETTINGS,
+  SORT_OPTION_LABELS,
+  applyHistoryViewSettings,
+  findViewByName,
+  formatHistoryViewTotals,
+  getHistoryViewTotals,
+  getViewSettings,
+  isViewActive,
+  parseHistoryQuery,
+  groupHistorySessions,
+  formatGroupSubtitle,
+  HISTORY_GROUP_OPTIONS,
+} from "./commands/history/utils";
+import { HistoryViewForm, SavedViewsList } from "./commands/history/components";
+
+const VIEW_VALUE_PREFIX = "view:";
+
+export default function TimerHistory(
+  props: LaunchProps<{
+    arguments: Arguments.TimerHistory;
+    launchContext?: { viewId?: string };
+  }>
+) {
   const { push } = useNavigation();
   // Default to hidden details, but preserve user preference during session
   const [isShowingDetail, setIsShowingDetail] = useState(false);
@@ -46,18 +81,54 @@ export default function TimerHistory() {
     null
   );
 
-  const [sortBy, setSortBy] = useState<SortOption>("newest");
-  const [filterType, setFilterType] = useState<FilterType>("all");
-  const [completionFilter, setCompletionFilter] =
-    useState<CompletionFilter>("all");
+  const [settings, setSettings] = useState<HistoryViewSettings>(
+    DEFAULT_HISTORY_VIEW_SETTINGS
+  );
   const {
     history,
     deleteSession,
+    mergeSessions,
     getTagConfig,
     moodEntries,
     refreshConfigFromPreferences,
+    savedHistoryViews,
   } = useTimerStore();
 
+  const updateSettings = (updates: Partial<HistoryViewSettings>) =>
+    setSettings((current) => ({ ...current, ...updates }));
+  const setFilterType = (typeFilter: HistoryTypeFilter) =>
+    updateSettings({ typeFilter });
+  const setCompletionFilter = (completionFilter: HistoryCompletionFilter) =>
+    updateSettings({ completionFilter });
+  const openView = (view: SavedHistoryView) =>
+    setSettings(getViewSettings(view));
+
+  // Open the view named in the command argument or passed by another command
+  useEffect(() => {
+    const viewName = props.arguments?.view?.trim();
+    const viewId = props.launchContext?.viewId;
+    if (!viewName && !viewId) return;
+
+    timerStoreUtils.waitForHydration().then(() => {
+      const { savedHistoryViews: views } = useTimerStore.getState();
+      const view = viewId
+        ? views.find((saved) => saved.id === viewId)
+        : findViewByName(views, viewName || "");
+
+      if (view) {
+        openView(view);
+      } else {
+        showToast({
+          style: Toast.Style.Failure,
+          title: "View Not Found",
+          message: viewName
+            ? `No saved view is named "${viewName}"`
+            : "The saved view was deleted",
+        });
+      }
+    });
+  }, []);
+
   // Refresh preferences when the history command is opened
   useEffect(() => {
     refreshConfigFromPreferences();
@@ -103,56 +174,142 @@ export default function TimerHistory() {
     return colorMap[tag.toLowerCase()] || Color.Blue;
   };
 
-  // Filter and sort sessions - moved before conditional returns
-  const filteredAndSortedSessions = useMemo(() => {
-    let filtered = history;
-
-    // Apply type filter
-    if (filterType !== "all") {
-      filtered = filtered.filter((session) => session.type === filterType);
-    }
+  const query = useMemo(
+    () => parseHistoryQuery(settings.query),
+    [settings.query]
+  );
 
-    // Apply completion filter
-    if (completionFilter !== "all") {
-      filtered = filtered.filter((session) =>
-        completionFilter === "completed"
-          ? session.completed
-          : !session.completed
-      );
-    }
+  // Filter and sort sessions - moved before conditional returns
+  const filteredAndSortedSessions = useMemo(
+    () => applyHistoryViewSettings(history, moodEntries, settings),
+    [history, moodEntries, settings]
+  );
 
-    // Apply sorting
-    const sorted = [...filtered].sort((a, b) => {
-      switch (sortBy) {
-        case "newest":
-          return (
-            new Date(b.startTime).getTime() - new Date(a.startTime).getTime()
-          );
-        case "oldest":
-          return (
-            new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
-          );
-        case "longest":
-          return b.duration - a.duration;
-        case "shortest":
-          return a.duration - b.duration;
-        default:
-          return 0;
-      }
-    });
+  const moodsBySession = useMemo(
+    () => groupMoodsBySession(moodEntries),
+    [moodEntries]
+  );
+  const groups = useMemo(
+    () =>
+      groupHistorySessions(
+        filteredAndSortedSessions,
+        settings.groupBy,
+        moodsBySession
+      ),
+    [filteredAndSortedSessions, settings.groupBy, moodsBySession]
+  );
 
-    return sorted;
-  }, [history, filterType, completionFilter, sortBy]);
+  const activeView = savedHistoryViews.find((view) =>
+    isViewActive(view, settings)
+  );
+  const activeViewTotals = useMemo(
+    () => getHistoryViewTotals(filteredAndSortedSessions),
+    [filteredAndSortedSessions]
+  );
 
   // Find the currently selected session for detail view
   const selectedSession = selectedSessionId
     ? history.find((session) => session.id === selectedSessionId)
     : null;
 
+  const handleMerge = async (first: TimerSession, second: TimerSession) => {
+    const confirmed = await confirmAlert({
+      title: "Merge Sessions?",
+      message: `The ${getSessionTypeLabel(first.type).toLowerCase()}s from ${format(first.startTime, "h:mm a")} and ${format(second.startTime, "h:mm a")} become one session. Time between them is kept as a pause.`,
+      primaryAction: { title: "Merge", style: Alert.ActionStyle.Default },
+    });
+
+    if (confirmed) {
+      mergeSessions(first.id, second.id);
+    }
+  };
+
+  const mergeCandidates = useMemo(() => getMergeCandidates(history), [history]);
+
+  const getMergeActions = (session: TimerSession) => {
+    const { previous, next } = mergeCandidates.get(session.id) || {};
+
+    return (
+      <>
+        {previous && (
+          <Action
+            title="Merge with Previous Session"
+            icon={Icon.ArrowsContract}
+            onAction={() => handleMerge(previous, session)}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "arrowUp" }}
+          />
+        )}
+        {next && (
+          <Action
+            title="Merge with Next Session"
+            icon={Icon.ArrowsContract}
+            onAction={() => handleMerge(session, next)}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "arrowDown" }}
+          />
+        )}
+      </>
+    );
+  };
+
+  const viewActions = (
+    <ActionPanel.Section title="Views">
+      <ActionPanel.Submenu
+        title="Group By"
+        icon={Icon.AppWindowList}
+        shortcut={{ modifiers: ["cmd"], key: "g" }}
+      >
+        {HISTORY_GROUP_OPTIONS.map((option) => (
+          <Action
+            key={option.value}
+            title={option.title}
+            icon={
+              settings.groupBy === option.value ? Icon.Checkmark : undefined
+            }
+            onAction={() => updateSettings({ groupBy: option.value })}
+          />
+        ))}
+      </ActionPanel.Submenu>
+      <Action.Push
+        title="Save as View"
+        icon={Icon.Bookmark}
+        target={<HistoryViewForm settings={settings} />}
+        shortcut={{ modifiers: ["cmd"], key: "s" }}
+      />
+      <Action.Push
+        title="Show Saved Views"
+        icon={Icon.List}
+        target={<SavedViewsList onOpenView={openView} />}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+      />
+      <Action.Push
+        title="Show Trash"
+        icon={Icon.Trash}
+        target={<TrashList />}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+      />
+    </ActionPanel.Section>
+  );
+
+  const addPastSessionAction = (
+    <Action
+      title="Add Past Session"
+      icon={Icon.Plus}
+      onAction={() => push(<AddPastSessionForm />)}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+    />
+  );
+
   return (
     <List
-      navigationTitle="Focus History"
-      searchBarPlaceholder="Search rounds..."
+      navigationTitle={
+        activeView
+          ? `${activeView.name} • ${formatHistoryViewTotals(activeViewTotals)}`
+          : "Focus History"
+      }
+      searchBarPlaceholder="Search rounds or filter: tag:work min:20m mood:calm"
+      filtering={false}
+      searchText={settings.query}
+      onSearchTextChange={(text) => updateSettings({ query: text })}
       isShowingDetail={isShowingDetail && filteredAndSortedSessions.length > 0}
       onSelectionChange={(id) => {
         if (id) {
@@ -161,14 +318,46 @@ export default function TimerHistory() {
       }}
       searchBarAccessory={
         <List.Dropdown
-          tooltip="Sort Rounds"
-          value={sortBy}
-          onChange={(value) => setSortBy(value as SortOption)}
+          tooltip="Saved Views and Sorting"
+          value={
+            activeView
+              ? `${VIEW_VALUE_PREFIX}${activeView.id}`
+              : settings.sortBy
+          }
+          onChange={(value) => {
+            if (value.startsWith(VIEW_VALUE_PREFIX)) {
+              const view = savedHistoryViews.find(
+                (saved) => `${VIEW_VALUE_PREFIX}${saved.id}` === value
+              );
+              if (view) openView(view);
+            } else {
+              updateSettings({ sortBy: value as HistorySortOption });
+            }
+          }}
         >
-          <List.Dropdown.Item title="Newest First" value="newest" />
-          <List.Dropdown.Item title="Oldest First" value="oldest" />
-          <List.Dropdown.Item title="Longest Rounds" value="longest" />
-          <List.Dropdown.Item title="Shortest Rounds" value="shortest" />
+          {savedHistoryViews.length > 0 && (
+            <List.Dropdown.Section title="Saved Views">
+              {savedHistoryViews.map((view) => (
+                <List.Dropdown.Item
+                  key={view.id}
+                  title={view.name}
+                  value={`${VIEW_VALUE_PREFIX}${view.id}`}
+                  icon={Icon.Bookmark}
+                />
+              ))}
+            </List.Dropdown.Section>
+          )}
+          <List.Dropdown.Section title="Sort">
+            {(Object.keys(SORT_OPTION_LABELS) as HistorySortOption[]).map(
+              (option) => (
+                <List.Dropdown.Item
+                  key={option}
+                  title={SORT_OPTION_LABELS[option]}
+                  value={option}
+                />
+              )
+            )}
+          </List.Dropdown.Section>
         </List.Dropdown>
       }
       actions={
@@ -220,42 +409,43 @@ export default function TimerHistory() {
               />
             </ActionPanel.Submenu>
           </ActionPanel.Section>
+          {viewActions}
         </ActionPanel>
       }
     >
-      {Object.entries(
-        filteredAndSortedSessions.reduce(
-          (groups, session) => {
-            const startTime = new Date(session.startTime);
-            let groupKey: string;
-
-            if (isToday(startTime)) {
-              groupKey = "Today";
-            } else if (isYesterday(startTime)) {
-              groupKey = "Yesterday";
-            } else if (isThisWeek(startTime)) {
-              groupKey = format(startTime, "EEEE");
-            } else if (isThisMonth(startTime)) {
-              groupKey = format(startTime, "MMMM d");
-            } else {
-              groupKey = format(startTime, "MMMM yyyy");
-            }
+      {query.errors.length > 0 && (
+        <List.Section title="Search Errors">
+          {query.errors.map((error, index) => (
+            <List.Item
+              key={`${error.token}-${index}`}
+              title={error.token}
+              subtitle={error.message}
+              icon={{
+                source: Icon.ExclamationMark,
+                tintColor: STATUS_COLORS.ERROR,
+              }}
+            />
+          ))}
+        </List.Section>
+      )}
 
-            if (!groups[groupKey]) {
-              groups[groupKey] = [];
-            }
-            groups[groupKey].push(session);
-            return groups;
-          },
-          {} as Record<string, TimerSession[]>
-        )
-      ).map(([dateGroup, sessions]) => (
-        <List.Section key={dateGroup} title={dateGroup}>
-          {sessions.map((session) => (
+      {groups.map((group) => (
+        <List.Section
+          key={group.id}
+          title={group.title}
+          subtitle={formatGroupSubtitle(group.totals)}
+        >
+          {group.sessions.map((session) => (
             <SessionListItem
               key={session.id}
+              itemId={
+                // Sessions appear once per tag, so ids need the group
+                settings.groupBy === "tag"
+                  ? `${group.id}:${session.id}`
+                  : session.id
+              }
               session={session}
-              moodEntries={moodEntries}
+              moodEntries={moodsBySession.get(session.id) || []}
               showDetail={isShowingDetail}
               detailComponent={<SessionDetailView session={session} />}
               getTagColor={getTagColor}
@@ -282,15 +472,44 @@ export default function TimerHistory() {
                     }
                     shortcut={{ modifiers: ["cmd"], key: "m" }}
                   />
+                  <Action
+                    title="Edit Times"
+                    icon={Icon.Clock}
+                    onAction={() =>
+                      push(<SessionTimesForm session={session} />)
+                    }
+                    shortcut={{ modifiers: ["cmd"], key: "t" }}
+                  />
+                  <Action
+                    title="Edit Details"
+                    icon={Icon.Pencil}
+                    onAction={() =>
+                      push(<SessionDetailsForm session={session} />)
+                    }
+                    shortcut={{ modifiers: ["cmd"], key: "e" }}
+                  />
+                  <Action
+                    title="Split Session"
+                    icon={Icon.ArrowsExpand}
+                    onAction={() =>
+                      push(<SplitSessionForm session={session} />)
+                    }
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+                  />
+                  {getMergeActions(session)}
+                  {addPastSessionAction}
+                  {viewActions}
                   <ActionPanel.Section title="Actions">
                     <Action
                       title="Delete Session"
                       icon={Icon.Trash}
                       style={Action.Style.Destructive}
-                      onAction={async () => {
-                        deleteSession(session.id);
-                        // Toast disabled for Windows compatibility
-                      }}
+                      onAction={() =>
+                        showUndoToast(
+                          "Session Deleted",
+                          deleteSession(session.id)
+                        )
+                      }
                       shortcut={{ modifiers: ["cmd"], key: "delete" }}
                     />
                   </ActionPanel.Section>
@@ -304,13 +523,25 @@ export default function TimerHistory() {
       {history.length === 0 && (
         <List.EmptyView
           title="No Focus Sessions"
-          description="Start your first focus round to see your session history here"
+          description="Start your first focus round to see your session history here, or press Cmd+N to add a past session"
+          actions={<ActionPanel>{addPastSessionAction}</ActionPanel>}
           icon={{
             source: SESSION_ICONS.IDLE,
             tintColor: STATUS_COLORS.NEUTRAL,
           }}
         />
       )}
+
+      {history.length > 0 && filteredAndSortedSessions.length === 0 && (
+        <List.EmptyView
+          title="No Matching Sessions"
+          description="Try removing a filter, e.g. tag:, project:, after:, before:, type:, completed:, min:, max:, mood:, app: or notes:"
+          icon={{
+            source: Icon.MagnifyingGlass,
+            tintColor: STATUS_COLORS.NEUTRAL,
+          }}
+        />
+      )}
     </List>
   );
 }
@@ -322,13 +553,11 @@ interface SessionDetailViewProps {
 function SessionDetailView({ session }: SessionDetailViewProps) {
   const { moodEntries } = useTimerStore();
 
-  // Ensure dates are Date objects (they might be strings when loaded from storage)
-  const startTime = new Date(session.startTime);
-  const endTime = session.endTime ? new Date(session.endTime) : null;
+  const startTime = session.startTime;
+  const endTime = session.endTime || null;
 
-  const duration = endTime
-    ? Math.floor((endTime.getTime() - startTime.getTime()) / 1000)
-    : session.duration;
+  const duration = getFocusedDuration(session);
+  const totalAdjustment = getTotalAdjustment(session);
 
   // Find mood entries associated with this session
   const associatedMoodEntries = moodEntries.filter(
@@ -362,11 +591,28 @@ function SessionDetailView({ session }: SessionDetailViewProps) {
           />
 
           <List.Item.Detail.Metadata.Label
-            title="Duration"
+            title="Focused Time"
             text={formatTime(duration)}
             icon={{ source: Icon.Clock, tintColor: STATUS_COLORS.INFO }}
           />
 
+          {session.durationAdjustments &&
+            session.durationAdjustments.length > 0 && (
+              <List.Item.Detail.Metadata.Label
+                title="Time Adjusted"
+                text={`${totalAdjustment >= 0 ? "+" : "-"}${formatTime(Math.abs(totalAdjustment))} (${session.durationAdjustments.map((adjustment) => adjustment.reason).join(", ")})`}
+                icon={{ source: Icon.Stopwatch, tintColor: STATUS_COLORS.INFO }}
+              />
+            )}
+
+          {session.manuallyAdded && (
+            <List.Item.Detail.Metadata.Label
+              title="Entry"
+              text="Added manually"
+              icon={{ source: Icon.Pencil, tintColor: STATUS_COLORS.NEUTRAL }}
+            />
+          )}
+
           <List.Item.Detail.Metadata.Label
             title="Status"
             text={getStatusText()}
@@ -393,6 +639,8 @@ function SessionDetailView({ session }: SessionDetailViewProps) {
             />
           )}
 
+          <SessionPauseBreakdown session={session} />
+
           {/* Project Information Section */}
           {session.projectName && (
             <>
@@ -452,7 +700,7 @@ function SessionDetailView({ session }: SessionDetailViewProps) {
                   <List.Item.Detail.Metadata.Label
                     key={entry.id}
                     title={`${entry.mood.charAt(0).toUpperCase() + entry.mood.slice(1)} (${entry.intensity}/5)`}
-                    text={`${contextText} - ${format(new Date(entry.timestamp), "h:mm a")}`}
+                    text={`${contextText} - ${format(entry.timestamp, "h:mm a")}`}
                     icon={{
                       source: getMoodIcon(entry.mood),
                       tintColor: getMoodColor(entry.mood),
@@ -35,6 +35,14 @@ export interface ApplicationUsage {
   lastUsed?: Date; // When the app was last used in the session
 }
 
+// Timer methods control session lengths and the work/break cycle
+export type TimerMethodId =
+  | "pomodoro"
+  | "flowtime"
+  | "52-17"
+  | "ultradian"
+  | "custom";
+
 export enum SessionEndReason {
   COMPLETED = "completed",
   STOPPED = "stopped",
@@ -82,6 +90,49 @@ export interface MoodAnalytics {
   improvementSuggestions: string[];
 }
 
+export interface SessionPause {
+  startTime: Date;
+  endTime?: Date; // Missing while the session is still paused
+  reason?: string; // Optional reason given when pausing
+}
+
+export interface DurationAdjustment {
+  timestamp: Date;
+  deltaSeconds: number; // Positive when extended, negative when shortened
+  reason: string;
+}
+
+/**
+ * Details of a past session entered by hand
+ */
+export interface ManualSessionInput {
+  type: SessionType;
+  startTime: Date;
+  endTime: Date;
+  taskName?: string;
+  projectName?: string;
+  tags?: string[];
+  notes?: string;
+}
+
+/**
+ * Session fields that can be corrected from history
+ */
+export type SessionDetailsUpdate = Partial<
+  Pick<
+    TimerSession,
+    "type" | "tags" | "projectName" | "completed" | "endReason"
+  >
+>;
+
+/**
+ * Task name and tags given to one half of a split session
+ */
+export interface SplitSessionPart {
+  taskName?: string;
+  tags?: string[];
+}
+
 export interface TimerSession {
   id: string;
   type: SessionType;
@@ -92,10 +143,16 @@ export interface TimerSession {
   endReason?: SessionEndReason; // How the session ended
   taskName?: string;
   projectName?: string;
+  taskId?: string; // Task this session was started for
+  projectId?: string; // Project of the linked task
   tags?: string[]; // Task tags for categorization
   taskIcon?: import("@raycast/api").Icon; // Custom icon for the task
   notes?: string; // User notes/reflections about the session
   applicationUsage?: ApplicationUsage[]; // Track app usage during session
+  pauses?: SessionPause[]; // Pause intervals, excluded from focused time
+  durationAdjustments?: DurationAdjustment[]; // Extensions and cuts made while running
+  manuallyAdded?: boolean; // Entered after the fact instead of being timed
+  importedFrom?: string; // Tool the session was imported from, e.g. "Toggl Track"
   // ADHD-specific fields
   energyLevel?: 1 | 2 | 3 | 4 | 5; // User-reported energy at start
   focusQuality?: 1 | 2 | 3 | 4 | 5; // Auto-calculated or user-reported
@@ -106,6 +163,8 @@ export interface TimerSession {
     reason: string;
   };
   rewardPoints?: number; // Points earned for this session
+  timerMethod?: TimerMethodId; // Method that planned this session
+  countUp?: boolean; // Open-ended session, duration is set when it ends
 }
 
 export interface TimerConfig {
@@ -123,13 +182,19 @@ export interface TimerConfig {
   adaptiveMode: "energy-based" | "focus-based" | "mood-based";
   minWorkDuration: number; // 10-60 minutes
   maxWorkDuration: number; // 15-90 minutes
-  adaptiveBreakRatio: number; // 0.1-0.3 (break = work * ratio)
+  adaptiveBreakRatio: number; // 0.05-1 (break = work * ratio), also used for Flowtime breaks
   enableRewardSystem: boolean;
   enableTransitionWarnings: boolean;
   warningIntervals: number[]; // [300, 120, 60] = 5min, 2min, 1min warnings
   enableHyperfocusDetection: boolean;
   maxConsecutiveSessions: number; // Default: 3
   forcedBreakAfterHours: number; // Default: 2.5
+  customTimerSequence: string; // e.g. "50/10/50/10/30", used by the custom timer method
+  trashRetentionDays: number; // How long deleted items stay restorable
+  sessionDetailDays: number; // Days of full session detail kept before compaction, 0 keeps everything
+  workingDays: number[]; // Days of the week (0 = Sunday) a streak needs a session on
+  dayStartHour: number; // Hour (0-23) a new day starts, so late sessions count toward the day before
+  weekStartsOn: 0 | 1 | 2 | 3 | 4 | 5 | 6; // First day of the week (0 = Sunday)
 }
 
 export interface TimerStats {
@@ -143,6 +208,14 @@ export interface TimerStats {
   monthSessions: number;
 }
 
+export interface DetailedStats extends TimerStats {
+  averageSessionLength: number; // in minutes
+  completionRate: number; // percentage
+  mostProductiveHour: number; // 0-23
+  mostProductiveDay: string;
+  longestStreak: number;
+}
+
 export interface CustomTagConfig {
   name: string;
   color: import("@raycast/api").Color;
@@ -158,6 +231,32 @@ export interface RewardSystem {
   dailyGoal: number;
   weeklyChallenge?: Challenge;
   lastRewardDate?: Date;
+  streakFreezes: number; // Freezes earned and not yet used
+  frozenDays: string[]; // Days (yyyy-MM-dd) a freeze kept the streak alive
+}
+
+/**
+ * A day the user declared off. It neither breaks nor extends a streak.
+ */
+export interface StreakDayOff {
+  date: string; // Local day as yyyy-MM-dd
+  reason: "vacation" | "sick";
+}
+
+/**
+ * What counts towards a streak
+ */
+export interface StreakRules {
+  workingDays: number[]; // Days of the week (0 = Sunday) that need a session
+  daysOff: string[]; // Declared days off (yyyy-MM-dd)
+  frozenDays: string[]; // Missed days covered by a streak freeze (yyyy-MM-dd)
+}
+
+export interface StreakStatus {
+  current: number;
+  longest: number;
+  atRisk: boolean; // Today needs a session to keep the current streak
+  freezesAvailable: number;
 }
 
 export interface Achievement {
@@ -201,10 +300,85 @@ export interface BreakActivity {
   difficulty: "easy" | "medium" | "hard";
 }
 
+// Timer History filtering, sorting and grouping
+export type HistorySortOption = "newest" | "oldest" | "longest" | "shortest";
+export type HistoryTypeFilter = "all" | "work" | "short_break" | "long_break";
+export type HistoryCompletionFilter = "all" | "completed" | "incomplete";
+export type HistoryGroupBy =
+  | "none"
+  | "day"
+  | "week"
+  | "month"
+  | "project"
+  | "tag";
+
+/**
+ * Filters, sort order and grouping that make up a Timer History view
+ */
+export interface HistoryViewSettings {
+  query: string; // Search text, including key:value filters
+  typeFilter: HistoryTypeFilter;
+  completionFilter: HistoryCompletionFilter;
+  sortBy: HistorySortOption;
+  groupBy: HistoryGroupBy;
+}
+
+export interface SavedHistoryView extends HistoryViewSettings {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+/**
+ * Data a deletion moved to the trash
+ */
+export type TrashContent =
+  | { kind: "session"; session: TimerSession }
+  | { kind: "tag"; tag: string; config?: CustomTagConfig }
+  | { kind: "mood"; entry: MoodEntry };
+
+export type TrashItem = TrashContent & {
+  id: string;
+  batchId: string; // Items deleted together are restored together by undo
+  deletedAt: Date;
+};
+
+/**
+ * Time and session count folded into a daily aggregate for one tag,
+ * project or app
+ */
+export interface AggregateTotal {
+  sessions: number;
+  seconds: number; // Focused seconds
+}
+
+/**
+ * One day of compacted history. Sessions and mood entries older than the
+ * detail retention period are folded into these and removed.
+ */
+export interface DailyAggregate {
+  date: string; // Local day as yyyy-MM-dd
+  totalSessions: number;
+  completedSessions: number;
+  workSessions: number; // Completed work sessions
+  workTime: number; // Focused seconds in completed work sessions
+  breakTime: number; // Seconds in completed breaks
+  workSessionsByHour: Record<number, number>; // Completed work sessions per start hour
+  lowEnergySessions: number; // Completed with energy level 2 or lower
+  strugglingSessions: number; // Completed while struggling
+  tags: Record<string, AggregateTotal>;
+  projects: Record<string, AggregateTotal>;
+  apps: Record<string, AggregateTotal>; // Keyed by app name
+  tasks: Record<string, number>; // Completed work sessions per task id
+  moodEntries: number;
+  moodIntensityTotal: number; // Divide by moodEntries for the average
+  moods: Partial<Record<MoodType, number>>;
+}
+
 export interface PomodoroState {
   currentSession: TimerSession | null;
   state: TimerState;
-  timeRemaining: number; // in seconds
+  timeRemaining: number; // in seconds, elapsed time for count-up sessions
   sessionCount: number;
   config: TimerConfig;
   stats: TimerStats;
@@ -216,6 +390,8 @@ export interface PomodoroState {
   currentFocusPeriodId: string | null; // Unique ID for the current focus period
   currentFocusPeriodSessionCount: number; // Sessions completed in current focus period
   targetRounds: number; // Target sessions for current focus period
+  timerMethod: TimerMethodId; // Timer method for current focus period
+  focusWorkDuration: number | null; // Work length in seconds set for the current focus period
   // ADHD-specific state
   rewardSystem: RewardSystem;
   hyperfocusDetection: HyperfocusDetection;
@@ -226,6 +402,14 @@ export interface PomodoroState {
   // Post-session mood logging state
   isPostSessionMoodPromptVisible: boolean;
   lastCompletedSession: TimerSession | null;
+  // Saved Timer History views
+  savedHistoryViews: SavedHistoryView[];
+  // Deleted sessions, tags and moods kept for the retention period
+  trash: TrashItem[];
+  // Daily totals of sessions older than the detail retention period
+  historyArchive: DailyAggregate[];
+  // Vacation and sick days that don't count against a streak
+  streakDaysOff: StreakDayOff[];
 }
 
 export interface TimerActions {
@@ -236,7 +420,7 @@ export interface TimerActions {
     tags?: string[],
     taskIcon?: import("@raycast/api").Icon
   ) => void;
-  pauseTimer: () => void;
+  pauseTimer: (reason?: string) => void;
   resumeTimer: () => void;
   stopTimer: () => void;
   resetTimer: () => void;
@@ -249,7 +433,8 @@ export interface TimerActions {
     tags?: string[]
   ) => void;
   getNextSessionType: () => SessionType;
-  deleteSession: (sessionId: string) => void;
+  deleteSession: (sessionId: string) => string | null;
+  recalculateStats: () => void;
   // Historical session editing methods
   updateSessionIcon: (
     sessionId: string,
@@ -257,21 +442,55 @@ export interface TimerActions {
   ) => void;
   updateSessionNotes: (sessionId: string, notes?: string) => void;
   updateSessionName: (sessionId: string, taskName?: string) => void;
+  addManualSession: (
+    input: ManualSessionInput,
+    allowArchivedDay?: boolean
+  ) => TimerSession | null;
+  importSessions: (inputs: ManualSessionInput[], source: string) => number;
+  updateSessionTimes: (
+    sessionId: string,
+    startTime: Date,
+    endTime: Date
+  ) => boolean;
+  updateSessionDetails: (
+    sessionId: string,
+    updates: SessionDetailsUpdate
+  ) => boolean;
+  splitSession: (
+    sessionId: string,
+    splitAt: Date,
+    first: SplitSessionPart,
+    second: SplitSessionPart
+  ) => boolean;
+  mergeSessions: (firstId: string, secondId: string) => boolean;
+  saveHistoryView: (
+    name: string,
+    settings: HistoryViewSettings
+  ) => SavedHistoryView;
+  updateHistoryView: (
+    viewId: string,
+    updates: Partial<HistoryViewSettings> & { name?: string }
+  ) => void;
+  deleteHistoryView: (viewId: string) => void;
   addCustomTag: (tag: string) => void;
   getCustomTags: () => string[];
   markCustomTagCreated: () => void;
   updateTagConfig: (tagName: string, config: Partial<CustomTagConfig>) => void;
-  deleteCustomTag: (tagName: string) => void;
+  deleteCustomTag: (tagName: string) => string | null;
   getTagConfig: (tagName: string) => CustomTagConfig | undefined;
-  clearAllTags: () => void;
-  clearAllHistory: () => void;
+  clearAllTags: () => string | null;
+  clearAllHistory: () => string | null;
   // Real-time session update methods
   updateCurrentSessionName: (taskName: string) => void;
   updateCurrentSessionIcon: (taskIcon: import("@raycast/api").Icon) => void;
   addTagToCurrentSession: (tag: string) => void;
   removeTagFromCurrentSession: (tag: string) => void;
   // Focus period management
-  startNewFocusPeriod: (targetRounds: number) => void;
+  startNewFocusPeriod: (
+    targetRounds: number,
+    timerMethod?: TimerMethodId,
+    workDuration?: number // in seconds, overrides the method's work length
+  ) => void;
   resetFocusPeriod: () => void;
   // ADHD-specific actions
   updateSessionEnergyLevel: (level: 1 | 2 | 3 | 4 | 5) => void;
@@ -280,6 +499,7 @@ export interface TimerActions {
   ) => void;
   awardPoints: (points: number, reason: string) => void;
   unlockAchievement: (achievementId: string) => void;
+  checkAchievements: () => void;
   adaptSessionDuration: (newDuration: number, reason: string) => void;
   selectBreakActivity: (activityId: string) => void;
   completeBreakActivity: (rating?: 1 | 2 | 3 | 4 | 5) => void;
@@ -293,7 +513,8 @@ export interface TimerActions {
     sessionId?: string,
     notes?: string
   ) => void;
-  deleteMoodEntry: (entryId: string) => void;
+  deleteMoodEntry: (entryId: string) => string | null;
+  clearAllMoodEntries: () => string | null;
   updateMoodEntry: (
     entryId: string,
     updates: Partial<Omit<MoodEntry, "id" | "timestamp">>
@@ -303,6 +524,24 @@ export interface TimerActions {
   // Post-session mood logging actions
   showPostSessionMoodPrompt: (session: TimerSession) => void;
   hidePostSessionMoodPrompt: () => void;
+  // Trash actions
+  addToTrash: (contents: TrashContent[]) => string | null;
+  restoreFromTrash: (itemIds: string[]) => void;
+  restoreTrashBatch: (batchId: string) => void;
+  purgeFromTrash: (itemIds: string[]) => void;
+  emptyTrash: () => void;
+  purgeExpiredTrash: () => void;
+  // History archive actions
+  compactHistory: () => number;
+  // Streak actions
+  addStreakDaysOff: (
+    start: Date,
+    end: Date,
+    reason: StreakDayOff["reason"]
+  ) => void;
+  removeStreakDayOff: (date: string) => void;
+  applyStreakFreezes: () => number;
+  getStreakStatus: () => StreakStatus;
 }
 
 export type PomodoroStore = PomodoroState & TimerActions;
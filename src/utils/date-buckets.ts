@@ -0,0 +1,158 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  parse,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subHours,
+} from "date-fns";
+import { TimerConfig } from "../types/timer";
+
+const DAY_KEY_FORMAT = "yyyy-MM-dd";
+
+/**
+ * Where days and weeks begin when grouping sessions, moods and stats
+ */
+export type DateBucketSettings = Pick<
+  TimerConfig,
+  "dayStartHour" | "weekStartsOn"
+>;
+
+export const DEFAULT_DATE_BUCKET_SETTINGS: DateBucketSettings = {
+  dayStartHour: 0,
+  weekStartsOn: 1,
+};
+
+/**
+ * Start and end instants of a day, week or month
+ */
+export interface BucketRange {
+  start: Date;
+  end: Date;
+}
+
+let settings: DateBucketSettings = DEFAULT_DATE_BUCKET_SETTINGS;
+
+/**
+ * Use the day start hour and week start from `config` for all grouping.
+ * The store calls this whenever its config changes.
+ */
+export function configureDateBuckets(config: Partial<DateBucketSettings>) {
+  settings = {
+    dayStartHour:
+      config.dayStartHour ?? DEFAULT_DATE_BUCKET_SETTINGS.dayStartHour,
+    weekStartsOn:
+      config.weekStartsOn ?? DEFAULT_DATE_BUCKET_SETTINGS.weekStartsOn,
+  };
+}
+
+export const getDateBucketSettings = (): DateBucketSettings => settings;
+
+/**
+ * Midnight of the calendar day `date` counts toward. Before the day start
+ * hour that is the day before.
+ */
+const getBucketDay = (date: Date): Date =>
+  startOfDay(subHours(date, settings.dayStartHour));
+
+/**
+ * The instant a bucket day starts
+ */
+const getBucketStart = (day: Date): Date => {
+  const start = new Date(day);
+  start.setHours(settings.dayStartHour, 0, 0, 0);
+  return start;
+};
+
+const toRange = (day: Date, nextDay: Date): BucketRange => ({
+  start: getBucketStart(day),
+  end: new Date(getBucketStart(nextDay).getTime() - 1),
+});
+
+/**
+ * Key of the day `date` counts toward, as used by DailyAggregate.date
+ */
+export const getDayKey = (date: Date): string =>
+  format(getBucketDay(date), DAY_KEY_FORMAT);
+
+/**
+ * Key of a calendar day, such as one picked in a form, regardless of the
+ * day start hour
+ */
+export const toDayKey = (day: Date): string => format(day, DAY_KEY_FORMAT);
+
+/**
+ * Midnight of the calendar day a key refers to, for labels and weekdays
+ */
+export const getDayFromKey = (key: string): Date =>
+  parse(key, DAY_KEY_FORMAT, new Date());
+
+/**
+ * Key of the day `amount` days after `key`
+ */
+export const addDaysToKey = (key: string, amount: number): string =>
+  toDayKey(addDays(getDayFromKey(key), amount));
+
+/**
+ * Key of the first day of the week `date` counts toward
+ */
+export const getWeekStartKey = (date: Date): string =>
+  toDayKey(
+    startOfWeek(getBucketDay(date), { weekStartsOn: settings.weekStartsOn }),
+  );
+
+/**
+ * Key (yyyy-MM) of the month `date` counts toward
+ */
+export const getMonthKey = (date: Date): string =>
+  format(getBucketDay(date), "yyyy-MM");
+
+/**
+ * Start and end of the day a key refers to
+ */
+export const getDayRangeForKey = (key: string): BucketRange => {
+  const day = getDayFromKey(key);
+  return toRange(day, addDays(day, 1));
+};
+
+/**
+ * Start and end of the day `date` counts toward
+ */
+export const getDayRange = (date: Date = new Date()): BucketRange => {
+  const day = getBucketDay(date);
+  return toRange(day, addDays(day, 1));
+};
+
+/**
+ * Start and end of the week `date` counts toward
+ */
+export const getWeekRange = (date: Date = new Date()): BucketRange => {
+  const weekStart = getDayFromKey(getWeekStartKey(date));
+  return toRange(weekStart, addWeeks(weekStart, 1));
+};
+
+/**
+ * Start and end of the month `date` counts toward
+ */
+export const getMonthRange = (date: Date = new Date()): BucketRange => {
+  const monthStart = startOfMonth(getBucketDay(date));
+  return toRange(monthStart, addMonths(monthStart, 1));
+};
+
+export const isSameDay = (a: Date, b: Date): boolean =>
+  getDayKey(a) === getDayKey(b);
+
+export const isToday = (date: Date, now: Date = new Date()): boolean =>
+  isSameDay(date, now);
+
+export const isYesterday = (date: Date, now: Date = new Date()): boolean =>
+  getDayKey(date) === addDaysToKey(getDayKey(now), -1);
+
+export const isThisWeek = (date: Date, now: Date = new Date()): boolean =>
+  getWeekStartKey(date) === getWeekStartKey(now);
+
+export const isThisMonth = (date: Date, now: Date = new Date()): boolean =>
+  getMonthKey(date) === getMonthKey(now);
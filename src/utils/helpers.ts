@@ -142,18 +142,6 @@ export function formatSessionSummary(
  */
 export const MIN_SESSION_DURATION_FOR_HISTORY = 40;
 
-/**
- * Ensures a value is a valid Date object
- */
-function ensureDate(value: string | number | Date | undefined): Date {
-  if (value instanceof Date) return value;
-  if (typeof value === "string" || typeof value === "number") {
-    const date = new Date(value);
-    if (!isNaN(date.getTime())) return date;
-  }
-  return new Date();
-}
-
 /**
  * Checks if a session should be saved to history based on its duration
  */
@@ -162,22 +150,35 @@ export function shouldSaveSessionToHistory(
 ): boolean {
   if (!session.startTime) return false;
 
-  try {
-    const startTime = ensureDate(session.startTime);
-    const endTime = session.endTime ? ensureDate(session.endTime) : new Date();
-    const actualDuration = Math.floor(
-      (endTime.getTime() - startTime.getTime()) / 1000
-    );
+  return getActualSessionDuration(session) >= MIN_SESSION_DURATION_FOR_HISTORY;
+}
 
-    return actualDuration >= MIN_SESSION_DURATION_FOR_HISTORY;
-  } catch (error) {
-    console.warn("Error checking session duration:", error);
-    return false;
-  }
+/**
+ * Gets the total time in seconds a session spent paused.
+ * Pauses that are still open are counted up to the session end or `now`.
+ */
+export function getPausedDuration(
+  session: import("../types/timer").TimerSession,
+  now: Date = new Date()
+): number {
+  if (!session.pauses || session.pauses.length === 0) return 0;
+
+  const sessionEnd = session.endTime || now;
+
+  return session.pauses.reduce((total, pause) => {
+    const pauseEnd = pause.endTime || sessionEnd;
+    return (
+      total +
+      Math.max(
+        0,
+        Math.floor((pauseEnd.getTime() - pause.startTime.getTime()) / 1000)
+      )
+    );
+  }, 0);
 }
 
 /**
- * Gets the actual duration of a session in seconds
+ * Gets the actual focused duration of a session in seconds, excluding pauses
  */
 export function getActualSessionDuration(
   session: import("../types/timer").TimerSession
@@ -185,9 +186,11 @@ export function getActualSessionDuration(
   if (!session.startTime) return 0;
 
   try {
-    const startTime = ensureDate(session.startTime);
-    const endTime = session.endTime ? ensureDate(session.endTime) : new Date();
-    return Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+    const endTime = session.endTime || new Date();
+    const elapsed = Math.floor(
+      (endTime.getTime() - session.startTime.getTime()) / 1000
+    );
+    return Math.max(0, elapsed - getPausedDuration(session, endTime));
   } catch (error) {
     console.warn("Error calculating session duration:", error);
     return 0;
@@ -195,14 +198,511 @@ export function getActualSessionDuration(
 }
 
 /**
- * Ensures all date properties in a session are proper Date objects
+ * Gets the net focused seconds of a finished session for history, stats and points.
+ * Sessions without an end time fall back to their planned duration.
+ */
+export function getFocusedDuration(
+  session: import("../types/timer").TimerSession
+): number {
+  return session.endTime ? getActualSessionDuration(session) : session.duration;
+}
+
+/**
+ * Fixes the duration of a count-up session once its end time is set,
+ * since open-ended sessions only know how long they were when they end
+ */
+export function settleCountUpDuration(
+  session: import("../types/timer").TimerSession
+): import("../types/timer").TimerSession {
+  return session.countUp
+    ? { ...session, duration: getActualSessionDuration(session) }
+    : session;
+}
+
+/**
+ * Changes the planned duration of a session and logs the adjustment
+ */
+export function applyDurationAdjustment(
+  session: import("../types/timer").TimerSession,
+  deltaSeconds: number,
+  reason: string,
+  at: Date = new Date()
+): import("../types/timer").TimerSession {
+  const adjustedDuration = session.duration + deltaSeconds;
+
+  return {
+    ...session,
+    duration: adjustedDuration,
+    durationAdjustments: [
+      ...(session.durationAdjustments || []),
+      { timestamp: at, deltaSeconds, reason },
+    ],
+    adaptiveAdjustments: {
+      originalDuration:
+        session.adaptiveAdjustments?.originalDuration ?? session.duration,
+      adjustedDuration,
+      reason,
+    },
+  };
+}
+
+/**
+ * Gets the net seconds added to (or removed from) a session while it ran
  */
-export function sanitizeSessionDates(
+export function getTotalAdjustment(
   session: import("../types/timer").TimerSession
+): number {
+  return (session.durationAdjustments || []).reduce(
+    (total, adjustment) => total + adjustment.deltaSeconds,
+    0
+  );
+}
+
+/**
+ * Closes any open pause on a session at the given time
+ */
+export function closeOpenPause(
+  session: import("../types/timer").TimerSession,
+  at: Date = new Date()
 ): import("../types/timer").TimerSession {
+  if (!session.pauses?.some((pause) => !pause.endTime)) return session;
+
   return {
     ...session,
-    startTime: ensureDate(session.startTime),
-    endTime: session.endTime ? ensureDate(session.endTime) : undefined,
+    pauses: session.pauses.map((pause) =>
+      pause.endTime ? pause : { ...pause, endTime: at }
+    ),
   };
 }
+
+/**
+ * Gets when a session ended, falling back to its planned end
+ */
+export function getSessionEndTime(
+  session: import("../types/timer").TimerSession
+): Date {
+  return session.endTime
+    ? session.endTime
+    : new Date(session.startTime.getTime() + session.duration * 1000);
+}
+
+/**
+ * Index mood entries by the session they are linked to
+ */
+export function groupMoodsBySession(
+  moodEntries: import("../types/timer").MoodEntry[]
+): Map<string, import("../types/timer").MoodEntry[]> {
+  const moodsBySession = new Map<
+    string,
+    import("../types/timer").MoodEntry[]
+  >();
+  moodEntries.forEach((entry) => {
+    if (!entry.sessionId) return;
+
+    const moods = moodsBySession.get(entry.sessionId);
+    if (moods) {
+      moods.push(entry);
+    } else {
+      moodsBySession.set(entry.sessionId, [entry]);
+    }
+  });
+  return moodsBySession;
+}
+
+/**
+ * Finds history sessions whose time range overlaps the given one
+ */
+export function findOverlappingSessions(
+  history: import("../types/timer").TimerSession[],
+  startTime: Date,
+  endTime: Date,
+  excludeSessionId?: string
+): import("../types/timer").TimerSession[] {
+  return history.filter(
+    (session) =>
+      session.id !== excludeSessionId &&
+      session.startTime.getTime() < endTime.getTime() &&
+      getSessionEndTime(session).getTime() > startTime.getTime()
+  );
+}
+
+/**
+ * Validates a session time range against history.
+ * Returns an error message when the range can't be saved.
+ */
+export function validateSessionTimes(
+  history: import("../types/timer").TimerSession[],
+  startTime: Date,
+  endTime: Date,
+  excludeSessionId?: string
+): string | undefined {
+  if (endTime.getTime() <= startTime.getTime()) {
+    return "End time must be after the start time";
+  }
+
+  if (endTime.getTime() > Date.now()) {
+    return "End time can't be in the future";
+  }
+
+  const seconds = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
+  if (seconds < MIN_SESSION_DURATION_FOR_HISTORY) {
+    return `Sessions must last at least ${MIN_SESSION_DURATION_FOR_HISTORY} seconds`;
+  }
+
+  const [overlap] = findOverlappingSessions(
+    history,
+    startTime,
+    endTime,
+    excludeSessionId
+  );
+  if (overlap) {
+    const timeFormat: Intl.DateTimeFormatOptions = {
+      hour: "numeric",
+      minute: "2-digit",
+    };
+    return `Overlaps the ${getSessionTypeLabel(
+      overlap.type
+    )} from ${overlap.startTime.toLocaleTimeString(
+      [],
+      timeFormat
+    )} to ${getSessionEndTime(overlap).toLocaleTimeString([], timeFormat)}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Checks that a split time leaves two parts long enough to keep in history.
+ * Returns an error message, or undefined when the split is allowed.
+ */
+export function validateSplitTime(
+  session: import("../types/timer").TimerSession,
+  splitAt: Date
+): string | undefined {
+  const { startTime } = session;
+  const endTime = getSessionEndTime(session);
+
+  if (splitAt <= startTime || splitAt >= endTime) {
+    return "Split time must fall inside the session";
+  }
+
+  const firstSeconds = (splitAt.getTime() - startTime.getTime()) / 1000;
+  const secondSeconds = (endTime.getTime() - splitAt.getTime()) / 1000;
+  if (
+    Math.min(firstSeconds, secondSeconds) < MIN_SESSION_DURATION_FOR_HISTORY
+  ) {
+    return `Both parts must last at least ${MIN_SESSION_DURATION_FOR_HISTORY} seconds`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the session right before or after the given one in time
+ */
+export function getAdjacentSession(
+  history: import("../types/timer").TimerSession[],
+  sessionId: string,
+  direction: "previous" | "next"
+): import("../types/timer").TimerSession | undefined {
+  const sorted = [...history].sort(
+    (a, b) => a.startTime.getTime() - b.startTime.getTime()
+  );
+  const index = sorted.findIndex((session) => session.id === sessionId);
+  if (index === -1) return undefined;
+
+  return sorted[direction === "previous" ? index - 1 : index + 1];
+}
+
+/**
+ * Maps each session to the sessions it can be merged with: the ones right
+ * before and after it in time, when they are the same type. Built in one
+ * pass so long histories don't re-sort for every list item.
+ */
+export function getMergeCandidates(
+  history: import("../types/timer").TimerSession[]
+): Map<
+  string,
+  {
+    previous?: import("../types/timer").TimerSession;
+    next?: import("../types/timer").TimerSession;
+  }
+> {
+  const sorted = [...history].sort(
+    (a, b) => a.startTime.getTime() - b.startTime.getTime()
+  );
+
+  return new Map(
+    sorted.map((session, index) => {
+      const previous = sorted[index - 1];
+      const next = sorted[index + 1];
+      return [
+        session.id,
+        {
+          previous: previous?.type === session.type ? previous : undefined,
+          next: next?.type === session.type ? next : undefined,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Moves a session to a new time range, dropping pauses that fall outside
+ * it and clipping those that cross its edges
+ */
+export function retimeSession(
+  session: import("../types/timer").TimerSession,
+  startTime: Date,
+  endTime: Date
+): import("../types/timer").TimerSession {
+  const pauses = (session.pauses || [])
+    .map((pause) => {
+      const pauseStart = pause.startTime;
+      const pauseEnd = pause.endTime || endTime;
+      return {
+        ...pause,
+        startTime: pauseStart < startTime ? startTime : pauseStart,
+        endTime: pauseEnd > endTime ? endTime : pauseEnd,
+      };
+    })
+    .filter((pause) => pause.startTime < pause.endTime);
+
+  return settleCountUpDuration({
+    ...session,
+    startTime,
+    endTime,
+    pauses: session.pauses ? pauses : undefined,
+  });
+}
+
+/**
+ * Recomputes each app's share of the total tracked time
+ */
+function withUsagePercentages(
+  usage: import("../types/timer").ApplicationUsage[]
+): import("../types/timer").ApplicationUsage[] {
+  const total = usage.reduce((sum, app) => sum + app.timeSpent, 0);
+  return usage.map((app) => ({
+    ...app,
+    percentage: total > 0 ? Math.round((app.timeSpent / total) * 100) : 0,
+  }));
+}
+
+/**
+ * Divides app usage at a timestamp. Apps used only before or after it go
+ * to that half; the rest are divided by how much of their usage window
+ * falls before it, or by fallbackRatio when the window is unknown.
+ */
+export function splitApplicationUsage(
+  usage: import("../types/timer").ApplicationUsage[],
+  splitAt: Date,
+  fallbackRatio: number
+): [
+  import("../types/timer").ApplicationUsage[],
+  import("../types/timer").ApplicationUsage[],
+] {
+  const before: import("../types/timer").ApplicationUsage[] = [];
+  const after: import("../types/timer").ApplicationUsage[] = [];
+
+  usage.forEach((app) => {
+    const { firstUsed, lastUsed } = app;
+
+    let ratio = fallbackRatio;
+    if (firstUsed && lastUsed) {
+      const window = lastUsed.getTime() - firstUsed.getTime();
+      ratio =
+        window > 0
+          ? (splitAt.getTime() - firstUsed.getTime()) / window
+          : lastUsed <= splitAt
+            ? 1
+            : 0;
+    }
+    ratio = Math.min(1, Math.max(0, ratio));
+
+    const timeBefore = Math.round(app.timeSpent * ratio);
+    if (timeBefore > 0) {
+      before.push({
+        ...app,
+        timeSpent: timeBefore,
+        lastUsed: lastUsed && lastUsed > splitAt ? splitAt : lastUsed,
+      });
+    }
+    if (app.timeSpent - timeBefore > 0) {
+      after.push({
+        ...app,
+        timeSpent: app.timeSpent - timeBefore,
+        firstUsed: firstUsed && firstUsed < splitAt ? splitAt : firstUsed,
+      });
+    }
+  });
+
+  return [withUsagePercentages(before), withUsagePercentages(after)];
+}
+
+/**
+ * Combines the app usage of two sessions, summing time per app
+ */
+export function mergeApplicationUsage(
+  first: import("../types/timer").ApplicationUsage[],
+  second: import("../types/timer").ApplicationUsage[]
+): import("../types/timer").ApplicationUsage[] {
+  const merged = new Map<string, import("../types/timer").ApplicationUsage>();
+
+  [...first, ...second].forEach((app) => {
+    const existing = merged.get(app.bundleId);
+    if (!existing) {
+      merged.set(app.bundleId, { ...app });
+      return;
+    }
+
+    const firstUsed = [existing.firstUsed, app.firstUsed].filter(
+      (date): date is Date => !!date
+    );
+    const lastUsed = [existing.lastUsed, app.lastUsed].filter(
+      (date): date is Date => !!date
+    );
+
+    merged.set(app.bundleId, {
+      ...existing,
+      timeSpent: existing.timeSpent + app.timeSpent,
+      firstUsed: firstUsed.length
+        ? new Date(Math.min(...firstUsed.map((date) => date.getTime())))
+        : undefined,
+      lastUsed: lastUsed.length
+        ? new Date(Math.max(...lastUsed.map((date) => date.getTime())))
+        : undefined,
+    });
+  });
+
+  return withUsagePercentages(
+    Array.from(merged.values()).sort((a, b) => b.timeSpent - a.timeSpent)
+  );
+}
+
+/**
+ * Splits a finished session into two at the given time. The first half
+ * keeps the session id; pauses, adjustments, planned duration and app usage
+ * are divided between the halves, and both keep the notes and outcome.
+ */
+export function splitSessionAt(
+  session: import("../types/timer").TimerSession,
+  splitAt: Date,
+  secondId: string
+): [
+  import("../types/timer").TimerSession,
+  import("../types/timer").TimerSession,
+] {
+  const { startTime } = session;
+  const endTime = getSessionEndTime(session);
+  const elapsedRatio =
+    (splitAt.getTime() - startTime.getTime()) /
+    (endTime.getTime() - startTime.getTime());
+
+  const first = retimeSession(session, startTime, splitAt);
+  const second = retimeSession({ ...session, id: secondId }, splitAt, endTime);
+
+  const focusedFirst = getActualSessionDuration(first);
+  const focusedTotal = focusedFirst + getActualSessionDuration(second);
+  const [usageFirst, usageSecond] = splitApplicationUsage(
+    session.applicationUsage || [],
+    splitAt,
+    focusedTotal > 0 ? focusedFirst / focusedTotal : elapsedRatio
+  );
+
+  const adjustments = session.durationAdjustments || [];
+  const adjustmentsFirst = adjustments.filter(
+    (adjustment) => adjustment.timestamp < splitAt
+  );
+  const adjustmentsSecond = adjustments.filter(
+    (adjustment) => adjustment.timestamp >= splitAt
+  );
+
+  const plannedFirst = Math.round(session.duration * elapsedRatio);
+
+  return [
+    {
+      ...first,
+      duration: session.countUp ? first.duration : plannedFirst,
+      applicationUsage: session.applicationUsage ? usageFirst : undefined,
+      durationAdjustments: session.durationAdjustments
+        ? adjustmentsFirst
+        : undefined,
+    },
+    {
+      ...second,
+      duration: session.countUp
+        ? second.duration
+        : session.duration - plannedFirst,
+      applicationUsage: session.applicationUsage ? usageSecond : undefined,
+      durationAdjustments: session.durationAdjustments
+        ? adjustmentsSecond
+        : undefined,
+    },
+  ];
+}
+
+/**
+ * Joins two consecutive sessions into one that keeps the first session's
+ * id. Any gap between them is recorded as a pause so it is not counted
+ * as focused time.
+ */
+export function mergeSessionPair(
+  first: import("../types/timer").TimerSession,
+  second: import("../types/timer").TimerSession
+): import("../types/timer").TimerSession {
+  const firstEnd = getSessionEndTime(first);
+  const secondStart = second.startTime;
+
+  const pauses = [
+    ...(first.pauses || []),
+    ...(secondStart > firstEnd
+      ? [
+          {
+            startTime: firstEnd,
+            endTime: secondStart,
+            reason: "Gap between merged sessions",
+          },
+        ]
+      : []),
+    ...(second.pauses || []),
+  ];
+  const adjustments = [
+    ...(first.durationAdjustments || []),
+    ...(second.durationAdjustments || []),
+  ];
+  const tags = Array.from(
+    new Set([...(first.tags || []), ...(second.tags || [])])
+  );
+  const notes = [first.notes, second.notes]
+    .filter((note) => note && note.trim())
+    .join("\n\n");
+
+  return settleCountUpDuration({
+    ...first,
+    endTime: getSessionEndTime(second),
+    duration: first.duration + second.duration,
+    // Completing either fragment completes the merged session
+    completed: first.completed || second.completed,
+    endReason:
+      second.completed || !first.completed ? second.endReason : first.endReason,
+    taskName: first.taskName || second.taskName,
+    projectName: first.projectName || second.projectName,
+    taskId: first.taskId || second.taskId,
+    projectId: first.projectId || second.projectId,
+    taskIcon: first.taskIcon || second.taskIcon,
+    tags,
+    notes: notes || undefined,
+    applicationUsage:
+      first.applicationUsage || second.applicationUsage
+        ? mergeApplicationUsage(
+            first.applicationUsage || [],
+            second.applicationUsage || []
+          )
+        : undefined,
+    pauses: pauses.length > 0 ? pauses : undefined,
+    durationAdjustments: adjustments.length > 0 ? adjustments : undefined,
+    manuallyAdded: first.manuallyAdded && second.manuallyAdded,
+    countUp: first.countUp && second.countUp,
+  });
+}
@@ -0,0 +1,343 @@
+import { subDays } from "date-fns";
+import {
+  AggregateTotal,
+  DailyAggregate,
+  MoodEntry,
+  SessionType,
+  TimerSession,
+} from "../types/timer";
+import { getDayFromKey, getDayKey, getDayRange } from "./date-buckets";
+import { getFocusedDuration } from "./helpers";
+
+/**
+ * Totals over a set of daily aggregates, in the same units as TimerStats
+ */
+export interface ArchiveTotals {
+  totalSessions: number;
+  completedSessions: number;
+  workSessions: number;
+  workTime: number;
+  breakTime: number;
+}
+
+export function createDailyAggregate(date: string): DailyAggregate {
+  return {
+    date,
+    totalSessions: 0,
+    completedSessions: 0,
+    workSessions: 0,
+    workTime: 0,
+    breakTime: 0,
+    workSessionsByHour: {},
+    lowEnergySessions: 0,
+    strugglingSessions: 0,
+    tags: {},
+    projects: {},
+    apps: {},
+    tasks: {},
+    moodEntries: 0,
+    moodIntensityTotal: 0,
+    moods: {},
+  };
+}
+
+function addToTotal(
+  totals: Record<string, AggregateTotal>,
+  key: string,
+  seconds: number,
+) {
+  const total = totals[key] || { sessions: 0, seconds: 0 };
+  totals[key] = {
+    sessions: total.sessions + 1,
+    seconds: total.seconds + seconds,
+  };
+}
+
+/**
+ * Fold a session into a day's aggregate. Counts and times follow the stats
+ * rules: only completed sessions add to work and break time.
+ */
+export function addSessionToAggregate(
+  aggregate: DailyAggregate,
+  session: TimerSession,
+): DailyAggregate {
+  const result: DailyAggregate = {
+    ...aggregate,
+    workSessionsByHour: { ...aggregate.workSessionsByHour },
+    tags: { ...aggregate.tags },
+    projects: { ...aggregate.projects },
+    apps: { ...aggregate.apps },
+    tasks: { ...aggregate.tasks },
+    totalSessions: aggregate.totalSessions + 1,
+  };
+
+  (session.applicationUsage || []).forEach((app) =>
+    addToTotal(result.apps, app.name, app.timeSpent),
+  );
+
+  if (!session.completed) return result;
+
+  const seconds = getFocusedDuration(session);
+  result.completedSessions += 1;
+
+  if (session.type === SessionType.WORK) {
+    const hour = session.startTime.getHours();
+    result.workSessions += 1;
+    result.workTime += seconds;
+    result.workSessionsByHour[hour] =
+      (result.workSessionsByHour[hour] || 0) + 1;
+    if (session.taskId) {
+      result.tasks[session.taskId] = (result.tasks[session.taskId] || 0) + 1;
+    }
+  } else {
+    result.breakTime += seconds;
+  }
+
+  if (session.energyLevel && session.energyLevel <= 2) {
+    result.lowEnergySessions += 1;
+  }
+  if (session.moodState === "struggling") {
+    result.strugglingSessions += 1;
+  }
+  (session.tags || []).forEach((tag) => addToTotal(result.tags, tag, seconds));
+  if (session.projectName) {
+    addToTotal(result.projects, session.projectName, seconds);
+  }
+
+  return result;
+}
+
+function subtractFromTotal(
+  totals: Record<string, AggregateTotal>,
+  key: string,
+  seconds: number,
+) {
+  const total = totals[key];
+  if (!total) return;
+  if (total.sessions <= 1) {
+    delete totals[key];
+  } else {
+    totals[key] = {
+      sessions: total.sessions - 1,
+      seconds: total.seconds - seconds,
+    };
+  }
+}
+
+/**
+ * Take a session that was folded in with addSessionToAggregate back out
+ */
+export function removeSessionFromAggregate(
+  aggregate: DailyAggregate,
+  session: TimerSession,
+): DailyAggregate {
+  const result: DailyAggregate = {
+    ...aggregate,
+    workSessionsByHour: { ...aggregate.workSessionsByHour },
+    tags: { ...aggregate.tags },
+    projects: { ...aggregate.projects },
+    apps: { ...aggregate.apps },
+    tasks: { ...aggregate.tasks },
+    totalSessions: aggregate.totalSessions - 1,
+  };
+
+  (session.applicationUsage || []).forEach((app) =>
+    subtractFromTotal(result.apps, app.name, app.timeSpent),
+  );
+
+  if (!session.completed) return result;
+
+  const seconds = getFocusedDuration(session);
+  result.completedSessions -= 1;
+
+  if (session.type === SessionType.WORK) {
+    const hour = session.startTime.getHours();
+    result.workSessions -= 1;
+    result.workTime -= seconds;
+    if ((result.workSessionsByHour[hour] || 0) <= 1) {
+      delete result.workSessionsByHour[hour];
+    } else {
+      result.workSessionsByHour[hour] -= 1;
+    }
+    if (session.taskId) {
+      if ((result.tasks[session.taskId] || 0) <= 1) {
+        delete result.tasks[session.taskId];
+      } else {
+        result.tasks[session.taskId] -= 1;
+      }
+    }
+  } else {
+    result.breakTime -= seconds;
+  }
+
+  if (session.energyLevel && session.energyLevel <= 2) {
+    result.lowEnergySessions -= 1;
+  }
+  if (session.moodState === "struggling") {
+    result.strugglingSessions -= 1;
+  }
+  (session.tags || []).forEach((tag) =>
+    subtractFromTotal(result.tags, tag, seconds),
+  );
+  if (session.projectName) {
+    subtractFromTotal(result.projects, session.projectName, seconds);
+  }
+
+  return result;
+}
+
+/**
+ * Fold a mood entry into a day's aggregate
+ */
+export function addMoodEntryToAggregate(
+  aggregate: DailyAggregate,
+  entry: MoodEntry,
+): DailyAggregate {
+  return {
+    ...aggregate,
+    moodEntries: aggregate.moodEntries + 1,
+    moodIntensityTotal: aggregate.moodIntensityTotal + entry.intensity,
+    moods: {
+      ...aggregate.moods,
+      [entry.mood]: (aggregate.moods[entry.mood] || 0) + 1,
+    },
+  };
+}
+
+/**
+ * Average mood intensity logged on an archived day, or null without moods
+ */
+export const getAverageMoodIntensity = (
+  aggregate: DailyAggregate,
+): number | null =>
+  aggregate.moodEntries > 0
+    ? aggregate.moodIntensityTotal / aggregate.moodEntries
+    : null;
+
+/**
+ * Start of the oldest day whose sessions keep full detail
+ */
+export const getCompactionCutoff = (
+  detailDays: number,
+  now: Date = new Date(),
+): Date => getDayRange(subDays(now, detailDays)).start;
+
+/**
+ * Fold sessions and mood entries from before `cutoff` into daily aggregates.
+ * Returns null when there is nothing to compact.
+ */
+export function compactHistory(
+  data: {
+    history: TimerSession[];
+    moodEntries: MoodEntry[];
+    historyArchive: DailyAggregate[];
+  },
+  cutoff: Date,
+): {
+  history: TimerSession[];
+  moodEntries: MoodEntry[];
+  historyArchive: DailyAggregate[];
+  compactedSessions: number;
+} | null {
+  const oldSessions = data.history.filter(
+    (session) => session.startTime < cutoff,
+  );
+  const oldMoodEntries = data.moodEntries.filter(
+    (entry) => entry.timestamp < cutoff,
+  );
+  if (oldSessions.length === 0 && oldMoodEntries.length === 0) return null;
+
+  const aggregates = new Map(
+    data.historyArchive.map((aggregate) => [aggregate.date, aggregate]),
+  );
+  const getAggregate = (date: Date) => {
+    const key = getDayKey(date);
+    return aggregates.get(key) || createDailyAggregate(key);
+  };
+
+  oldSessions.forEach((session) => {
+    const aggregate = getAggregate(session.startTime);
+    aggregates.set(aggregate.date, addSessionToAggregate(aggregate, session));
+  });
+  oldMoodEntries.forEach((entry) => {
+    const aggregate = getAggregate(entry.timestamp);
+    aggregates.set(aggregate.date, addMoodEntryToAggregate(aggregate, entry));
+  });
+
+  return {
+    history: data.history.filter((session) => session.startTime >= cutoff),
+    moodEntries: data.moodEntries.filter((entry) => entry.timestamp >= cutoff),
+    historyArchive: Array.from(aggregates.values()).sort((a, b) =>
+      a.date.localeCompare(b.date),
+    ),
+    compactedSessions: oldSessions.length,
+  };
+}
+
+/**
+ * Sum the archived days, optionally only those `includeDay` accepts
+ */
+export function sumArchive(
+  archive: DailyAggregate[],
+  includeDay?: (day: Date) => boolean,
+): ArchiveTotals {
+  return archive
+    .filter(
+      (aggregate) => !includeDay || includeDay(getDayFromKey(aggregate.date)),
+    )
+    .reduce(
+      (totals, aggregate) => ({
+        totalSessions: totals.totalSessions + aggregate.totalSessions,
+        completedSessions:
+          totals.completedSessions + aggregate.completedSessions,
+        workSessions: totals.workSessions + aggregate.workSessions,
+        workTime: totals.workTime + aggregate.workTime,
+        breakTime: totals.breakTime + aggregate.breakTime,
+      }),
+      {
+        totalSessions: 0,
+        completedSessions: 0,
+        workSessions: 0,
+        workTime: 0,
+        breakTime: 0,
+      },
+    );
+}
+
+/**
+ * Completed work sessions per task id across the archived days
+ */
+export function sumArchivedTaskSessions(
+  archive: DailyAggregate[],
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  archive.forEach((aggregate) => {
+    Object.entries(aggregate.tasks).forEach(([taskId, sessions]) => {
+      counts[taskId] = (counts[taskId] || 0) + sessions;
+    });
+  });
+  return counts;
+}
+
+/**
+ * Archived days that had at least one completed session
+ */
+export const getArchivedActiveDays = (archive: DailyAggregate[]): Date[] =>
+  archive
+    .filter((aggregate) => aggregate.completedSessions > 0)
+    .map((aggregate) => getDayFromKey(aggregate.date));
+
+/**
+ * Aggregate for the day `date` falls on, when sessions from that day were
+ * already folded into the archive. Their times are gone, so anything added
+ * on that day can't be checked for overlaps and may be counted twice.
+ */
+export const getArchivedDay = (
+  archive: DailyAggregate[],
+  date: Date,
+): DailyAggregate | undefined => {
+  const key = getDayKey(date);
+  return archive.find(
+    (aggregate) => aggregate.date === key && aggregate.totalSessions > 0,
+  );
+};
@@ -0,0 +1,316 @@
+import {
+  DailyAggregate,
+  DetailedStats,
+  StreakRules,
+  StreakStatus,
+  TimerSession,
+  TimerStats,
+} from "../types/timer";
+import {
+  addDaysToKey,
+  getDateBucketSettings,
+  getDayFromKey,
+  getDayKey,
+  getMonthKey,
+  getWeekStartKey,
+} from "./date-buckets";
+import {
+  addSessionToAggregate,
+  ArchiveTotals,
+  createDailyAggregate,
+  removeSessionFromAggregate,
+} from "./history-archive";
+import { calculateStreakStatus, DEFAULT_STREAK_RULES } from "./streaks";
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Totals for the periods shown in stats, relative to a given day
+ */
+export interface PeriodTotals {
+  today: ArchiveTotals;
+  week: ArchiveTotals;
+  month: ArchiveTotals;
+}
+
+const emptyTotals = (): ArchiveTotals => ({
+  totalSessions: 0,
+  completedSessions: 0,
+  workSessions: 0,
+  workTime: 0,
+  breakTime: 0,
+});
+
+function addToTotals(totals: ArchiveTotals, day: DailyAggregate) {
+  totals.totalSessions += day.totalSessions;
+  totals.completedSessions += day.completedSessions;
+  totals.workSessions += day.workSessions;
+  totals.workTime += day.workTime;
+  totals.breakTime += day.breakTime;
+}
+
+/**
+ * Keeps daily totals for session history and compacted history, and derives
+ * every statistic from those totals.
+ *
+ * `sync` compares the history it is given against the sessions it has
+ * already counted, so only sessions that were added, edited or deleted since
+ * the last call are folded in or taken out. Sessions are compared by
+ * reference, which matches how the store replaces a session when it changes.
+ */
+export class StatsEngine {
+  private sessionDays = new Map<TimerSession, string>();
+  private liveDays = new Map<string, DailyAggregate>();
+  private archiveDays: DailyAggregate[] = [];
+  private history: TimerSession[] | null = null;
+  private archive: DailyAggregate[] | null = null;
+  private streakRules: StreakRules = DEFAULT_STREAK_RULES;
+  private streakRulesKey = JSON.stringify(DEFAULT_STREAK_RULES);
+  private bucketSettingsKey = JSON.stringify(getDateBucketSettings());
+
+  private version = 0;
+  private cache: { key: string; stats: DetailedStats } | null = null;
+
+  /**
+   * Bring the daily totals up to date with `history` and `archive`, and
+   * count streaks by `streakRules`
+   */
+  sync(
+    history: TimerSession[],
+    archive: DailyAggregate[] = [],
+    streakRules: StreakRules = DEFAULT_STREAK_RULES,
+  ): this {
+    // A new day start hour moves sessions between days, so count them again.
+    // Compacted history keeps the days it was compacted into.
+    const bucketSettingsKey = JSON.stringify(getDateBucketSettings());
+    if (bucketSettingsKey !== this.bucketSettingsKey) {
+      this.sessionDays.clear();
+      this.liveDays.clear();
+      this.history = null;
+      this.bucketSettingsKey = bucketSettingsKey;
+      this.version++;
+    }
+
+    if (history !== this.history) {
+      const current = new Set(history);
+
+      this.sessionDays.forEach((_day, session) => {
+        if (!current.has(session)) this.removeSession(session);
+      });
+      current.forEach((session) => {
+        if (!this.sessionDays.has(session)) this.addSession(session);
+      });
+
+      this.history = history;
+    }
+
+    if (archive !== this.archive) {
+      this.archiveDays = archive;
+      this.archive = archive;
+      this.version++;
+    }
+
+    const streakRulesKey = JSON.stringify(streakRules);
+    if (streakRulesKey !== this.streakRulesKey) {
+      this.streakRules = streakRules;
+      this.streakRulesKey = streakRulesKey;
+      this.version++;
+    }
+
+    return this;
+  }
+
+  private addSession(session: TimerSession) {
+    const key = getDayKey(session.startTime);
+    const day = this.liveDays.get(key) || createDailyAggregate(key);
+
+    this.liveDays.set(key, addSessionToAggregate(day, session));
+    this.sessionDays.set(session, key);
+    this.version++;
+  }
+
+  private removeSession(session: TimerSession) {
+    const key = this.sessionDays.get(session);
+    const day = key && this.liveDays.get(key);
+    if (!key || !day) return;
+
+    const updated = removeSessionFromAggregate(day, session);
+    if (updated.totalSessions > 0) {
+      this.liveDays.set(key, updated);
+    } else {
+      this.liveDays.delete(key);
+    }
+    this.sessionDays.delete(session);
+    this.version++;
+  }
+
+  /**
+   * Daily totals of both live and compacted history
+   */
+  getDays(): DailyAggregate[] {
+    return [...this.archiveDays, ...this.liveDays.values()];
+  }
+
+  /**
+   * Totals over every session
+   */
+  getTotals(): ArchiveTotals {
+    const totals = emptyTotals();
+    this.getDays().forEach((day) => addToTotals(totals, day));
+    return totals;
+  }
+
+  /**
+   * Totals for the day, week and month containing `now`
+   */
+  getPeriodTotals(now: Date = new Date()): PeriodTotals {
+    const today = getDayKey(now);
+    const weekStart = getWeekStartKey(now);
+    const weekEnd = addDaysToKey(weekStart, 6);
+    const month = getMonthKey(now);
+
+    const totals = {
+      today: emptyTotals(),
+      week: emptyTotals(),
+      month: emptyTotals(),
+    };
+    // Day keys sort in date order, so ranges compare as strings
+    this.getDays().forEach((day) => {
+      if (day.date === today) addToTotals(totals.today, day);
+      if (day.date >= weekStart && day.date <= weekEnd) {
+        addToTotals(totals.week, day);
+      }
+      if (day.date.startsWith(month)) addToTotals(totals.month, day);
+    });
+
+    return totals;
+  }
+
+  /**
+   * Completed work sessions started in each hour of the day
+   */
+  getWorkSessionsByHour(): number[] {
+    const hours = new Array(24).fill(0);
+    this.getDays().forEach((day) => {
+      Object.entries(day.workSessionsByHour).forEach(([hour, count]) => {
+        hours[Number(hour)] += count;
+      });
+    });
+    return hours;
+  }
+
+  /**
+   * Completed sessions per tag
+   */
+  getTagCounts(): Record<string, number> {
+    const counts: Record<string, number> = {};
+    this.getDays().forEach((day) => {
+      Object.entries(day.tags).forEach(([tag, total]) => {
+        counts[tag] = (counts[tag] || 0) + total.sessions;
+      });
+    });
+    return counts;
+  }
+
+  /**
+   * Days with at least one completed session, oldest first
+   */
+  getActiveDays(): string[] {
+    const days = new Set(
+      this.getDays()
+        .filter((day) => day.completedSessions > 0)
+        .map((day) => day.date),
+    );
+    return Array.from(days).sort();
+  }
+
+  /**
+   * Current and longest streak as of `now`
+   */
+  getStreaks(now: Date = new Date()): Omit<StreakStatus, "freezesAvailable"> {
+    return calculateStreakStatus(this.getActiveDays(), this.streakRules, now);
+  }
+
+  /**
+   * Statistics shown on the timer and the profile, as of `now`
+   */
+  getDetailedStats(now: Date = new Date()): DetailedStats {
+    const cacheKey = `${this.version}:${getDayKey(now)}`;
+    if (this.cache?.key === cacheKey) return this.cache.stats;
+
+    const totals = this.getTotals();
+    const periods = this.getPeriodTotals(now);
+    const streaks = this.getStreaks(now);
+
+    const hours = this.getWorkSessionsByHour();
+    const weekdays = new Array(7).fill(0);
+    this.getDays().forEach((day) => {
+      weekdays[getDayFromKey(day.date).getDay()] += day.workSessions;
+    });
+
+    const stats: DetailedStats = {
+      totalSessions: totals.totalSessions,
+      completedSessions: totals.completedSessions,
+      totalWorkTime: totals.workTime,
+      totalBreakTime: totals.breakTime,
+      streakCount: streaks.current,
+      todaysSessions: periods.today.completedSessions,
+      weekSessions: periods.week.completedSessions,
+      monthSessions: periods.month.completedSessions,
+      averageSessionLength:
+        totals.workSessions > 0
+          ? totals.workTime / totals.workSessions / 60
+          : 0,
+      completionRate:
+        totals.totalSessions > 0
+          ? (totals.completedSessions / totals.totalSessions) * 100
+          : 0,
+      mostProductiveHour: hours.indexOf(Math.max(...hours)),
+      mostProductiveDay: DAY_NAMES[weekdays.indexOf(Math.max(...weekdays))],
+      longestStreak: streaks.longest,
+    };
+
+    this.cache = { key: cacheKey, stats };
+    return stats;
+  }
+
+  /**
+   * The statistics kept in the store, as of `now`
+   */
+  getStats(now: Date = new Date()): TimerStats {
+    const {
+      totalSessions,
+      completedSessions,
+      totalWorkTime,
+      totalBreakTime,
+      streakCount,
+      todaysSessions,
+      weekSessions,
+      monthSessions,
+    } = this.getDetailedStats(now);
+
+    return {
+      totalSessions,
+      completedSessions,
+      totalWorkTime,
+      totalBreakTime,
+      streakCount,
+      todaysSessions,
+      weekSessions,
+      monthSessions,
+    };
+  }
+}
+
+/**
+ * Engine shared by the store, its selectors and the profile screen
+ */
+export const statsEngine = new StatsEngine();
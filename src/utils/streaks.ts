@@ -0,0 +1,142 @@
+import {
+  PomodoroState,
+  RewardSystem,
+  StreakRules,
+  StreakStatus,
+} from "../types/timer";
+import { addDaysToKey, getDayFromKey, getDayKey } from "./date-buckets";
+
+/**
+ * Points needed to earn each streak freeze
+ */
+export const STREAK_FREEZE_POINTS = 500;
+
+/**
+ * Most freezes that can be saved up at once
+ */
+export const MAX_STREAK_FREEZES = 3;
+
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+export const DEFAULT_STREAK_RULES: StreakRules = {
+  workingDays: EVERY_DAY,
+  daysOff: [],
+  frozenDays: [],
+};
+
+/**
+ * Streak rules from the working days in config, the declared days off and
+ * the days covered by freezes
+ */
+export const getStreakRules = (
+  state: Pick<PomodoroState, "config" | "streakDaysOff" | "rewardSystem">,
+): StreakRules => ({
+  workingDays: state.config.workingDays,
+  daysOff: state.streakDaysOff.map((day) => day.date),
+  frozenDays: state.rewardSystem.frozenDays,
+});
+
+type DayStatus = "active" | "skipped" | "missed";
+
+/**
+ * Classify each day for streak purposes. Days off and frozen days are
+ * skipped even if a session happened on them, so they never extend a streak.
+ * Sessions on other days always count, and only a working day without one
+ * breaks the streak.
+ */
+function createDayClassifier(activeDays: string[], rules: StreakRules) {
+  const active = new Set(activeDays);
+  const excused = new Set([...rules.daysOff, ...rules.frozenDays]);
+  const workingDays = new Set(rules.workingDays);
+
+  return (day: string): DayStatus => {
+    if (excused.has(day)) return "skipped";
+    if (active.has(day)) return "active";
+    return workingDays.has(getDayFromKey(day).getDay()) ? "missed" : "skipped";
+  };
+}
+
+/**
+ * Current and longest streak of days with a completed session.
+ * `activeDays` are yyyy-MM-dd keys in ascending order. Today doesn't break
+ * the streak until it is over; until then the streak is at risk.
+ */
+export function calculateStreakStatus(
+  activeDays: string[],
+  rules: StreakRules,
+  now: Date = new Date(),
+): Omit<StreakStatus, "freezesAvailable"> {
+  if (activeDays.length === 0) return { current: 0, longest: 0, atRisk: false };
+
+  const classify = createDayClassifier(activeDays, rules);
+  const today = getDayKey(now);
+
+  let longest = 0;
+  let run = 0;
+  // Day keys sort in date order, so the walk compares them as strings
+  for (let day = activeDays[0]; day <= today; day = addDaysToKey(day, 1)) {
+    const status = classify(day);
+    if (status === "active") {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (status === "missed" && day !== today) {
+      run = 0;
+    }
+  }
+
+  return {
+    current: run,
+    longest,
+    atRisk: run > 0 && classify(today) === "missed",
+  };
+}
+
+/**
+ * Missed working days since the last active day, newest first, or an empty
+ * list when there is no streak to save or it would take more than
+ * `freezesAvailable` freezes to save it
+ */
+export function findDaysToFreeze(
+  activeDays: string[],
+  rules: StreakRules,
+  freezesAvailable: number,
+  now: Date = new Date(),
+): string[] {
+  if (activeDays.length === 0 || freezesAvailable <= 0) return [];
+
+  const classify = createDayClassifier(activeDays, rules);
+  const firstDay = activeDays[0];
+  const missed: string[] = [];
+
+  for (
+    let day = addDaysToKey(getDayKey(now), -1);
+    day >= firstDay;
+    day = addDaysToKey(day, -1)
+  ) {
+    const status = classify(day);
+    if (status === "active") return missed;
+    if (status === "missed") {
+      missed.push(day);
+      if (missed.length > freezesAvailable) return [];
+    }
+  }
+  return [];
+}
+
+/**
+ * Freezes held after the points total moves from `rewardSystem.points` to
+ * `newPoints`. One is earned for every STREAK_FREEZE_POINTS crossed.
+ */
+export function earnStreakFreezes(
+  rewardSystem: RewardSystem,
+  newPoints: number,
+): number {
+  const earned =
+    Math.floor(newPoints / STREAK_FREEZE_POINTS) -
+    Math.floor(rewardSystem.points / STREAK_FREEZE_POINTS);
+
+  return Math.min(
+    MAX_STREAK_FREEZES,
+    rewardSystem.streakFreezes + Math.max(earned, 0),
+  );
+}
@@ -0,0 +1,135 @@
+import { SessionType, TimerSession } from "../types/timer";
+import type { Project, Task } from "../services/task-service";
+
+/**
+ * Minimum similarity (0-1) for a session name to be linked to a task
+ */
+export const TASK_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Lowercases a name and drops punctuation and repeated whitespace
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two names from 0 (unrelated) to 1 (same after normalizing)
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  return (
+    1 - levenshteinDistance(left, right) / Math.max(left.length, right.length)
+  );
+}
+
+/**
+ * Finds the task a session most likely belongs to by fuzzy-matching its
+ * task and project names. Returns undefined when no task is close enough
+ * or when two tasks match equally well.
+ */
+export function findBestTaskMatch(
+  session: TimerSession,
+  tasks: Task[],
+  projects: Project[],
+): Task | undefined {
+  if (!session.taskName) return undefined;
+
+  let bestTask: Task | undefined;
+  let bestScore = 0;
+  let isAmbiguous = false;
+
+  tasks.forEach((task) => {
+    const score = getNameSimilarity(session.taskName!, task.name);
+    if (score < TASK_MATCH_THRESHOLD) return;
+
+    // When both sides name a project it has to agree as well
+    const project = projects.find((p) => p.id === task.project);
+    if (
+      session.projectName &&
+      project &&
+      getNameSimilarity(session.projectName, project.name) <
+        TASK_MATCH_THRESHOLD
+    ) {
+      return;
+    }
+
+    if (score > bestScore) {
+      bestTask = task;
+      bestScore = score;
+      isAmbiguous = false;
+    } else if (score === bestScore) {
+      isAmbiguous = true;
+    }
+  });
+
+  return isAmbiguous ? undefined : bestTask;
+}
+
+/**
+ * Links unlinked work sessions in history to tasks by fuzzy name matching
+ */
+export function linkSessionsToTasks(
+  history: TimerSession[],
+  tasks: Task[],
+  projects: Project[],
+): { history: TimerSession[]; linkedCount: number } {
+  let linkedCount = 0;
+
+  const linkedHistory = history.map((session) => {
+    if (session.type !== SessionType.WORK || session.taskId) {
+      return session;
+    }
+
+    const task = findBestTaskMatch(session, tasks, projects);
+    if (!task) return session;
+
+    linkedCount++;
+    return { ...session, taskId: task.id, projectId: task.project };
+  });
+
+  return { history: linkedHistory, linkedCount };
+}
+
+/**
+ * Completed work sessions linked to a task, oldest first
+ */
+export function getTaskSessions(
+  taskId: string,
+  history: TimerSession[],
+): TimerSession[] {
+  return history.filter(
+    (session) =>
+      session.taskId === taskId &&
+      session.type === SessionType.WORK &&
+      session.completed,
+  );
+}
@@ -0,0 +1,266 @@
+import {
+  SessionType,
+  TimerConfig,
+  TimerMethodId,
+  TimerSession,
+} from "../types/timer";
+import { getFocusedDuration } from "./helpers";
+
+/**
+ * Information a timer method needs to plan the next session
+ */
+export interface TimerMethodContext {
+  config: TimerConfig;
+  completedWorkSessions: number; // Work rounds finished in the current focus period
+  lastWorkSession?: TimerSession; // Most recent work round, used for proportional breaks
+}
+
+/**
+ * Strategy that controls session durations and the work/break cycle
+ */
+export interface TimerMethod {
+  id: TimerMethodId;
+  name: string;
+  description: string;
+  getSessionDuration: (
+    type: SessionType,
+    context: TimerMethodContext,
+  ) => number; // in seconds
+  getNextSessionType: (
+    completedType: SessionType,
+    context: TimerMethodContext,
+  ) => SessionType;
+  isCountUp?: (type: SessionType) => boolean; // Open-ended sessions with no fixed end
+}
+
+export interface TimerSequenceStep {
+  type: SessionType;
+  minutes: number;
+}
+
+const MAX_SEQUENCE_MINUTES = 180;
+
+const splitTimerSequence = (text: string): string[] =>
+  text
+    .split("/")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+/**
+ * Explains what is wrong with a custom sequence, or returns undefined when
+ * it can be used
+ */
+export function getTimerSequenceError(text: string): string | undefined {
+  const parts = splitTimerSequence(text);
+
+  if (parts.length < 2) {
+    return "Custom sequence needs a focus and a break length, e.g. 50/10";
+  }
+
+  const minutes = parts.map((part) => Number(part));
+  if (
+    minutes.some(
+      (value) =>
+        !Number.isInteger(value) || value <= 0 || value > MAX_SEQUENCE_MINUTES,
+    )
+  ) {
+    return `Custom sequence lengths must be whole minutes from 1 to ${MAX_SEQUENCE_MINUTES}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses a custom sequence such as "50/10/50/10/30" into alternating work
+ * and break steps. The last break of an even-length cycle is a long break;
+ * odd-length cycles end on a work round and wrap around, so that round is
+ * followed by the first break. Returns an empty array when the text is not
+ * a valid sequence; getTimerSequenceError explains why.
+ */
+export function parseTimerSequence(text: string): TimerSequenceStep[] {
+  if (getTimerSequenceError(text)) return [];
+
+  const minutes = splitTimerSequence(text).map((part) => Number(part));
+  const lastBreakIndex = minutes.length % 2 === 0 ? minutes.length - 1 : -1;
+
+  return minutes.map((value, index) => ({
+    type:
+      index % 2 === 0
+        ? SessionType.WORK
+        : index === lastBreakIndex && minutes.length > 2
+          ? SessionType.LONG_BREAK
+          : SessionType.SHORT_BREAK,
+    minutes: value,
+  }));
+}
+
+/**
+ * Formats sequence steps back into their "50/10/50/10" notation
+ */
+export function formatTimerSequence(steps: TimerSequenceStep[]): string {
+  return steps.map((step) => step.minutes).join("/");
+}
+
+/**
+ * Builds a method with fixed work and break lengths and no long breaks
+ */
+function createFixedIntervalMethod(
+  id: TimerMethodId,
+  name: string,
+  workMinutes: number,
+  breakMinutes: number,
+): TimerMethod {
+  return {
+    id,
+    name,
+    description: `${workMinutes} min focus followed by a ${breakMinutes} min break`,
+    getSessionDuration: (type) =>
+      (type === SessionType.WORK ? workMinutes : breakMinutes) * 60,
+    getNextSessionType: (completedType) =>
+      completedType === SessionType.WORK
+        ? SessionType.SHORT_BREAK
+        : SessionType.WORK,
+  };
+}
+
+const pomodoroMethod: TimerMethod = {
+  id: "pomodoro",
+  name: "Pomodoro",
+  description: "Work and break lengths from your preferences",
+  getSessionDuration: (type, { config }) => {
+    switch (type) {
+      case SessionType.SHORT_BREAK:
+        return config.shortBreakDuration * 60;
+      case SessionType.LONG_BREAK:
+        return config.longBreakDuration * 60;
+      default:
+        return config.workDuration * 60;
+    }
+  },
+  getNextSessionType: (completedType, { config, completedWorkSessions }) => {
+    if (completedType !== SessionType.WORK) {
+      return SessionType.WORK;
+    }
+
+    // Determine if it should be a long break or short break
+    const isLongBreakTime =
+      completedWorkSessions > 0 &&
+      completedWorkSessions % config.longBreakInterval === 0;
+    return isLongBreakTime ? SessionType.LONG_BREAK : SessionType.SHORT_BREAK;
+  },
+};
+
+const flowtimeMethod: TimerMethod = {
+  id: "flowtime",
+  name: "Flowtime",
+  description: "Work as long as you flow, then rest in proportion",
+  getSessionDuration: (type, { config, lastWorkSession }) => {
+    // Work counts up, so its length is only known when it ends
+    if (type === SessionType.WORK) {
+      return 0;
+    }
+
+    // Break is proportional to the time actually spent focusing
+    const focusedSeconds = lastWorkSession
+      ? getFocusedDuration(lastWorkSession)
+      : config.workDuration * 60;
+    return Math.max(60, Math.round(focusedSeconds * config.adaptiveBreakRatio));
+  },
+  getNextSessionType: (completedType) =>
+    completedType === SessionType.WORK
+      ? SessionType.SHORT_BREAK
+      : SessionType.WORK,
+  isCountUp: (type) => type === SessionType.WORK,
+};
+
+/**
+ * Builds the method for the user-defined sequence in preferences,
+ * falling back to Pomodoro when the sequence is invalid
+ */
+function createCustomSequenceMethod(sequence: string): TimerMethod {
+  const steps = parseTimerSequence(sequence);
+  const workSteps = steps.filter((step) => step.type === SessionType.WORK);
+  const breakSteps = steps.filter((step) => step.type !== SessionType.WORK);
+
+  if (workSteps.length === 0 || breakSteps.length === 0) {
+    return {
+      ...pomodoroMethod,
+      id: "custom",
+      name: "Custom Sequence",
+      description: sequence.trim()
+        ? `${getTimerSequenceError(sequence)}, using Pomodoro`
+        : "No sequence set in preferences, using Pomodoro",
+    };
+  }
+
+  // Each break follows the work round that just finished. Odd-length
+  // cycles have one break fewer than work rounds, so their last round wraps
+  // around to the first break.
+  const getBreakStep = (completedWorkSessions: number) => {
+    const round = Math.max(0, completedWorkSessions - 1) % workSteps.length;
+    return breakSteps[round % breakSteps.length];
+  };
+
+  return {
+    id: "custom",
+    name: "Custom Sequence",
+    description: `${formatTimerSequence(steps)} min cycle`,
+    getSessionDuration: (type, { completedWorkSessions }) =>
+      type === SessionType.WORK
+        ? workSteps[completedWorkSessions % workSteps.length].minutes * 60
+        : getBreakStep(completedWorkSessions).minutes * 60,
+    getNextSessionType: (completedType, { completedWorkSessions }) =>
+      completedType === SessionType.WORK
+        ? getBreakStep(completedWorkSessions).type
+        : SessionType.WORK,
+  };
+}
+
+/**
+ * Built-in timer methods in display order
+ */
+export const TIMER_METHODS: TimerMethod[] = [
+  pomodoroMethod,
+  flowtimeMethod,
+  createFixedIntervalMethod("52-17", "52/17", 52, 17),
+  createFixedIntervalMethod("ultradian", "90/20 Ultradian", 90, 20),
+];
+
+export const DEFAULT_TIMER_METHOD: TimerMethodId = "pomodoro";
+
+/**
+ * Resolves a timer method by id, including the custom sequence from config
+ */
+export function getTimerMethod(
+  id: TimerMethodId | undefined,
+  config: TimerConfig,
+): TimerMethod {
+  if (id === "custom") {
+    return createCustomSequenceMethod(config.customTimerSequence || "");
+  }
+
+  return TIMER_METHODS.find((method) => method.id === id) || pomodoroMethod;
+}
+
+/**
+ * Lists every selectable method, adding the custom sequence when one is set
+ */
+export function getAvailableTimerMethods(config: TimerConfig): TimerMethod[] {
+  return config.customTimerSequence?.trim()
+    ? [...TIMER_METHODS, createCustomSequenceMethod(config.customTimerSequence)]
+    : TIMER_METHODS;
+}
+
+/**
+ * Finds the most recent work session in history
+ */
+export function getLastWorkSession(
+  history: TimerSession[],
+): TimerSession | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].type === SessionType.WORK) {
+      return history[i];
+    }
+  }
+  return undefined;
+}
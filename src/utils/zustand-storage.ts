@@ -1,72 +1,471 @@
-import { PersistStorage } from "zustand/middleware";
+import { PersistStorage, StorageValue } from "zustand/middleware";
+import { MoodEntry, PomodoroStore, TimerSession } from "../types/timer";
 import { storageAdapter } from "./storage-adapter";
 
+type KeysOfUnion<T> = T extends unknown ? keyof T : never;
+type ValueOfUnion<T, K extends PropertyKey> = T extends unknown
+  ? K extends keyof T
+    ? T[K]
+    : never
+  : never;
+
+type FieldSchema<V> =
+  NonNullable<V> extends Date
+    ? undefined extends V
+      ? "optional"
+      : "required"
+    : NonNullable<V> extends readonly (infer Item)[]
+      ? DateFieldSchema<Item>
+      : NonNullable<V> extends object
+        ? DateFieldSchema<NonNullable<V>>
+        : never;
+
 /**
- * Recursively converts date strings back to Date objects
+ * Where Date fields sit in a stored value. Dates are written as ISO strings
+ * and turned back into Dates from these paths on load. A list field uses the
+ * schema of its items.
  */
-function reviveDates(obj: any): any {
-  if (obj === null || obj === undefined) return obj;
-
-  if (typeof obj === "string") {
-    // Check if string looks like an ISO date
-    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(obj)) {
-      const date = new Date(obj);
-      // Verify it's a valid date
-      if (!isNaN(date.getTime())) {
-        return date;
-      }
-    }
-    return obj;
+export type DateFieldSchema<T> = {
+  [K in KeysOfUnion<T>]?: FieldSchema<ValueOfUnion<T, K>>;
+};
+
+/**
+ * Raised when a stored date is missing or can't be parsed
+ */
+export class StoredDateError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly value: unknown,
+  ) {
+    super(`${path} is not a valid date (${JSON.stringify(value)})`);
+    this.name = "StoredDateError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function reviveDate(
+  value: unknown,
+  required: boolean,
+  path: string,
+): Date | undefined {
+  if (value === undefined || value === null) {
+    if (required) throw new StoredDateError(path, value);
+    return undefined;
   }
 
-  if (Array.isArray(obj)) {
-    return obj.map(reviveDates);
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === "string" || typeof value === "number"
+        ? new Date(value)
+        : new Date(NaN);
+  if (isNaN(date.getTime())) throw new StoredDateError(path, value);
+
+  return date;
+}
+
+function reviveFields(
+  value: unknown,
+  schema: Record<string, unknown>,
+  path: string,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      reviveFields(item, schema, `${path}[${index}]`),
+    );
   }
+  if (!isRecord(value)) return value;
 
-  if (typeof obj === "object") {
-    const result: any = {};
-    for (const key in obj) {
-      if (obj.hasOwnProperty(key)) {
-        result[key] = reviveDates(obj[key]);
+  const result: Record<string, unknown> = { ...value };
+  Object.entries(schema).forEach(([key, field]) => {
+    const fieldPath = path ? `${path}.${key}` : key;
+
+    if (isRecord(field)) {
+      if (result[key] !== undefined && result[key] !== null) {
+        result[key] = reviveFields(result[key], field, fieldPath);
       }
+    } else {
+      result[key] = reviveDate(result[key], field === "required", fieldPath);
     }
-    return result;
-  }
+  });
 
-  return obj;
+  return result;
 }
 
 /**
- * Custom Zustand storage implementation that works in both development and production
+ * Turn the date fields of a parsed value back into Dates.
+ * Throws a StoredDateError naming the first date that isn't valid.
  */
-export const zustandStorage: PersistStorage<any> = {
-  getItem: async (name: string) => {
-    try {
-      const value = await storageAdapter.getItem(name);
-      if (!value) return null;
+export function reviveDateFields<T>(
+  value: unknown,
+  schema: DateFieldSchema<T>,
+): T {
+  return reviveFields(value, schema as Record<string, unknown>, "") as T;
+}
 
-      const parsed = JSON.parse(value);
-      // Convert date strings back to Date objects
-      return reviveDates(parsed);
-    } catch (error) {
-      console.warn(`Failed to get item "${name}" from storage:`, error);
-      return null;
-    }
-  },
+const APPLICATION_USAGE_DATE_FIELDS = {
+  firstUsed: "optional",
+  lastUsed: "optional",
+} as const;
 
-  setItem: async (name: string, value: any): Promise<void> => {
-    try {
-      await storageAdapter.setItem(name, JSON.stringify(value));
-    } catch (error) {
-      console.warn(`Failed to set item "${name}" in storage:`, error);
-    }
-  },
+export const SESSION_DATE_FIELDS: DateFieldSchema<TimerSession> = {
+  startTime: "required",
+  endTime: "optional",
+  pauses: { startTime: "required", endTime: "optional" },
+  durationAdjustments: { timestamp: "required" },
+  applicationUsage: APPLICATION_USAGE_DATE_FIELDS,
+};
 
-  removeItem: async (name: string): Promise<void> => {
-    try {
-      await storageAdapter.removeItem(name);
-    } catch (error) {
-      console.warn(`Failed to remove item "${name}" from storage:`, error);
-    }
+export const MOOD_ENTRY_DATE_FIELDS: DateFieldSchema<MoodEntry> = {
+  timestamp: "required",
+};
+
+/**
+ * Date fields of the persisted timer store
+ */
+export const TIMER_STORE_DATE_FIELDS: DateFieldSchema<PomodoroStore> = {
+  currentSession: SESSION_DATE_FIELDS,
+  lastCompletedSession: SESSION_DATE_FIELDS,
+  history: SESSION_DATE_FIELDS,
+  moodEntries: MOOD_ENTRY_DATE_FIELDS,
+  rewardSystem: {
+    achievements: { unlockedAt: "optional" },
+    weeklyChallenge: { expiresAt: "required" },
+    lastRewardDate: "optional",
+  },
+  hyperfocusDetection: { lastBreakTime: "optional" },
+  savedHistoryViews: { createdAt: "required" },
+  trash: {
+    deletedAt: "required",
+    session: SESSION_DATE_FIELDS,
+    entry: MOOD_ENTRY_DATE_FIELDS,
   },
 };
+
+/**
+ * Key-value store the persisted state is written to
+ */
+export type StorageBackend = Pick<
+  typeof storageAdapter,
+  "getItem" | "setItem" | "removeItem"
+>;
+
+/**
+ * Read a stored value and revive its dates. Anything that can't be read is
+ * reported as an error rather than as missing, so it is never overwritten
+ * with defaults.
+ */
+async function readStoredValue<S>(
+  name: string,
+  read: () => Promise<StorageValue<unknown>>,
+  dateFields: DateFieldSchema<S>,
+): Promise<StorageValue<S>> {
+  try {
+    const stored = await read();
+    return {
+      ...stored,
+      state: reviveDateFields<S>(stored.state, dateFields),
+    };
+  } catch (error) {
+    console.error(`Failed to read item "${name}" from storage:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Create Zustand storage that works in both development and production and
+ * round-trips the Dates described by `dateFields`. Stored data that can't be
+ * read is reported as an error rather than as missing, so it is never
+ * overwritten with defaults.
+ */
+export function createZustandStorage<S>(
+  dateFields: DateFieldSchema<S>,
+  backend: StorageBackend = storageAdapter,
+): PersistStorage<S> {
+  return {
+    getItem: async (name: string) => {
+      const value = await backend.getItem(name);
+      if (!value) return null;
+      return readStoredValue(name, async () => JSON.parse(value), dateFields);
+    },
+
+    setItem: async (name: string, value: StorageValue<S>): Promise<void> => {
+      try {
+        await backend.setItem(name, JSON.stringify(value));
+      } catch (error) {
+        console.warn(`Failed to set item "${name}" in storage:`, error);
+      }
+    },
+
+    removeItem: async (name: string): Promise<void> => {
+      try {
+        await backend.removeItem(name);
+      } catch (error) {
+        console.warn(`Failed to remove item "${name}" from storage:`, error);
+      }
+    },
+  };
+}
+
+/**
+ * Main stored value of chunked storage. History lives under one key per
+ * month, listed in `historyMonths`, and each field in `separateFields` under
+ * a key of its own. Values written before chunking keep everything inline in
+ * `state` and have neither list.
+ */
+type ChunkedStorageValue = StorageValue<unknown> & {
+  historyMonths?: string[];
+  separateFields?: string[];
+};
+
+/**
+ * Storage key holding the sessions that started in `month` (yyyy-MM)
+ */
+export const getHistoryMonthKey = (name: string, month: string) =>
+  `${name}-history-${month}`;
+
+/**
+ * Storage key holding a state field that is stored apart from the main key
+ */
+export const getStateFieldKey = (name: string, field: string) =>
+  `${name}-${field}`;
+
+const getSessionMonth = ({ startTime }: TimerSession) =>
+  `${startTime.getFullYear()}-${String(startTime.getMonth() + 1).padStart(2, "0")}`;
+
+const byStartTime = (a: TimerSession, b: TimerSession) =>
+  a.startTime.getTime() - b.startTime.getTime();
+
+/**
+ * The sessions taken out of and put into `previous` to make `next`, found by
+ * skipping the sessions both share at either end. Adding a session at the
+ * end or editing one in place only compares references, so nothing is
+ * regrouped.
+ */
+function diffHistory(previous: TimerSession[], next: TimerSession[]) {
+  const shared = Math.min(previous.length, next.length);
+  let start = 0;
+  while (start < shared && previous[start] === next[start]) start++;
+  let end = 0;
+  while (
+    end < shared - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    removed: previous.slice(start, previous.length - end),
+    added: next.slice(start, next.length - end),
+  };
+}
+
+/**
+ * Create storage that keeps a small main key for settings, the current
+ * session and the reward system, history in month-partitioned keys, and each
+ * of `separateFields` (large lists that rarely change) in a key of its own.
+ * The main key is written on every change. A month or separate field is only
+ * written when it changes, and only the months holding changed sessions are
+ * worked out again, so neither the size nor the time of a write grows with
+ * history. Each month is stored in start time order.
+ *
+ * Chunks are written before the main key that lists them, and months that
+ * are no longer listed are removed last, so an interrupted write leaves the
+ * previous layout readable.
+ */
+export function createChunkedZustandStorage<
+  S extends { history: TimerSession[] },
+>(
+  dateFields: DateFieldSchema<S>,
+  backend: StorageBackend = storageAdapter,
+  separateFields: (keyof S & string)[] = [],
+): PersistStorage<S> {
+  // Sessions last written to each month key, and separate fields last
+  // written, compared by reference
+  const writtenMonths = new Map<string, TimerSession[]>();
+  const writtenFields = new Map<string, unknown>();
+  let writtenHistory: TimerSession[] = [];
+
+  const readChunk = async (key: string, label: string) => {
+    const value = await backend.getItem(key);
+    if (!value) throw new Error(`${label} is missing from storage`);
+    return JSON.parse(value) as unknown;
+  };
+
+  const resetWritten = () => {
+    writtenMonths.clear();
+    writtenFields.clear();
+    writtenHistory = [];
+  };
+
+  return {
+    getItem: async (name: string) => {
+      const value = await backend.getItem(name);
+      if (!value) return null;
+
+      let storedMonths: string[] = [];
+      let storedFields: string[] = [];
+      const stored = await readStoredValue(
+        name,
+        async () => {
+          const {
+            historyMonths: months,
+            separateFields: fields,
+            ...parsed
+          } = JSON.parse(value) as ChunkedStorageValue;
+          storedMonths = months || [];
+          storedFields = fields || [];
+
+          const state = { ...(parsed.state as Record<string, unknown>) };
+          if (months) {
+            const chunks = await Promise.all(
+              months.map((month) =>
+                readChunk(
+                  getHistoryMonthKey(name, month),
+                  `History for ${month}`,
+                ),
+              ),
+            );
+            state.history = (chunks as unknown[][]).flat();
+          }
+          for (const field of storedFields) {
+            state[field] = await readChunk(
+              getStateFieldKey(name, field),
+              `Stored ${field}`,
+            );
+          }
+
+          return { ...parsed, state };
+        },
+        dateFields,
+      );
+
+      // Chunks read back as they are stored don't need writing again
+      resetWritten();
+      if (storedMonths.length > 0) {
+        stored.state.history.forEach((session) => {
+          const month = getSessionMonth(session);
+          writtenMonths.set(month, [
+            ...(writtenMonths.get(month) || []),
+            session,
+          ]);
+        });
+        writtenHistory = stored.state.history;
+      }
+      storedFields.forEach((field) =>
+        writtenFields.set(field, stored.state[field as keyof S]),
+      );
+
+      return stored;
+    },
+
+    setItem: async (name: string, value: StorageValue<S>): Promise<void> => {
+      try {
+        const { history, ...rest } = value.state;
+        const hotState: Record<string, unknown> = { ...rest };
+
+        // Months holding a session that was added, edited or removed
+        const changedMonths = new Map<string, TimerSession[]>();
+        if (history !== writtenHistory) {
+          const { removed, added } = diffHistory(writtenHistory, history);
+          const removedSessions = new Set(removed);
+          const getMonthSessions = (month: string) =>
+            changedMonths.get(month) ||
+            (writtenMonths.get(month) || []).filter(
+              (session) => !removedSessions.has(session),
+            );
+
+          removed.forEach((session) => {
+            const month = getSessionMonth(session);
+            changedMonths.set(month, getMonthSessions(month));
+          });
+          added.forEach((session) => {
+            const month = getSessionMonth(session);
+            changedMonths.set(month, [...getMonthSessions(month), session]);
+          });
+        }
+
+        for (const [month, sessions] of changedMonths) {
+          if (sessions.length === 0) continue;
+          sessions.sort(byStartTime);
+          await backend.setItem(
+            getHistoryMonthKey(name, month),
+            JSON.stringify(sessions),
+          );
+          writtenMonths.set(month, sessions);
+        }
+
+        const storedFields = separateFields.filter(
+          (field) => hotState[field] !== undefined,
+        );
+        for (const field of storedFields) {
+          const fieldValue = hotState[field];
+          delete hotState[field];
+          if (writtenFields.get(field) === fieldValue) continue;
+          await backend.setItem(
+            getStateFieldKey(name, field),
+            JSON.stringify(fieldValue),
+          );
+          writtenFields.set(field, fieldValue);
+        }
+
+        const emptiedMonths = Array.from(changedMonths.keys()).filter(
+          (month) => changedMonths.get(month)!.length === 0,
+        );
+        emptiedMonths.forEach((month) => writtenMonths.delete(month));
+
+        await backend.setItem(
+          name,
+          JSON.stringify({
+            ...value,
+            state: hotState,
+            historyMonths: Array.from(writtenMonths.keys()).sort(),
+            separateFields: storedFields,
+          }),
+        );
+        writtenHistory = history;
+
+        for (const month of emptiedMonths) {
+          await backend.removeItem(getHistoryMonthKey(name, month));
+        }
+      } catch (error) {
+        // What was written is unknown, so the next write starts over
+        resetWritten();
+        console.warn(`Failed to set item "${name}" in storage:`, error);
+      }
+    },
+
+    removeItem: async (name: string): Promise<void> => {
+      try {
+        const value = await backend.getItem(name);
+        const stored = value
+          ? (JSON.parse(value) as ChunkedStorageValue)
+          : undefined;
+
+        await backend.removeItem(name);
+        for (const month of stored?.historyMonths || []) {
+          await backend.removeItem(getHistoryMonthKey(name, month));
+        }
+        for (const field of stored?.separateFields || []) {
+          await backend.removeItem(getStateFieldKey(name, field));
+        }
+        resetWritten();
+      } catch (error) {
+        console.warn(`Failed to remove item "${name}" from storage:`, error);
+      }
+    },
+  };
+}
+
+/**
+ * Storage for the timer store. Deleted items, compacted history and mood
+ * entries only change now and then, so they stay out of the main key that
+ * every timer tick rewrites.
+ */
+export const zustandStorage = createChunkedZustandStorage<PomodoroStore>(
+  TIMER_STORE_DATE_FIELDS,
+  storageAdapter,
+  ["trash", "historyArchive", "moodEntries"],
+);